@@ -0,0 +1,393 @@
+/**
+ * @file Замер скорости twoFish и MacGuffin во всех режимах, набивках и размерах ключа.
+ * @fileoverview Запуск без браузера (Node.js 20, с псевдонимами путей из tsconfig):
+ *
+ *   npx tsx crypto/benchmark.ts
+ *   npx tsx crypto/benchmark.ts --alg twofish --mode CBC --padding PKCS7 --key-size 32 --size 8
+ *   npx tsx crypto/benchmark.ts --format json --out benchmark.json
+ *
+ * Для каждого алгоритма и размера ключа измеряются установка ключа и шифрование одиночных
+ * блоков, а для каждой пары режим/набивка - шифрование и дешифрование буфера случайных данных.
+ * Результаты печатаются таблицей или в JSON; JSON удобно сравнивать между сборками,
+ * чтобы замечать регрессии в FeistelBlockCipher и tools.ts.
+ */
+
+import { writeFileSync } from "node:fs"
+import { parseArgs } from "node:util"
+
+import { MASTER_KEY_SIZE_BYTES as TWOFISH_KEY_SIZES } from "@/modules/crypto/common/constants/twoFish"
+import { MASTER_KEY_SIZE_BYTES as MACGUFFIN_KEY_SIZES } from "@/modules/crypto/common/constants/macGuffin"
+import { createCipherContext } from "@/modules/crypto/common/key_schedule"
+import { CipherAlgorithm, CipherPadding } from "@/modules/crypto/common/types"
+import { randomBytes } from "@/modules/crypto/common/platform"
+import { CipherMode } from "@/types/state"
+
+/**
+ * Алгоритмы по имени параметра --alg.
+ * @type {Record<string, CipherAlgorithm>}
+ */
+const ALGORITHMS: Record<string, CipherAlgorithm> = {
+  twofish: CipherAlgorithm.TwoFish,
+  macguffin: CipherAlgorithm.MacGuffin,
+}
+
+/**
+ * Допустимые размеры ключа алгоритмов в байтах.
+ * @type {Record<CipherAlgorithm, number[]>}
+ */
+const KEY_SIZES: Record<CipherAlgorithm, number[]> = {
+  [CipherAlgorithm.TwoFish]: TWOFISH_KEY_SIZES,
+  [CipherAlgorithm.MacGuffin]: MACGUFFIN_KEY_SIZES,
+}
+
+/**
+ * Количество повторов установки ключа.
+ * @type {number}
+ */
+const KEY_SETUP_ITERATIONS = 200
+
+/**
+ * Количество одиночных блоков в замере encryptBlock/decryptBlock.
+ * @type {number}
+ */
+const SINGLE_BLOCK_ITERATIONS = 20000
+
+/**
+ * Доля буфера, шифруемая перед замером режима для прогрева JIT.
+ * @type {number}
+ */
+const WARMUP_FRACTION = 0.25
+
+/**
+ * Справка по использованию.
+ * @type {string}
+ */
+const USAGE = `Usage: benchmark [options]
+
+Options:
+  --alg <twofish|macguffin>      Algorithm, may be repeated (default: all)
+  --mode <${Object.values(CipherMode).join("|")}>   Mode, may be repeated (default: all)
+  --padding <${Object.values(CipherPadding).join("|")}>   Padding, may be repeated (default: all)
+  --key-size <16|24|32>          Key size in bytes, may be repeated (default: all supported)
+  --size <MiB>                   Bulk buffer size (default: 1)
+  --format <table|json>          Output format (default: table)
+  --out <path>                   Also write JSON results to a file
+  -h, --help                     Show this help
+`
+
+/**
+ * Скорость шифрования буфера в одном режиме с одной набивкой.
+ */
+export type BulkResult = {
+  mode: CipherMode
+  padding: CipherPadding
+  encryptMiBps: number
+  decryptMiBps: number
+}
+
+/**
+ * Результаты одного алгоритма с одним размером ключа.
+ */
+export type AlgorithmResult = {
+  algorithm: string
+  keyBits: number
+  // Среднее время установки ключа.
+  keySetupMs: number
+  keySetupPerSecond: number
+  // Скорость encryptBlock/decryptBlock на одиночных блоках.
+  blockEncryptMiBps: number
+  blockDecryptMiBps: number
+  bulk: BulkResult[]
+}
+
+/**
+ * Полный отчет.
+ */
+export type BenchmarkReport = {
+  runtime: string
+  platform: string
+  date: string
+  bulkSizeBytes: number
+  results: AlgorithmResult[]
+}
+
+/**
+ * Разобранные параметры командной строки.
+ */
+type BenchmarkOptions = {
+  algorithms: CipherAlgorithm[]
+  modes: CipherMode[]
+  paddings: CipherPadding[]
+  keySizes: number[] | null
+  sizeBytes: number
+  format: "table" | "json"
+  out?: string
+}
+
+/**
+ * Возвращает время выполнения функции в секундах.
+ * @param {() => void} fn - Замеряемая функция.
+ * @returns {number} Время в секундах.
+ */
+function time(fn: () => void): number {
+  const start = performance.now()
+  fn()
+  return (performance.now() - start) / 1000
+}
+
+/**
+ * Переводит объем и время в МиБ/с.
+ * @param {number} bytes - Объем в байтах.
+ * @param {number} seconds - Время в секундах.
+ * @returns {number} Скорость в МиБ/с.
+ */
+function mibPerSecond(bytes: number, seconds: number): number {
+  return bytes / (1 << 20) / seconds
+}
+
+/**
+ * Измеряет один алгоритм с одним размером ключа.
+ * @param {CipherAlgorithm} algorithm - Алгоритм.
+ * @param {number} keySize - Размер ключа в байтах.
+ * @param {BenchmarkOptions} options - Режимы, набивки и размер буфера.
+ * @param {Uint8Array} data - Шифруемые данные.
+ * @returns {AlgorithmResult} Результаты.
+ */
+function measureAlgorithm(algorithm: CipherAlgorithm, keySize: number, options: BenchmarkOptions, data: Uint8Array): AlgorithmResult {
+  const context = createCipherContext(algorithm)
+  const key = randomBytes(keySize)
+  const blockSize = context.getBlockSizeBytes()
+
+  const setupKeys = (iterations: number) => {
+    for (let i = 0; i < iterations; i++) {
+      context.setMasterKey(key)
+    }
+  }
+  // Установка ключа и одиночные блоки дешевы: перед замером выполняется полный прогон для прогрева JIT.
+  setupKeys(KEY_SETUP_ITERATIONS)
+  const keySetupMs = time(() => setupKeys(KEY_SETUP_ITERATIONS)) * 1000 / KEY_SETUP_ITERATIONS
+
+  const roundKeys = context.keyExpansion.roundKeys!
+  let block = randomBytes(blockSize)
+  const encryptBlocks = (iterations: number) => {
+    for (let i = 0; i < iterations; i++) {
+      block = context.blockCipher.encryptBlock(block, roundKeys)
+    }
+  }
+  const decryptBlocks = (iterations: number) => {
+    for (let i = 0; i < iterations; i++) {
+      block = context.blockCipher.decryptBlock(block, roundKeys)
+    }
+  }
+  encryptBlocks(SINGLE_BLOCK_ITERATIONS)
+  const blockEncryptSeconds = time(() => encryptBlocks(SINGLE_BLOCK_ITERATIONS))
+  decryptBlocks(SINGLE_BLOCK_ITERATIONS)
+  const blockDecryptSeconds = time(() => decryptBlocks(SINGLE_BLOCK_ITERATIONS))
+
+  const warmup = data.subarray(0, Math.ceil(data.length * WARMUP_FRACTION))
+  const bulk: BulkResult[] = []
+  for (const mode of options.modes) {
+    for (const padding of options.paddings) {
+      context.setMode(mode).setPadding(padding).setIv(randomBytes(blockSize))
+      context.decryptData(context.encryptData(warmup))
+
+      // Повторное шифрование с тем же IV контекст отклоняет.
+      context.setIv(randomBytes(blockSize))
+      let ciphertext = new Uint8Array(0)
+      const encryptSeconds = time(() => {
+        ciphertext = context.encryptData(data)
+      })
+      const decryptSeconds = time(() => {
+        context.decryptData(ciphertext)
+      })
+
+      bulk.push({
+        mode,
+        padding,
+        encryptMiBps: mibPerSecond(data.length, encryptSeconds),
+        decryptMiBps: mibPerSecond(ciphertext.length, decryptSeconds),
+      })
+    }
+  }
+
+  return {
+    algorithm: CipherAlgorithm[algorithm],
+    keyBits: keySize * 8,
+    keySetupMs,
+    keySetupPerSecond: 1000 / keySetupMs,
+    blockEncryptMiBps: mibPerSecond(SINGLE_BLOCK_ITERATIONS * blockSize, blockEncryptSeconds),
+    blockDecryptMiBps: mibPerSecond(SINGLE_BLOCK_ITERATIONS * blockSize, blockDecryptSeconds),
+    bulk,
+  }
+}
+
+/**
+ * Форматирует строки в таблицу с выровненными столбцами.
+ * @param {string[]} headers - Заголовки столбцов.
+ * @param {string[][]} rows - Строки.
+ * @param {number} textColumns - Количество первых (текстовых) столбцов, выравниваемых влево; числа выравниваются вправо.
+ * @returns {string} Таблица.
+ */
+function formatTable(headers: string[], rows: string[][], textColumns: number): string {
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map(row => row[i].length)))
+  const line = (cells: string[]) => cells.map((cell, i) => i < textColumns ? cell.padEnd(widths[i]) : cell.padStart(widths[i])).join("  ")
+
+  return [line(headers), widths.map(width => "-".repeat(width)).join("  "), ...rows.map(line)].join("\n") + "\n"
+}
+
+/**
+ * Форматирует отчет для чтения человеком.
+ * @param {BenchmarkReport} report - Отчет.
+ * @returns {string} Две таблицы: ключ и одиночные блоки, затем буфер по режимам и набивкам.
+ */
+function formatReport(report: BenchmarkReport): string {
+  const perKey = formatTable(
+    ["Algorithm", "Key", "Key setup ms", "Keys/s", "Block enc MiB/s", "Block dec MiB/s"],
+    report.results.map(result => [
+      result.algorithm,
+      `${result.keyBits}`,
+      result.keySetupMs.toFixed(3),
+      result.keySetupPerSecond.toFixed(0),
+      result.blockEncryptMiBps.toFixed(2),
+      result.blockDecryptMiBps.toFixed(2),
+    ]),
+    2,
+  )
+
+  const bulk = formatTable(
+    ["Algorithm", "Key", "Mode", "Padding", "Encrypt MiB/s", "Decrypt MiB/s"],
+    report.results.flatMap(result => result.bulk.map(entry => [
+      result.algorithm,
+      `${result.keyBits}`,
+      entry.mode,
+      entry.padding,
+      entry.encryptMiBps.toFixed(2),
+      entry.decryptMiBps.toFixed(2),
+    ])),
+    4,
+  )
+
+  return `${report.runtime} ${report.platform}, buffer ${(report.bulkSizeBytes / (1 << 20)).toFixed(2)} MiB\n\n${perKey}\n${bulk}`
+}
+
+/**
+ * Сопоставляет значения параметра с допустимыми без учета регистра.
+ * @param {string[] | undefined} values - Значения из командной строки.
+ * @param {T[]} allowed - Допустимые значения.
+ * @param {string} name - Название параметра для сообщения об ошибке.
+ * @returns {T[]} Выбранные значения (по умолчанию все допустимые).
+ * @throws {Error} Если значение неизвестно.
+ */
+function pick<T extends string>(values: string[] | undefined, allowed: T[], name: string): T[] {
+  if (!values) {
+    return allowed
+  }
+
+  return values.map(value => {
+    const found = allowed.find(item => item.toUpperCase() === value.toUpperCase())
+    if (!found) {
+      throw new Error(`Неизвестное значение ${name}: ${value}`)
+    }
+    return found
+  })
+}
+
+/**
+ * Разбирает параметры командной строки.
+ * @param {string[]} argv - Аргументы командной строки.
+ * @returns {BenchmarkOptions | null} Параметры или null, если запрошена справка.
+ * @throws {Error} Если параметры некорректны.
+ */
+function parseOptions(argv: string[]): BenchmarkOptions | null {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      alg: { type: "string", multiple: true },
+      mode: { type: "string", multiple: true },
+      padding: { type: "string", multiple: true },
+      "key-size": { type: "string", multiple: true },
+      size: { type: "string", default: "1" },
+      format: { type: "string", default: "table" },
+      out: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  })
+
+  if (values.help) {
+    return null
+  }
+
+  const algorithms = pick(values.alg, Object.keys(ALGORITHMS), "--alg").map(name => ALGORITHMS[name])
+
+  const keySizes = values["key-size"]?.map(value => {
+    const size = Number(value)
+    if (!TWOFISH_KEY_SIZES.includes(size) && !MACGUFFIN_KEY_SIZES.includes(size)) {
+      throw new Error(`Неподдерживаемый размер ключа: ${value}`)
+    }
+    return size
+  }) ?? null
+
+  const sizeMiB = Number(values.size)
+  if (!(sizeMiB > 0)) {
+    throw new Error("Параметр --size должен быть положительным числом.")
+  }
+
+  if (values.format !== "table" && values.format !== "json") {
+    throw new Error(`Неизвестный формат: ${values.format}`)
+  }
+
+  return {
+    algorithms,
+    modes: pick(values.mode, Object.values(CipherMode), "--mode"),
+    paddings: pick(values.padding, Object.values(CipherPadding), "--padding"),
+    keySizes,
+    sizeBytes: Math.round(sizeMiB * (1 << 20)),
+    format: values.format,
+    out: values.out,
+  }
+}
+
+/**
+ * Точка входа.
+ * @param {string[]} argv - Аргументы командной строки.
+ * @returns {number} Код завершения.
+ */
+function main(argv: string[]): number {
+  let options: BenchmarkOptions | null
+  try {
+    options = parseOptions(argv)
+  } catch (e) {
+    process.stderr.write(`${(e as Error).message}\n\n${USAGE}`)
+    return 2
+  }
+  if (!options) {
+    process.stdout.write(USAGE)
+    return 0
+  }
+
+  const data = randomBytes(options.sizeBytes)
+  const report: BenchmarkReport = {
+    runtime: `Node.js ${process.version}`,
+    platform: `${process.platform}-${process.arch}`,
+    date: new Date().toISOString(),
+    bulkSizeBytes: data.length,
+    results: [],
+  }
+
+  for (const algorithm of options.algorithms) {
+    const keySizes = KEY_SIZES[algorithm].filter(size => !options.keySizes || options.keySizes.includes(size))
+    for (const keySize of keySizes) {
+      process.stderr.write(`${CipherAlgorithm[algorithm]} ${keySize * 8}...\n`)
+      report.results.push(measureAlgorithm(algorithm, keySize, options, data))
+    }
+  }
+
+  const json = JSON.stringify(report, null, 2) + "\n"
+  if (options.out) {
+    writeFileSync(options.out, json)
+  }
+  process.stdout.write(options.format === "json" ? json : formatReport(report))
+  return 0
+}
+
+process.exitCode = main(process.argv.slice(2))
@@ -0,0 +1,351 @@
+/**
+ * @file Консольная утилита шифрования файлов алгоритмами twoFish и MacGuffin.
+ * @fileoverview Запуск (Node.js 20, с псевдонимами путей из tsconfig):
+ *
+ *   npx tsx crypto/cli.ts encrypt --alg twofish --mode CBC --padding PKCS7 --passphrase "secret" < in > out
+ *   npx tsx crypto/cli.ts decrypt --alg twofish --mode CBC --padding PKCS7 --passphrase "secret" --in out --out in.copy
+ *
+ * Формат вывода шифрования: [соль PBKDF2 (16 байт), если ключ из пароля] | [IV (размер блока),
+ * если режим не ECB и IV не передан через --iv] | шифротекст. Дешифрование читает эти поля
+ * из начала входа в том же порядке. Данные обрабатываются потоком, без чтения файла целиком.
+ * Вывод в --out пишется во временный файл рядом с ним и переименовывается только при успехе,
+ * поэтому ошибка (например, неверный ключ или набивка) не оставляет частичного результата.
+ */
+
+import { createReadStream, createWriteStream, readFileSync } from "node:fs"
+import { rename, unlink } from "node:fs/promises"
+import { once } from "node:events"
+import { parseArgs } from "node:util"
+import type { Readable, Writable } from "node:stream"
+
+import { CipherContext as TwoFishCipherContext } from "@/modules/crypto/twoFish/CipherContext"
+import { CipherContext as MacGuffinCipherContext } from "@/modules/crypto/macGuffin/CipherContext"
+import { CipherContextBase } from "@/modules/crypto/common/interfaces/CipherContext"
+import { CipherPadding } from "@/modules/crypto/common/types"
+import { randomBytes } from "@/modules/crypto/common/platform"
+import { deriveBitsPBKDF2, PBKDF2_SHA256_ITERATIONS } from "@/modules/crypto/kdf"
+import { CipherMode } from "@/types/state"
+
+/**
+ * Размер соли PBKDF2 в байтах.
+ * @type {number}
+ */
+const SALT_SIZE_BYTES = 16
+
+/**
+ * Справка по использованию.
+ * @type {string}
+ */
+const USAGE = `Usage: cli <encrypt|decrypt> --alg <twofish|macguffin> [options]
+
+Options:
+  --mode <${Object.values(CipherMode).join("|")}>   (default: CBC)
+  --padding <${Object.values(CipherPadding).join("|")}>   (default: PKCS7)
+  --key-hex <hex>            Key as hex (twofish: 16/24/32 bytes, macguffin: 16 bytes)
+  --key-file <path>          File with raw key bytes
+  --passphrase <text>        Derive the key with PBKDF2-SHA-256 (salt is stored in the output)
+  --iterations <n>           PBKDF2 iterations (default: ${PBKDF2_SHA256_ITERATIONS}; not stored in the output)
+  --key-size <16|24|32>      Twofish key size for --passphrase (default: 32)
+  --iv <hex>                 Explicit IV; it is then neither written nor read
+  --in <path>                Input file (default: stdin)
+  --out <path>               Output file, written only on success (default: stdout)
+  -h, --help                 Show this help
+`
+
+/**
+ * Разобранные параметры командной строки.
+ */
+type CliOptions = {
+  command: "encrypt" | "decrypt"
+  alg: "twofish" | "macguffin"
+  mode: CipherMode
+  padding: CipherPadding
+  keyHex?: string
+  keyFile?: string
+  passphrase?: string
+  iterations: number
+  keySize: 16 | 24 | 32
+  iv?: Uint8Array
+  input?: string
+  output?: string
+}
+
+/**
+ * Декодирует шестнадцатеричную строку.
+ * @param {string} hex - Строка.
+ * @param {string} name - Название параметра для сообщения об ошибке.
+ * @returns {Uint8Array} Байты.
+ * @throws {Error} Если строка некорректна.
+ */
+function hexToBytes(hex: string, name: string): Uint8Array {
+  const clean = hex.replace(/\s+/g, "")
+  if (clean.length % 2 !== 0 || /[^0-9a-fA-F]/.test(clean)) {
+    throw new Error(`Параметр ${name} должен быть шестнадцатеричной строкой четной длины.`)
+  }
+
+  const bytes = new Uint8Array(clean.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
+}
+
+/**
+ * Разбирает аргументы командной строки.
+ * @param {string[]} argv - Аргументы без пути к node и скрипту.
+ * @returns {CliOptions | null} Параметры или null, если запрошена справка.
+ * @throws {Error} Если аргументы некорректны.
+ */
+function parseOptions(argv: string[]): CliOptions | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      alg: { type: "string" },
+      mode: { type: "string", default: CipherMode.CBC },
+      padding: { type: "string", default: CipherPadding.PKCS7 },
+      "key-hex": { type: "string" },
+      "key-file": { type: "string" },
+      passphrase: { type: "string" },
+      iterations: { type: "string", default: String(PBKDF2_SHA256_ITERATIONS) },
+      "key-size": { type: "string", default: "32" },
+      iv: { type: "string" },
+      in: { type: "string" },
+      out: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  })
+
+  if (values.help) return null
+
+  const command = positionals[0]
+  if (command !== "encrypt" && command !== "decrypt") {
+    throw new Error("Укажите команду encrypt или decrypt.")
+  }
+
+  const alg = values.alg?.toLowerCase()
+  if (alg !== "twofish" && alg !== "macguffin") {
+    throw new Error("Параметр --alg должен быть twofish или macguffin.")
+  }
+
+  const mode = Object.values(CipherMode).find(m => m.toUpperCase() === values.mode!.toUpperCase())
+  if (!mode) {
+    throw new Error(`Неизвестный режим: ${values.mode}`)
+  }
+
+  const padding = Object.values(CipherPadding).find(p => p.toUpperCase() === values.padding!.toUpperCase())
+  if (!padding) {
+    throw new Error(`Неизвестная набивка: ${values.padding}`)
+  }
+
+  const keySources = [values["key-hex"], values["key-file"], values.passphrase].filter(v => v !== undefined)
+  if (keySources.length !== 1) {
+    throw new Error("Укажите ровно один источник ключа: --key-hex, --key-file или --passphrase.")
+  }
+
+  const iterations = Number(values.iterations)
+  if (!Number.isInteger(iterations) || iterations <= 0) {
+    throw new Error("Параметр --iterations должен быть положительным целым числом.")
+  }
+
+  const keySize = Number(values["key-size"])
+  if (keySize !== 16 && keySize !== 24 && keySize !== 32) {
+    throw new Error("Параметр --key-size должен быть 16, 24 или 32.")
+  }
+
+  return {
+    command,
+    alg,
+    mode,
+    padding,
+    keyHex: values["key-hex"],
+    keyFile: values["key-file"],
+    passphrase: values.passphrase,
+    iterations,
+    keySize,
+    iv: values.iv !== undefined ? hexToBytes(values.iv, "--iv") : undefined,
+    input: values.in,
+    output: values.out,
+  }
+}
+
+/**
+ * Читает из потока ровно length байт, возвращая также остаток прочитанного фрагмента.
+ */
+class PrefixReader {
+  private buffered: Uint8Array = new Uint8Array(0)
+  private readonly iterator: AsyncIterator<Uint8Array>
+
+  constructor(input: Readable) {
+    this.iterator = input[Symbol.asyncIterator]()
+  }
+
+  /**
+   * Читает следующие length байт.
+   * @param {number} length - Количество байт.
+   * @returns {Promise<Uint8Array>} Прочитанные байты.
+   * @throws {Error} Если вход закончился раньше.
+   */
+  async read(length: number): Promise<Uint8Array> {
+    while (this.buffered.length < length) {
+      const { value, done } = await this.iterator.next()
+      if (done) {
+        throw new Error("Входные данные обрезаны: не хватает заголовка.")
+      }
+      const merged = new Uint8Array(this.buffered.length + value.length)
+      merged.set(this.buffered, 0)
+      merged.set(value, this.buffered.length)
+      this.buffered = merged
+    }
+
+    const result = this.buffered.slice(0, length)
+    this.buffered = this.buffered.slice(length)
+    return result
+  }
+
+  /**
+   * Возвращает оставшиеся данные: сначала буфер, затем остаток потока.
+   * @returns {AsyncGenerator<Uint8Array>} Фрагменты данных.
+   */
+  async *rest(): AsyncGenerator<Uint8Array> {
+    if (this.buffered.length > 0) yield this.buffered
+    for (;;) {
+      const { value, done } = await this.iterator.next()
+      if (done) return
+      yield value
+    }
+  }
+}
+
+/**
+ * Записывает фрагмент с учетом обратного давления потока.
+ * @param {Writable} output - Поток вывода.
+ * @param {Uint8Array} chunk - Данные.
+ */
+async function write(output: Writable, chunk: Uint8Array): Promise<void> {
+  if (chunk.length === 0) return
+  if (!output.write(chunk)) {
+    await once(output, "drain")
+  }
+}
+
+/**
+ * Создает контекст шифрования выбранного алгоритма.
+ * @param {CliOptions} options - Параметры.
+ * @returns {CipherContextBase} Контекст без ключа.
+ */
+function createContext(options: CliOptions): CipherContextBase {
+  const context = options.alg === "twofish" ? new TwoFishCipherContext() : new MacGuffinCipherContext()
+  context.setMode(options.mode).setPadding(options.padding)
+  return context
+}
+
+/**
+ * Получает мастер-ключ из hex, файла или пароля.
+ * @param {CliOptions} options - Параметры.
+ * @param {Uint8Array | null} salt - Соль PBKDF2 (только для --passphrase).
+ * @returns {Promise<Uint8Array>} Мастер-ключ.
+ */
+async function resolveKey(options: CliOptions, salt: Uint8Array | null): Promise<Uint8Array> {
+  if (options.keyHex !== undefined) return hexToBytes(options.keyHex, "--key-hex")
+  if (options.keyFile !== undefined) return new Uint8Array(readFileSync(options.keyFile))
+
+  const keyLength = options.alg === "twofish" ? options.keySize : 16
+  return deriveBitsPBKDF2(options.passphrase!, salt!, options.iterations, keyLength * 8, "SHA-256")
+}
+
+/**
+ * Выполняет шифрование или дешифрование потока.
+ * @param {CliOptions} options - Параметры.
+ * @param {Readable} input - Поток ввода.
+ * @param {Writable} output - Поток вывода.
+ */
+async function run(options: CliOptions, input: Readable, output: Writable): Promise<void> {
+  const context = createContext(options)
+  const blockSize = context.getBlockSizeBytes()
+  const usesIv = options.mode !== CipherMode.ECB
+  const encrypting = options.command === "encrypt"
+  const reader = new PrefixReader(input)
+
+  let salt: Uint8Array | null = null
+  if (options.passphrase !== undefined) {
+    salt = encrypting ? randomBytes(SALT_SIZE_BYTES) : await reader.read(SALT_SIZE_BYTES)
+  }
+  context.setMasterKey(await resolveKey(options, salt))
+
+  let iv: Uint8Array | null = null
+  if (usesIv) {
+    iv = options.iv ?? (encrypting ? randomBytes(blockSize) : await reader.read(blockSize))
+  }
+
+  if (encrypting) {
+    if (salt) await write(output, salt)
+    if (iv && !options.iv) await write(output, iv)
+    context.startEncryption(iv)
+  } else {
+    context.startDecryption(iv)
+  }
+
+  for await (const chunk of reader.rest()) {
+    await write(output, context.update(chunk))
+  }
+  await write(output, context.final())
+}
+
+/**
+ * Точка входа.
+ * @param {string[]} argv - Аргументы командной строки.
+ * @returns {Promise<number>} Код завершения.
+ */
+async function main(argv: string[]): Promise<number> {
+  let options: CliOptions | null
+  try {
+    options = parseOptions(argv)
+  } catch (e) {
+    process.stderr.write(`${(e as Error).message}\n\n${USAGE}`)
+    return 2
+  }
+
+  if (!options) {
+    process.stdout.write(USAGE)
+    return 0
+  }
+
+  // Временный файл в том же каталоге: rename не пересекает границу файловой системы.
+  const tempPath = options.output
+    ? `${options.output}.${Buffer.from(randomBytes(6)).toString("hex")}.tmp`
+    : null
+  const input = options.input ? createReadStream(options.input) : process.stdin
+  const output = tempPath ? createWriteStream(tempPath, { flags: "wx" }) : process.stdout
+
+  let failed = false
+  try {
+    await run(options, input, output)
+  } catch (e) {
+    process.stderr.write(`Ошибка: ${(e as Error).message}\n`)
+    failed = true
+  } finally {
+    if (output !== process.stdout) {
+      output.end()
+      await once(output, "close")
+    }
+  }
+
+  if (tempPath) {
+    try {
+      if (failed) {
+        await unlink(tempPath)
+      } else {
+        await rename(tempPath, options.output!)
+      }
+    } catch (e) {
+      process.stderr.write(`Ошибка: ${(e as Error).message}\n`)
+      return 1
+    }
+  }
+  return failed ? 1 : 0
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code
+})
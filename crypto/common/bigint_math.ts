@@ -0,0 +1,61 @@
+/**
+ * @file Арифметика над bigint для обмена ключами.
+ * @fileoverview Модульное возведение в степень и равномерные случайные числа. Используется
+ * классическим Диффи-Хеллманом (keys_worker.ts) и X25519 (x25519.ts).
+ */
+
+import { randomBytes } from "@/modules/crypto/common/platform"
+
+/**
+ * Возводит число в степень по модулю (двоичное возведение в степень).
+ * @param {bigint} base - Основание.
+ * @param {bigint} exponent - Неотрицательный показатель.
+ * @param {bigint} modulus - Модуль.
+ * @returns {bigint} base^exponent mod modulus.
+ */
+export function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  if (modulus === 1n) return 0n;
+  let result = 1n;
+  base = base % modulus;
+  while (exponent > 0n) {
+    if (exponent % 2n === 1n) {
+      result = (result * base) % modulus;
+    }
+    base = (base * base) % modulus;
+    exponent = exponent >> 1n; // Оператор побитового сдвига для деления на 2
+  }
+  return result;
+}
+
+/**
+ * Возвращает равномерно распределенное случайное число из [0, max).
+ * Берется ровно столько бит, сколько занимает max - 1, и значения не меньше max отбрасываются
+ * (выборка с отклонением): остаток от деления давал бы смещение к малым значениям.
+ * Ожидаемое число попыток меньше двух.
+ * @param {bigint} max - Верхняя граница (не включается).
+ * @returns {bigint} Случайное число.
+ * @throws {Error} Если max не положителен.
+ */
+export function generateRandomBigInt(max: bigint): bigint {
+  if (max <= 0n) {
+    throw new Error("Верхняя граница случайного числа должна быть положительной.");
+  }
+
+  const bitLength = (max - 1n).toString(2).length;
+  const byteLength = Math.ceil(bitLength / 8);
+  // Лишние старшие биты первого байта обнуляются, чтобы доля отклоненных значений была меньше половины.
+  const topByteMask = 0xFF >> (byteLength * 8 - bitLength);
+
+  for (;;) {
+    const array = randomBytes(byteLength);
+    array[0] &= topByteMask;
+
+    let randomValue = 0n;
+    for (let i = 0; i < byteLength; i++) {
+      randomValue = (randomValue << 8n) | BigInt(array[i]);
+    }
+    if (randomValue < max) {
+      return randomValue;
+    }
+  }
+}
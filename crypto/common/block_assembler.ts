@@ -0,0 +1,187 @@
+/**
+ * @file Сборка сообщения из блоков с заголовками uploadBlockHeader.
+ * @fileoverview Блоки могут приходить в любом порядке и повторяться. Сборщик
+ * отбрасывает дубликаты, сообщает пропущенные номера для повторной отправки
+ * и отдает собранную полезную нагрузку на дешифрование.
+ */
+
+import { CipherContextBase } from "@/modules/crypto/common/interfaces/CipherContext"
+import { BlockHeader } from "@/modules/crypto/common/types"
+
+/**
+ * Максимальное число блоков сообщения по умолчанию. Ограничивает память, которую
+ * может занять сборщик из-за поддельного заголовка.
+ * @type {number}
+ */
+export const DEFAULT_MAX_BLOCKS = 1 << 20
+
+/**
+ * Результат добавления блока.
+ */
+export type BlockPushResult = "accepted" | "duplicate" | "complete";
+
+/**
+ * Параметры сборщика.
+ */
+export type BlockAssemblerOptions = {
+  // Ожидаемое число блоков; для заголовков версии 1 и выше берется из заголовка.
+  blockCount?: number;
+  // Максимально допустимое число блоков (по умолчанию DEFAULT_MAX_BLOCKS).
+  maxBlocks?: number;
+  // Блоки в исходном формате заголовка без версии; требует blockCount, так как в заголовке его нет.
+  legacyHeaders?: boolean;
+  // Вызывается один раз, когда получены все блоки.
+  onComplete?: (payload: Uint8Array<any>, header: BlockHeader) => void;
+};
+
+/**
+ * Класс, собирающий полезную нагрузку сообщения из блоков.
+ */
+export class BlockAssembler {
+  // Полученные блоки по номеру.
+  private blocks_: Map<number, Uint8Array<any>> = new Map();
+
+  // Заголовок первого принятого блока (для проверки принадлежности остальных).
+  private header_: BlockHeader | null = null;
+
+  // Ожидаемое число блоков, если известно.
+  private blockCount_: number | null;
+
+  // Максимальный номер среди полученных блоков.
+  private maxBlockId_: number = -1;
+
+  // Максимально допустимое число блоков.
+  private maxBlocks_: number;
+
+  private legacyHeaders_: boolean;
+
+  private onComplete_?: (payload: Uint8Array<any>, header: BlockHeader) => void;
+
+  private completed_: boolean = false;
+
+  /**
+   * Конструктор BlockAssembler.
+   * @param {BlockAssemblerOptions} options - Число блоков, ограничение, формат заголовков и обработчик.
+   * @throws {Error} Если ограничение или ожидаемое число блоков некорректны либо legacyHeaders задан без blockCount.
+   */
+  constructor(options: BlockAssemblerOptions = {}) {
+    const { maxBlocks = DEFAULT_MAX_BLOCKS } = options;
+    if (!Number.isInteger(maxBlocks) || maxBlocks <= 0) {
+      throw new Error("Максимальное число блоков должно быть положительным целым числом.");
+    }
+
+    this.maxBlocks_ = maxBlocks;
+    this.legacyHeaders_ = options.legacyHeaders ?? false;
+    this.blockCount_ = options.blockCount ?? null;
+    if (this.blockCount_ !== null) {
+      this._checkBlockCount(this.blockCount_);
+    } else if (this.legacyHeaders_) {
+      // Без числа блоков сообщение в исходном формате никогда не будет собрано.
+      throw new Error("Для заголовков без версии необходимо указать blockCount.");
+    }
+    this.onComplete_ = options.onComplete;
+  }
+
+  /**
+   * Добавляет блок с заголовком.
+   * @param {Uint8Array} block - Блок в формате uploadBlockHeader.
+   * @returns {BlockPushResult} "duplicate" для повторного блока, "complete" когда сообщение собрано.
+   * @throws {Error} Если блок принадлежит другому сообщению, его номер или число блоков вне диапазона.
+   */
+  push(block: Uint8Array<any>): BlockPushResult {
+    const { header, payload } = CipherContextBase.parseBlockHeader(block, this.legacyHeaders_);
+
+    if (this.header_ && (header.receiverId !== this.header_.receiverId || header.date !== this.header_.date)) {
+      throw new Error(`Блок ${header.blockId} принадлежит другому сообщению.`);
+    }
+    if (header.blockCount !== null) {
+      this._checkBlockCount(header.blockCount);
+      if (this.blockCount_ !== null && this.blockCount_ !== header.blockCount) {
+        throw new Error("Число блоков в заголовках сообщения не совпадает.");
+      }
+      this.blockCount_ = header.blockCount;
+    }
+    const limit = this.blockCount_ ?? this.maxBlocks_;
+    if (header.blockId >= limit) {
+      throw new Error(`Номер блока ${header.blockId} вне диапазона 0..${limit - 1}.`);
+    }
+
+    this.header_ = this.header_ ?? header;
+
+    if (this.blocks_.has(header.blockId)) {
+      return "duplicate";
+    }
+
+    this.blocks_.set(header.blockId, payload.slice());
+    this.maxBlockId_ = Math.max(this.maxBlockId_, header.blockId);
+
+    if (this.isComplete()) {
+      if (!this.completed_) {
+        this.completed_ = true;
+        this.onComplete_?.(this.assemble(), this.header_);
+      }
+      return "complete";
+    }
+
+    return "accepted";
+  }
+
+  /**
+   * Возвращает номера блоков, которые нужно запросить повторно.
+   * Если число блоков неизвестно, учитываются только пропуски до максимального полученного номера.
+   * @returns {number[]} Отсортированный список пропущенных номеров.
+   */
+  missingBlockIds(): number[] {
+    const upperBound = this.blockCount_ ?? this.maxBlockId_ + 1;
+    const missing: number[] = [];
+
+    for (let id = 0; id < upperBound; id++) {
+      if (!this.blocks_.has(id)) {
+        missing.push(id);
+      }
+    }
+    return missing;
+  }
+
+  /**
+   * Проверяет, получены ли все блоки.
+   * @returns {boolean} true, если число блоков известно и все они получены.
+   */
+  isComplete(): boolean {
+    return this.blockCount_ !== null && this.blocks_.size === this.blockCount_;
+  }
+
+  /**
+   * Проверяет число блоков сообщения.
+   * @param {number} blockCount - Число блоков.
+   * @throws {Error} Если число блоков не положительно или превышает ограничение.
+   */
+  private _checkBlockCount(blockCount: number): void {
+    if (!Number.isInteger(blockCount) || blockCount <= 0 || blockCount > this.maxBlocks_) {
+      throw new Error(`Число блоков ${blockCount} вне диапазона 1..${this.maxBlocks_}.`);
+    }
+  }
+
+  /**
+   * Объединяет полезную нагрузку блоков в порядке номеров.
+   * @returns {Uint8Array} Собранные данные для дешифрования.
+   * @throws {Error} Если не все блоки получены.
+   */
+  assemble(): Uint8Array<any> {
+    if (!this.isComplete()) {
+      throw new Error(`Сообщение не собрано, отсутствуют блоки: ${this.missingBlockIds().join(", ") || "неизвестно"}.`);
+    }
+
+    let totalLength = 0;
+    this.blocks_.forEach(payload => totalLength += payload.length);
+
+    const result = new Uint8Array(totalLength);
+    let offset = 0;
+    for (let id = 0; id < (this.blockCount_ as number); id++) {
+      const payload = this.blocks_.get(id) as Uint8Array<any>;
+      result.set(payload, offset);
+      offset += payload.length;
+    }
+    return result;
+  }
+}
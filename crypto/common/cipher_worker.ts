@@ -0,0 +1,126 @@
+/**
+ * @file Web Worker пула шифрования.
+ * @fileoverview Получает сериализованный расширенный ключ один раз и затем обрабатывает
+ * переданные ему фрагменты данных на месте, сообщая о прогрессе. Запускается из worker_pool.ts.
+ */
+
+import { CipherContextBase } from "@/modules/crypto/common/interfaces/CipherContext"
+import { deserializeKeySchedule, SerializedKeySchedule } from "@/modules/crypto/common/key_schedule"
+import { CipherMode } from "@/types/state"
+
+/**
+ * Количество блоков, после обработки которых отправляется сообщение о прогрессе.
+ * @type {number}
+ */
+const PROGRESS_INTERVAL_BLOCKS = 4096
+
+/**
+ * Установка расширенного ключа.
+ */
+export type CipherWorkerKeyMessage = {
+  type: "key";
+  schedule: SerializedKeySchedule;
+};
+
+/**
+ * Задание на обработку фрагмента.
+ */
+export type CipherWorkerTaskMessage = {
+  type: "process";
+  // Идентификатор задания, возвращается во всех ответах.
+  id: number;
+  encrypting: boolean;
+  mode: CipherMode;
+  // IV фрагмента: для CBC/CFB при дешифровании - предыдущий блок шифротекста.
+  iv: Uint8Array<any> | null;
+  counterBytes?: number;
+  // Номер первого блока фрагмента относительно IV (для CTR).
+  startBlock: number;
+  // Данные, кратные размеру блока; обрабатываются на месте и возвращаются.
+  data: Uint8Array<any>;
+};
+
+/**
+ * Сообщение, принимаемое потоком шифрования.
+ */
+export type CipherWorkerRequest = CipherWorkerKeyMessage | CipherWorkerTaskMessage;
+
+/**
+ * Ответ потока шифрования.
+ */
+export type CipherWorkerResponse =
+  | { type: "progress"; id: number; blocks: number }
+  | { type: "done"; id: number; data: Uint8Array<any> }
+  | { type: "error"; id: number; name: string; message: string };
+
+/**
+ * Отправка ответа с необязательным списком передаваемых буферов.
+ */
+export type CipherWorkerPost = (message: CipherWorkerResponse, transfer?: Transferable[]) => void;
+
+/**
+ * Создает обработчик сообщений потока шифрования.
+ * @param {CipherWorkerPost} post - Функция отправки ответа.
+ * @returns {(message: CipherWorkerRequest) => void} Обработчик.
+ */
+export function createCipherWorkerHandler(post: CipherWorkerPost): (message: CipherWorkerRequest) => void {
+  let context: CipherContextBase | null = null;
+  // Ошибка восстановления ключа (например, SelfTestError) сообщается в ответ на следующее задание.
+  let keyError: Error | null = null;
+
+  return (message: CipherWorkerRequest) => {
+    if (message.type === "key") {
+      try {
+        context = deserializeKeySchedule(message.schedule);
+        keyError = null;
+      } catch (e) {
+        context = null;
+        keyError = e as Error;
+      }
+      return;
+    }
+
+    const { id, encrypting, mode, iv, counterBytes, startBlock, data } = message;
+    try {
+      if (!context) {
+        throw keyError ?? new Error("Расширенный ключ не передан в поток шифрования.");
+      }
+
+      context.setMode(mode).setOptions({ counterBytes }).setIv(iv).seek(startBlock);
+
+      const blockSize = context.getBlockSizeBytes();
+      let reported = 0;
+      for (let offset = 0, block = 1; offset < data.length; offset += blockSize, block++) {
+        if (encrypting) {
+          context.encryptInto(data, offset, data, offset);
+        } else {
+          context.decryptInto(data, offset, data, offset);
+        }
+
+        if (block - reported === PROGRESS_INTERVAL_BLOCKS) {
+          post({ type: "progress", id, blocks: block - reported });
+          reported = block;
+        }
+      }
+
+      const total = data.length / blockSize;
+      if (total > reported) {
+        post({ type: "progress", id, blocks: total - reported });
+      }
+      post({ type: "done", id, data }, [data.buffer]);
+    } catch (e) {
+      post({ type: "error", id, name: (e as Error).name, message: (e as Error).message });
+    }
+  };
+}
+
+// Точка входа выделенного потока; при импорте вне Web Worker ничего не делает.
+const workerScope = (globalThis as any).WorkerGlobalScope;
+if (typeof workerScope === "function" && globalThis instanceof workerScope) {
+  const scope = globalThis as unknown as {
+    postMessage(message: CipherWorkerResponse, transfer: Transferable[]): void;
+    onmessage: ((event: MessageEvent<CipherWorkerRequest>) => void) | null;
+  };
+  const handle = createCipherWorkerHandler((message, transfer = []) => scope.postMessage(message, transfer));
+  scope.onmessage = event => handle(event.data);
+}
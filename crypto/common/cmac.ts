@@ -0,0 +1,195 @@
+/**
+ * @file Реализация CMAC (OMAC1) поверх произвольного блочного шифра.
+ * @fileoverview Код аутентификации сообщений по NIST SP 800-38B / RFC 4493,
+ * работающий с любым IBlockCipher: 64-битным macGuffin и 128-битным twoFish.
+ */
+
+import { IBlockCipher } from "@/modules/crypto/common/interfaces/BlockCipher"
+import { MacGuffinKey } from "@/modules/crypto/common/types"
+
+import { constantTimeEqual, xorInto } from "@/modules/crypto/common/bits_operation"
+
+/**
+ * Константы R_b для генерации подключей в зависимости от размера блока в байтах.
+ * @type {Record<number, number>}
+ */
+const SUBKEY_CONSTANTS: Record<number, number> = {
+  8: 0x1B,
+  16: 0x87,
+}
+
+/**
+ * Сдвигает блок на один бит влево и при переносе старшего бита складывает с R_b.
+ * @param {Uint8Array} block - Исходный блок.
+ * @param {number} rb - Константа R_b.
+ * @returns {Uint8Array} Новый блок.
+ */
+function doubleBlock(block: Uint8Array<any>, rb: number): Uint8Array<any> {
+  const result = new Uint8Array(block.length);
+  for (let i = 0; i < block.length - 1; i++) {
+    result[i] = ((block[i] << 1) | (block[i + 1] >> 7)) & 0xFF;
+  }
+  result[block.length - 1] = (block[block.length - 1] << 1) & 0xFF;
+
+  if (block[0] & 0x80) {
+    result[block.length - 1] ^= rb;
+  }
+  return result;
+}
+
+/**
+ * Выводит подключи K1 и K2 из L = E_K(0^n) (SP 800-38B, раздел 6.1).
+ * @param {Uint8Array} l - Зашифрованный нулевой блок (8 или 16 байт).
+ * @returns {{ k1: Uint8Array, k2: Uint8Array }} Подключи.
+ * @throws {Error} Если размер блока не поддерживается.
+ */
+export function deriveCmacSubkeys(l: Uint8Array<any>): { k1: Uint8Array<any>, k2: Uint8Array<any> } {
+  const rb = SUBKEY_CONSTANTS[l.length];
+  if (rb === undefined) {
+    throw new Error(`CMAC не поддерживает размер блока ${l.length} байт.`);
+  }
+
+  const k1 = doubleBlock(l, rb);
+  return { k1, k2: doubleBlock(k1, rb) };
+}
+
+/**
+ * Класс, вычисляющий CMAC с поддержкой инкрементального обновления.
+ */
+export class Cmac {
+  // Блочный шифр.
+  private blockCipher_: IBlockCipher;
+
+  // Раундовые ключи блочного шифра.
+  private roundKeys_: MacGuffinKey | number[];
+
+  // Размер блока в байтах.
+  private blockSize_: number;
+
+  // Подключи K1 (полный последний блок) и K2 (дополненный последний блок).
+  private k1_: Uint8Array<any>;
+  private k2_: Uint8Array<any>;
+
+  // Текущее состояние цепочки CBC-MAC.
+  private state_: Uint8Array<any>;
+
+  // Необработанный остаток данных (не более одного блока).
+  private buffer_: Uint8Array<any>;
+  private bufferLength_: number = 0;
+
+  /**
+   * Конструктор Cmac.
+   * @param {IBlockCipher} blockCipher - Блочный шифр с размером блока 64 или 128 бит.
+   * @param {MacGuffinKey | number[]} roundKeys - Раундовые ключи, сгенерированные IKeyExpansion.
+   * @throws {Error} Если размер блока не поддерживается.
+   */
+  constructor(blockCipher: IBlockCipher, roundKeys: MacGuffinKey | number[]) {
+    this.blockCipher_ = blockCipher;
+    this.roundKeys_ = roundKeys;
+    this.blockSize_ = blockCipher.getBlockSizeBytes();
+
+    if (SUBKEY_CONSTANTS[this.blockSize_] === undefined) {
+      throw new Error(`CMAC не поддерживает размер блока ${this.blockSize_} байт.`);
+    }
+
+    const l = this.blockCipher_.encryptBlock(new Uint8Array(this.blockSize_), this.roundKeys_);
+    const { k1, k2 } = deriveCmacSubkeys(l);
+    this.k1_ = k1;
+    this.k2_ = k2;
+
+    this.state_ = new Uint8Array(this.blockSize_);
+    this.buffer_ = new Uint8Array(this.blockSize_);
+  }
+
+  /**
+   * Добавляет очередную порцию сообщения.
+   * @param {Uint8Array} data - Данные.
+   * @returns {Cmac} Текущий экземпляр.
+   */
+  update(data: Uint8Array<any>): Cmac {
+    let offset = 0;
+
+    while (offset < data.length) {
+      // Полный буфер обрабатывается только когда известно, что он не последний.
+      if (this.bufferLength_ === this.blockSize_) {
+        this._processBlock(this.buffer_);
+        this.bufferLength_ = 0;
+      }
+
+      const take = Math.min(this.blockSize_ - this.bufferLength_, data.length - offset);
+      this.buffer_.set(data.subarray(offset, offset + take), this.bufferLength_);
+      this.bufferLength_ += take;
+      offset += take;
+    }
+
+    return this;
+  }
+
+  /**
+   * Завершает вычисление и возвращает тег. После вызова состояние сбрасывается.
+   * @returns {Uint8Array} Тег CMAC длиной в один блок.
+   */
+  finalize(): Uint8Array<any> {
+    const last = new Uint8Array(this.blockSize_);
+    last.set(this.buffer_.subarray(0, this.bufferLength_));
+
+    let subkey = this.k1_;
+    if (this.bufferLength_ < this.blockSize_) {
+      last[this.bufferLength_] = 0x80;
+      subkey = this.k2_;
+    }
+
+    for (let i = 0; i < this.blockSize_; i++) {
+      last[i] ^= subkey[i];
+    }
+    this._processBlock(last);
+
+    const tag = this.state_;
+    this.reset();
+    return tag;
+  }
+
+  /**
+   * Завершает вычисление и сравнивает результат с ожидаемым тегом за постоянное время.
+   * @param {Uint8Array} tag - Ожидаемый тег (допускается усечение до 4 байт и более).
+   * @returns {boolean} true, если тег верен.
+   */
+  verify(tag: Uint8Array<any>): boolean {
+    const computed = this.finalize();
+    if (tag.length < 4 || tag.length > computed.length) {
+      return false;
+    }
+    return constantTimeEqual(computed.subarray(0, tag.length), tag);
+  }
+
+  /**
+   * Сбрасывает состояние для вычисления нового тега тем же ключом.
+   * @returns {Cmac} Текущий экземпляр.
+   */
+  reset(): Cmac {
+    this.state_ = new Uint8Array(this.blockSize_);
+    this.buffer_.fill(0);
+    this.bufferLength_ = 0;
+    return this;
+  }
+
+  /**
+   * Вычисляет CMAC от сообщения целиком.
+   * @param {IBlockCipher} blockCipher - Блочный шифр.
+   * @param {MacGuffinKey | number[]} roundKeys - Раундовые ключи.
+   * @param {Uint8Array} data - Сообщение.
+   * @returns {Uint8Array} Тег CMAC.
+   */
+  static compute(blockCipher: IBlockCipher, roundKeys: MacGuffinKey | number[], data: Uint8Array<any>): Uint8Array<any> {
+    return new Cmac(blockCipher, roundKeys).update(data).finalize();
+  }
+
+  /**
+   * Пропускает один блок через цепочку CBC-MAC.
+   * @param {Uint8Array} block - Блок данных.
+   */
+  private _processBlock(block: Uint8Array<any>): void {
+    xorInto(this.state_, 0, block, 0, this.state_, 0, this.blockSize_);
+    this.blockCipher_.encryptBlockInto(this.state_, 0, this.state_, 0, this.roundKeys_);
+  }
+}
@@ -0,0 +1,657 @@
+/**
+ * @file Контрольные векторы (known-answer tests) для twoFish и MacGuffin.
+ * @fileoverview twoFish: векторы из спецификации и материалов конкурса AES (ecb_tbl.txt, ecb_ival.txt),
+ * первая итерация Монте-Карло тестов (ecb_e_m.txt, ecb_d_m.txt) для ключей 128, 192 и 256 бит.
+ * MacGuffin: официального набора векторов у шифра нет, а исходный код авторов (mcg.c, Blaze и Schneier)
+ * здесь не прогонялся, поэтому его векторы - регрессионные: это выход этой же реализации. Они фиксируют
+ * поведение при изменениях, но не доказывают совпадения S-боксов и расширения ключа с оригиналом.
+ * Векторы режимов покрывают все пары режим/набивка. Для twoFish они получены сборкой режимов, написанной
+ * отдельно от CipherContextBase, поверх независимой реализации twoFish, сверенной с ecb_tbl.txt;
+ * для MacGuffin та же сборка работает поверх шифрования блока этой реализации (регрессия).
+ * Режимы ECB, CBC, CFB, OFB и CTR, кроме того, проверяются векторами NIST SP 800-38A поверх AES.
+ * Общие примитивы проверяются по опубликованным векторам поверх эталонного AES (crypto/kat/aes.ts):
+ * шифрование блока - FIPS 197 (приложение C), CMAC - RFC 4493 (раздел 4), GHASH и GCM - тестовые
+ * примеры спецификации GCM (SP 800-38D), обертывание ключей - RFC 3394 (раздел 4) и RFC 5649 (раздел 6).
+ * PBKDF2-HMAC-SHA-256 проверяется по RFC 7914 (раздел 11). X25519 проверяется по RFC 7748 (разделы 5.2 и 6.1)
+ * без AES. Подключи CMAC для 64-битного блока сверяются
+ * с примером TDEA из NIST SP 800-38B. Все значения - шестнадцатеричные строки.
+ */
+
+import { CipherMode } from "@/types/state"
+import { CipherAlgorithm, CipherPadding } from "@/modules/crypto/common/types"
+
+/**
+ * Шифрование одного блока.
+ * @property {string} key - Ключ.
+ * @property {string} plaintext - Открытый текст.
+ * @property {string} ciphertext - Ожидаемый шифротекст.
+ */
+export interface BlockVector {
+  key: string
+  plaintext: string
+  ciphertext: string
+}
+
+/**
+ * Цепочка шифрований из ecb_ival.txt: начиная с нулевых ключа и блока, на каждом шаге
+ * следующий блок - это предыдущий шифротекст, а ключ - предыдущий открытый текст,
+ * за которым следуют первые байты предыдущего ключа.
+ * @property {number} keySizeBytes - Длина ключа.
+ * @property {number} iterations - Количество шагов.
+ * @property {string} ciphertext - Шифротекст последнего шага.
+ */
+export interface ChainVector {
+  keySizeBytes: number
+  iterations: number
+  ciphertext: string
+}
+
+/**
+ * Монте-Карло тест: блок шифруется (и отдельно дешифруется) iterations раз подряд одним ключом.
+ * @property {string} key - Ключ.
+ * @property {string} plaintext - Начальный блок.
+ * @property {number} iterations - Количество повторов.
+ * @property {string} encrypted - Результат цепочки шифрований.
+ * @property {string} decrypted - Результат цепочки дешифрований.
+ */
+export interface MonteCarloVector {
+  key: string
+  plaintext: string
+  iterations: number
+  encrypted: string
+  decrypted: string
+}
+
+/**
+ * Шифрование сообщения в заданном режиме с заданной набивкой (через encryptData).
+ * Для ISO10126 набивка случайна, поэтому такой вектор проверяется только дешифрованием;
+ * байты набивки в нем равны 0xA5.
+ * @property {CipherMode} mode - Режим.
+ * @property {CipherPadding} padding - Набивка.
+ * @property {string} ciphertext - Ожидаемый шифротекст.
+ */
+export interface ModeVector {
+  mode: CipherMode
+  padding: CipherPadding
+  ciphertext: string
+}
+
+/**
+ * Набор векторов одного алгоритма.
+ * @property {boolean} regression - Векторы получены этой же реализацией (регрессия, а не известный ответ).
+ */
+export interface AlgorithmVectors {
+  regression: boolean
+  blocks: BlockVector[]
+  chains: ChainVector[]
+  monteCarlo: MonteCarloVector[]
+  modes: {
+    key: string
+    iv: string
+    plaintext: string
+    vectors: ModeVector[]
+  }
+}
+
+/**
+ * Общий открытый текст векторов режимов: 37 байт 00..24, чтобы последний блок был неполным.
+ * @type {string}
+ */
+const MODE_PLAINTEXT = "000102030405060708090A0B0C0D0E0F101112131415161718191A1B1C1D1E1F2021222324"
+
+/**
+ * Общий ключ векторов режимов.
+ * @type {string}
+ */
+const MODE_KEY = "000102030405060708090A0B0C0D0E0F"
+
+/**
+ * Контрольные векторы twoFish.
+ * @type {AlgorithmVectors}
+ */
+const TWOFISH_VECTORS: AlgorithmVectors = {
+  regression: false,
+  blocks: [
+    { key: "00000000000000000000000000000000", plaintext: "00000000000000000000000000000000", ciphertext: "9F589F5CF6122C32B6BFEC2F2AE8C35A" },
+    { key: "00000000000000000000000000000000", plaintext: "9F589F5CF6122C32B6BFEC2F2AE8C35A", ciphertext: "D491DB16E7B1C39E86CB086B789F5419" },
+    { key: "9F589F5CF6122C32B6BFEC2F2AE8C35A", plaintext: "D491DB16E7B1C39E86CB086B789F5419", ciphertext: "019F9809DE1711858FAAC3A3BA20FBC3" },
+    { key: "000000000000000000000000000000000000000000000000", plaintext: "00000000000000000000000000000000", ciphertext: "EFA71F788965BD4453F860178FC19101" },
+    { key: "0123456789ABCDEFFEDCBA98765432100011223344556677", plaintext: "00000000000000000000000000000000", ciphertext: "CFD1D2E5A9BE9CDF501F13B892BD2248" },
+    { key: "0000000000000000000000000000000000000000000000000000000000000000", plaintext: "00000000000000000000000000000000", ciphertext: "57FF739D4DC92C1BD7FC01700CC8216F" },
+    { key: "0123456789ABCDEFFEDCBA987654321000112233445566778899AABBCCDDEEFF", plaintext: "00000000000000000000000000000000", ciphertext: "37527BE0052334B89F0CFCCAE87CFA20" },
+  ],
+  chains: [
+    { keySizeBytes: 16, iterations: 49, ciphertext: "5D9D4EEFFA9151575524F115815A12E0" },
+    { keySizeBytes: 24, iterations: 49, ciphertext: "E75449212BEEF9F4A390BD860A640941" },
+    { keySizeBytes: 32, iterations: 49, ciphertext: "37FE26FF1CF66175F5DDF4C33B97A205" },
+  ],
+  monteCarlo: [
+    {
+      key: "00000000000000000000000000000000",
+      plaintext: "00000000000000000000000000000000",
+      iterations: 10000,
+      encrypted: "282BE7E4FA1FBDC29661286F1F310B7E",
+      decrypted: "21D3F7F6724513946B72CFAE47DA2EED",
+    },
+    {
+      key: "000000000000000000000000000000000000000000000000",
+      plaintext: "00000000000000000000000000000000",
+      iterations: 10000,
+      encrypted: "9AB71D7F280FF79F0D135BBD5FAB7E37",
+      decrypted: "B4582FA55072FCFEF538F39072F234A9",
+    },
+    {
+      key: "0000000000000000000000000000000000000000000000000000000000000000",
+      plaintext: "00000000000000000000000000000000",
+      iterations: 10000,
+      encrypted: "04F2F36CA927AE506931DE8F78B2513C",
+      decrypted: "BC7D078C4872063869DEAB891FB42761",
+    },
+  ],
+  modes: {
+    key: MODE_KEY,
+    iv: "F0F1F2F3F4F5F6F7F8F9FAFBFCFDFEFF",
+    plaintext: MODE_PLAINTEXT,
+    vectors: [
+      { mode: CipherMode.ECB, padding: CipherPadding.Zeros, ciphertext: "9FB63337151BE9C71306D159EA7AFAA4DE05A6DE0290D44C57C44314086B44635ED1DE4A9E926A0E1F5746FA664D7D3A" },
+      { mode: CipherMode.ECB, padding: CipherPadding.ANSIX923, ciphertext: "9FB63337151BE9C71306D159EA7AFAA4DE05A6DE0290D44C57C44314086B44639AFD8931A99C09133B85225E4EE401B7" },
+      { mode: CipherMode.ECB, padding: CipherPadding.PKCS7, ciphertext: "9FB63337151BE9C71306D159EA7AFAA4DE05A6DE0290D44C57C44314086B4463BA7692CE53ED63E97E0E2BDB209DF050" },
+      { mode: CipherMode.ECB, padding: CipherPadding.ISO10126, ciphertext: "9FB63337151BE9C71306D159EA7AFAA4DE05A6DE0290D44C57C44314086B4463E7FAF085FD8B954200DCDEAC51D0DE51" },
+      { mode: CipherMode.CBC, padding: CipherPadding.Zeros, ciphertext: "CDC58B31AF3BF5DB4894BF1928B3E7216D27F7B290CB1AE42E22C58DD4D3FEF9D1B30B102E7FA04FB0F8049A2531D72E" },
+      { mode: CipherMode.CBC, padding: CipherPadding.ANSIX923, ciphertext: "CDC58B31AF3BF5DB4894BF1928B3E7216D27F7B290CB1AE42E22C58DD4D3FEF9BA27A3810E8894B5B7DC0C468D7A9E7A" },
+      { mode: CipherMode.CBC, padding: CipherPadding.PKCS7, ciphertext: "CDC58B31AF3BF5DB4894BF1928B3E7216D27F7B290CB1AE42E22C58DD4D3FEF9EA25A0BAABF36923756BA3F727109AF6" },
+      { mode: CipherMode.CBC, padding: CipherPadding.ISO10126, ciphertext: "CDC58B31AF3BF5DB4894BF1928B3E7216D27F7B290CB1AE42E22C58DD4D3FEF9855A21788623A7C4492C630DF632B62E" },
+      { mode: CipherMode.PCBC, padding: CipherPadding.Zeros, ciphertext: "CDC58B31AF3BF5DB4894BF1928B3E7215725D8B7B77FBB7E4F7A5FC93C937F8B57C289D05D5C92787F660F87EEA8D2B8" },
+      { mode: CipherMode.PCBC, padding: CipherPadding.ANSIX923, ciphertext: "CDC58B31AF3BF5DB4894BF1928B3E7215725D8B7B77FBB7E4F7A5FC93C937F8BD76F3E84B1D1B68D643AAB08EDD435B3" },
+      { mode: CipherMode.PCBC, padding: CipherPadding.PKCS7, ciphertext: "CDC58B31AF3BF5DB4894BF1928B3E7215725D8B7B77FBB7E4F7A5FC93C937F8BBCE1A684024501FE9497AC20CDF741A8" },
+      { mode: CipherMode.PCBC, padding: CipherPadding.ISO10126, ciphertext: "CDC58B31AF3BF5DB4894BF1928B3E7215725D8B7B77FBB7E4F7A5FC93C937F8B4D4A7A66C950E9E1AE4D478B97DADC3C" },
+      { mode: CipherMode.CFB, padding: CipherPadding.Zeros, ciphertext: "F77D6D647451C83BC28ED212BE7CE9F39ADE8183B7FC8EDF9065EC2F075727ED24C818D9D29A22D41FE4D77F4216AB42" },
+      { mode: CipherMode.CFB, padding: CipherPadding.ANSIX923, ciphertext: "F77D6D647451C83BC28ED212BE7CE9F39ADE8183B7FC8EDF9065EC2F075727ED24C818D9D29A22D41FE4D77F4216AB49" },
+      { mode: CipherMode.CFB, padding: CipherPadding.PKCS7, ciphertext: "F77D6D647451C83BC28ED212BE7CE9F39ADE8183B7FC8EDF9065EC2F075727ED24C818D9D29129DF14EFDC74491DA049" },
+      { mode: CipherMode.CFB, padding: CipherPadding.ISO10126, ciphertext: "F77D6D647451C83BC28ED212BE7CE9F39ADE8183B7FC8EDF9065EC2F075727ED24C818D9D23F8771BA4172DAE7B30E49" },
+      { mode: CipherMode.OFB, padding: CipherPadding.Zeros, ciphertext: "F77D6D647451C83BC28ED212BE7CE9F3620091BB9291AAACD43D417DD521468E166D9774FABCB68CCD4411693523F6CD" },
+      { mode: CipherMode.OFB, padding: CipherPadding.ANSIX923, ciphertext: "F77D6D647451C83BC28ED212BE7CE9F3620091BB9291AAACD43D417DD521468E166D9774FABCB68CCD4411693523F6C6" },
+      { mode: CipherMode.OFB, padding: CipherPadding.PKCS7, ciphertext: "F77D6D647451C83BC28ED212BE7CE9F3620091BB9291AAACD43D417DD521468E166D9774FAB7BD87C64F1A623E28FDC6" },
+      { mode: CipherMode.OFB, padding: CipherPadding.ISO10126, ciphertext: "F77D6D647451C83BC28ED212BE7CE9F3620091BB9291AAACD43D417DD521468E166D9774FA19132968E1B4CC908653C6" },
+      { mode: CipherMode.CTR, padding: CipherPadding.Zeros, ciphertext: "F77D6D647451C83BC28ED212BE7CE9F3EBBDAC2BFFD4A4D75778AA105E5C59782D03EA043C93ADB244E58D97EBF67F25" },
+      { mode: CipherMode.CTR, padding: CipherPadding.ANSIX923, ciphertext: "F77D6D647451C83BC28ED212BE7CE9F3EBBDAC2BFFD4A4D75778AA105E5C59782D03EA043C93ADB244E58D97EBF67F2E" },
+      { mode: CipherMode.CTR, padding: CipherPadding.PKCS7, ciphertext: "F77D6D647451C83BC28ED212BE7CE9F3EBBDAC2BFFD4A4D75778AA105E5C59782D03EA043C98A6B94FEE869CE0FD742E" },
+      { mode: CipherMode.CTR, padding: CipherPadding.ISO10126, ciphertext: "F77D6D647451C83BC28ED212BE7CE9F3EBBDAC2BFFD4A4D75778AA105E5C59782D03EA043C360817E14028324E53DA2E" },
+      { mode: CipherMode.RANDOM_DELTA, padding: CipherPadding.Zeros, ciphertext: "CDC58B31AF3BF5DB4894BF1928B3E7211112FABD482BFF863798CBDCB0DC4D147BA17E890F84CDFF28C3D193F66685A7" },
+      { mode: CipherMode.RANDOM_DELTA, padding: CipherPadding.ANSIX923, ciphertext: "CDC58B31AF3BF5DB4894BF1928B3E7211112FABD482BFF863798CBDCB0DC4D14B412C964B8A876956EDF178F3AE78877" },
+      { mode: CipherMode.RANDOM_DELTA, padding: CipherPadding.PKCS7, ciphertext: "CDC58B31AF3BF5DB4894BF1928B3E7211112FABD482BFF863798CBDCB0DC4D14F9A6EAEA691483B24583A8E75DA142F4" },
+      { mode: CipherMode.RANDOM_DELTA, padding: CipherPadding.ISO10126, ciphertext: "CDC58B31AF3BF5DB4894BF1928B3E7211112FABD482BFF863798CBDCB0DC4D14E5CE8D4444ED5DA57C4130B7B78B8F36" },
+    ],
+  },
+}
+
+/**
+ * Регрессионные векторы MacGuffin: выход этой реализации, а не опубликованные значения.
+ * @type {AlgorithmVectors}
+ */
+const MACGUFFIN_REGRESSION_VECTORS: AlgorithmVectors = {
+  regression: true,
+  blocks: [
+    { key: "00000000000000000000000000000000", plaintext: "0000000000000000", ciphertext: "5392FA652B8934F8" },
+    { key: "000102030405060708090A0B0C0D0E0F", plaintext: "0123456789ABCDEF", ciphertext: "1B0CDFBF289C5E9B" },
+    { key: "FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF", plaintext: "FFFFFFFFFFFFFFFF", ciphertext: "29BA1015AFC2CA44" },
+  ],
+  chains: [],
+  monteCarlo: [
+    { key: "00000000000000000000000000000000", plaintext: "0000000000000000", iterations: 10000, encrypted: "E02FA80CA35E88FC", decrypted: "376AAC64A081E8C1" },
+    { key: "000102030405060708090A0B0C0D0E0F", plaintext: "0123456789ABCDEF", iterations: 10000, encrypted: "F01BE3FC1521455E", decrypted: "BAEF33E97DD15861" },
+    { key: "FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF", plaintext: "FFFFFFFFFFFFFFFF", iterations: 10000, encrypted: "6BF0ACED65CD97B3", decrypted: "916369CDB278213F" },
+  ],
+  modes: {
+    key: MODE_KEY,
+    iv: "F0F1F2F3F4F5F6F7",
+    plaintext: MODE_PLAINTEXT,
+    vectors: [
+      { mode: CipherMode.ECB, padding: CipherPadding.Zeros, ciphertext: "F1F701C3745799D83E0B7BD0BE9E190AD60FA8A1AE2C65A5210F1F68C02C64840D8593FADCB296E3" },
+      { mode: CipherMode.ECB, padding: CipherPadding.ANSIX923, ciphertext: "F1F701C3745799D83E0B7BD0BE9E190AD60FA8A1AE2C65A5210F1F68C02C6484919B32D5D5C86E6C" },
+      { mode: CipherMode.ECB, padding: CipherPadding.PKCS7, ciphertext: "F1F701C3745799D83E0B7BD0BE9E190AD60FA8A1AE2C65A5210F1F68C02C6484471A7DE6089A9CB0" },
+      { mode: CipherMode.ECB, padding: CipherPadding.ISO10126, ciphertext: "F1F701C3745799D83E0B7BD0BE9E190AD60FA8A1AE2C65A5210F1F68C02C64848BA9A8504A51BCA2" },
+      { mode: CipherMode.CBC, padding: CipherPadding.Zeros, ciphertext: "B444B99E2015C5E0E78F936C7324C2E150786898AE2AB09FBE6B1D52EC0CA896E67BA51E03A14FFE" },
+      { mode: CipherMode.CBC, padding: CipherPadding.ANSIX923, ciphertext: "B444B99E2015C5E0E78F936C7324C2E150786898AE2AB09FBE6B1D52EC0CA8968F514CFDF0010DFA" },
+      { mode: CipherMode.CBC, padding: CipherPadding.PKCS7, ciphertext: "B444B99E2015C5E0E78F936C7324C2E150786898AE2AB09FBE6B1D52EC0CA896F0B3AE2647E91E2E" },
+      { mode: CipherMode.CBC, padding: CipherPadding.ISO10126, ciphertext: "B444B99E2015C5E0E78F936C7324C2E150786898AE2AB09FBE6B1D52EC0CA896EA365F28D282D5C2" },
+      { mode: CipherMode.PCBC, padding: CipherPadding.Zeros, ciphertext: "B444B99E2015C5E0F67FF0F014E3F07D110CA0EA228726BF08595159A27A4F7DE8F2FF0232F1E782" },
+      { mode: CipherMode.PCBC, padding: CipherPadding.ANSIX923, ciphertext: "B444B99E2015C5E0F67FF0F014E3F07D110CA0EA228726BF08595159A27A4F7DC7D51A5BB7BC7CCD" },
+      { mode: CipherMode.PCBC, padding: CipherPadding.PKCS7, ciphertext: "B444B99E2015C5E0F67FF0F014E3F07D110CA0EA228726BF08595159A27A4F7D87F5C78552C4B50C" },
+      { mode: CipherMode.PCBC, padding: CipherPadding.ISO10126, ciphertext: "B444B99E2015C5E0F67FF0F014E3F07D110CA0EA228726BF08595159A27A4F7D14EA1D2F5F311FCF" },
+      { mode: CipherMode.CFB, padding: CipherPadding.Zeros, ciphertext: "472A73D04F515E4FCB6F0D9F5A4F3AE91714889981509FB60A38820076C1B7F96FDFED0F436D7EFF" },
+      { mode: CipherMode.CFB, padding: CipherPadding.ANSIX923, ciphertext: "472A73D04F515E4FCB6F0D9F5A4F3AE91714889981509FB60A38820076C1B7F96FDFED0F436D7EFC" },
+      { mode: CipherMode.CFB, padding: CipherPadding.PKCS7, ciphertext: "472A73D04F515E4FCB6F0D9F5A4F3AE91714889981509FB60A38820076C1B7F96FDFED0F436E7DFC" },
+      { mode: CipherMode.CFB, padding: CipherPadding.ISO10126, ciphertext: "472A73D04F515E4FCB6F0D9F5A4F3AE91714889981509FB60A38820076C1B7F96FDFED0F43C8DBFC" },
+      { mode: CipherMode.OFB, padding: CipherPadding.Zeros, ciphertext: "472A73D04F515E4F5896B38E761121413F1AD7A5CF1C5A2BA46B6F5F448E18DE38C587ABB9FF1579" },
+      { mode: CipherMode.OFB, padding: CipherPadding.ANSIX923, ciphertext: "472A73D04F515E4F5896B38E761121413F1AD7A5CF1C5A2BA46B6F5F448E18DE38C587ABB9FF157A" },
+      { mode: CipherMode.OFB, padding: CipherPadding.PKCS7, ciphertext: "472A73D04F515E4F5896B38E761121413F1AD7A5CF1C5A2BA46B6F5F448E18DE38C587ABB9FC167A" },
+      { mode: CipherMode.OFB, padding: CipherPadding.ISO10126, ciphertext: "472A73D04F515E4F5896B38E761121413F1AD7A5CF1C5A2BA46B6F5F448E18DE38C587ABB95AB07A" },
+      { mode: CipherMode.CTR, padding: CipherPadding.Zeros, ciphertext: "472A73D04F515E4F9D672269CDD7F76AA0E5CDD9AB46DCEC80496021A1E2E8AC1F8D9D0CB35DC013" },
+      { mode: CipherMode.CTR, padding: CipherPadding.ANSIX923, ciphertext: "472A73D04F515E4F9D672269CDD7F76AA0E5CDD9AB46DCEC80496021A1E2E8AC1F8D9D0CB35DC010" },
+      { mode: CipherMode.CTR, padding: CipherPadding.PKCS7, ciphertext: "472A73D04F515E4F9D672269CDD7F76AA0E5CDD9AB46DCEC80496021A1E2E8AC1F8D9D0CB35EC310" },
+      { mode: CipherMode.CTR, padding: CipherPadding.ISO10126, ciphertext: "472A73D04F515E4F9D672269CDD7F76AA0E5CDD9AB46DCEC80496021A1E2E8AC1F8D9D0CB3F86510" },
+      { mode: CipherMode.RANDOM_DELTA, padding: CipherPadding.Zeros, ciphertext: "B444B99E2015C5E024B9717D161C9C84DE9429482E49C1EE136F65A007652B2D49B7988D037AEBD7" },
+      { mode: CipherMode.RANDOM_DELTA, padding: CipherPadding.ANSIX923, ciphertext: "B444B99E2015C5E024B9717D161C9C84DE9429482E49C1EE136F65A007652B2DF89A860A42B6AD43" },
+      { mode: CipherMode.RANDOM_DELTA, padding: CipherPadding.PKCS7, ciphertext: "B444B99E2015C5E024B9717D161C9C84DE9429482E49C1EE136F65A007652B2DEEDCFBB2F30E7360" },
+      { mode: CipherMode.RANDOM_DELTA, padding: CipherPadding.ISO10126, ciphertext: "B444B99E2015C5E024B9717D161C9C84DE9429482E49C1EE136F65A007652B2DAD3CAAD4975E6611" },
+    ],
+  },
+}
+
+/**
+ * Контрольные векторы по алгоритмам.
+ * @type {Record<CipherAlgorithm, AlgorithmVectors>}
+ */
+export const KNOWN_ANSWER_VECTORS: Record<CipherAlgorithm, AlgorithmVectors> = {
+  [CipherAlgorithm.TwoFish]: TWOFISH_VECTORS,
+  [CipherAlgorithm.MacGuffin]: MACGUFFIN_REGRESSION_VECTORS,
+}
+
+/**
+ * Векторы шифрования блока AES из FIPS 197, приложение C.
+ * @type {BlockVector[]}
+ */
+export const AES_BLOCK_VECTORS: BlockVector[] = [
+  { key: "000102030405060708090A0B0C0D0E0F", plaintext: "00112233445566778899AABBCCDDEEFF", ciphertext: "69C4E0D86A7B0430D8CDB78070B4C55A" },
+  { key: "000102030405060708090A0B0C0D0E0F1011121314151617", plaintext: "00112233445566778899AABBCCDDEEFF", ciphertext: "DDA97CA4864CDFE06EAF70A0EC0D7191" },
+  { key: "000102030405060708090A0B0C0D0E0F101112131415161718191A1B1C1D1E1F", plaintext: "00112233445566778899AABBCCDDEEFF", ciphertext: "8EA2B7CA516745BFEAFC49904B496089" },
+]
+
+/**
+ * Шифрование сообщения в режиме без набивки.
+ * @property {CipherMode} mode - Режим.
+ * @property {string | null} iv - IV (для CTR - начальный блок счетчика), для ECB - null.
+ * @property {string} ciphertext - Ожидаемый шифротекст.
+ */
+export interface BlockModeVector {
+  mode: CipherMode
+  iv: string | null
+  ciphertext: string
+}
+
+/**
+ * Векторы режимов AES-128 из NIST SP 800-38A (приложение F: F.1.1, F.2.1, F.3.13, F.4.1, F.5.1).
+ * Счетчик CTR занимает весь блок.
+ * @type {{ key: string, plaintext: string, vectors: BlockModeVector[] }}
+ */
+export const AES_MODE_VECTORS: { key: string, plaintext: string, vectors: BlockModeVector[] } = {
+  key: "2B7E151628AED2A6ABF7158809CF4F3C",
+  plaintext: "6BC1BEE22E409F96E93D7E117393172AAE2D8A571E03AC9C9EB76FAC45AF8E5130C81C46A35CE411E5FBC1191A0A52EFF69F2445DF4F9B17AD2B417BE66C3710",
+  vectors: [
+    { mode: CipherMode.ECB, iv: null, ciphertext: "3AD77BB40D7A3660A89ECAF32466EF97F5D3D58503B9699DE785895A96FDBAAF43B1CD7F598ECE23881B00E3ED0306887B0C785E27E8AD3F8223207104725DD4" },
+    { mode: CipherMode.CBC, iv: "000102030405060708090A0B0C0D0E0F", ciphertext: "7649ABAC8119B246CEE98E9B12E9197D5086CB9B507219EE95DB113A917678B273BED6B8E3C1743B7116E69E222295163FF1CAA1681FAC09120ECA307586E1A7" },
+    { mode: CipherMode.CFB, iv: "000102030405060708090A0B0C0D0E0F", ciphertext: "3B3FD92EB72DAD20333449F8E83CFB4AC8A64537A0B3A93FCDE3CDAD9F1CE58B26751F67A3CBB140B1808CF187A4F4DFC04B05357C5D1C0EEAC4C66F9FF7F2E6" },
+    { mode: CipherMode.OFB, iv: "000102030405060708090A0B0C0D0E0F", ciphertext: "3B3FD92EB72DAD20333449F8E83CFB4A7789508D16918F03F53C52DAC54ED8259740051E9C5FECF64344F7A82260EDCC304C6528F659C77866A510D9C1D6AE5E" },
+    { mode: CipherMode.CTR, iv: "F0F1F2F3F4F5F6F7F8F9FAFBFCFDFEFF", ciphertext: "874D6191B620E3261BEF6864990DB6CE9806F66B7970FDFF8617187BB9FFFDFF5AE4DF3EDBD5D35E5B4F09020DB03EAB1E031DDA2FBE03D1792170A0F3009CEE" },
+  ],
+}
+
+/**
+ * Подключи CMAC: зашифрованный нулевой блок L и ожидаемые K1, K2.
+ * @property {string} l - L = E_K(0^n).
+ * @property {string} k1 - Подключ для полного последнего блока.
+ * @property {string} k2 - Подключ для дополненного последнего блока.
+ */
+export interface CmacSubkeyVector {
+  l: string
+  k1: string
+  k2: string
+}
+
+/**
+ * Тег CMAC сообщения.
+ * @property {string} message - Сообщение.
+ * @property {string} tag - Ожидаемый тег.
+ */
+export interface CmacTagVector {
+  message: string
+  tag: string
+}
+
+/**
+ * Векторы CMAC.
+ */
+export interface CmacVectors {
+  subkeys: CmacSubkeyVector[]
+  key: string
+  tags: CmacTagVector[]
+}
+
+/**
+ * Сообщение примеров RFC 4493 (64 байта); векторы используют его префиксы.
+ * @type {string}
+ */
+const CMAC_MESSAGE =
+  "6BC1BEE22E409F96E93D7E117393172AAE2D8A571E03AC9C9EB76FAC45AF8E51"
+  + "30C81C46A35CE411E5FBC1191A0A52EFF69F2445DF4F9B17AD2B417BE66C3710"
+
+/**
+ * Векторы CMAC: подключи AES-128 и теги из RFC 4493, подключи TDEA (64-битный блок, R_b = 0x1B)
+ * из примеров NIST SP 800-38B.
+ * @type {CmacVectors}
+ */
+export const CMAC_VECTORS: CmacVectors = {
+  subkeys: [
+    { l: "7DF76B0C1AB899B33E42F047B91B546F", k1: "FBEED618357133667C85E08F7236A8DE", k2: "F7DDAC306AE266CCF90BC11EE46D513B" },
+    { l: "C8CC74E98A7329A2", k1: "9198E9D314E6535F", k2: "2331D3A629CCA6A5" },
+  ],
+  key: "2B7E151628AED2A6ABF7158809CF4F3C",
+  tags: [
+    { message: "", tag: "BB1D6929E95937287FA37D129B756746" },
+    { message: CMAC_MESSAGE.slice(0, 32), tag: "070A16B46B4D4144F79BDD9DD04A287C" },
+    { message: CMAC_MESSAGE.slice(0, 80), tag: "DFA66747DE9AE63030CA32611497C827" },
+    { message: CMAC_MESSAGE, tag: "51F0BEBF7E3B9D92FC49741779363CFE" },
+  ],
+}
+
+/**
+ * Значение GHASH_H(A, C).
+ * @property {string} h - Хеш-подключ H.
+ * @property {string} aad - Дополнительные аутентифицируемые данные A.
+ * @property {string} ciphertext - Шифротекст C.
+ * @property {string} hash - Ожидаемый результат.
+ */
+export interface GhashVector {
+  h: string
+  aad: string
+  ciphertext: string
+  hash: string
+}
+
+/**
+ * Аутентифицированное шифрование GCM.
+ * @property {string} key - Ключ AES.
+ * @property {string} iv - Вектор инициализации.
+ * @property {string} plaintext - Открытый текст.
+ * @property {string} aad - Дополнительные аутентифицируемые данные.
+ * @property {string} ciphertext - Ожидаемый шифротекст.
+ * @property {string} tag - Ожидаемый 128-битный тег.
+ */
+export interface GcmVector {
+  key: string
+  iv: string
+  plaintext: string
+  aad: string
+  ciphertext: string
+  tag: string
+}
+
+/**
+ * Открытый текст тестовых примеров GCM 3-6; в примерах 4-6 используется его префикс в 60 байт.
+ * @type {string}
+ */
+const GCM_PLAINTEXT =
+  "D9313225F88406E5A55909C5AFF5269A86A7A9531534F7DA2E4C303D8A318A72"
+  + "1C3C0C95956809532FCF0E2449A6B525B16AEDF5AA0DE657BA637B391AAFD255"
+
+/**
+ * Дополнительные данные тестовых примеров GCM 4-6.
+ * @type {string}
+ */
+const GCM_AAD = "FEEDFACEDEADBEEFFEEDFACEDEADBEEFABADDAD2"
+
+/**
+ * Векторы GHASH из тестовых примеров 2-4 спецификации GCM (McGrew, Viega),
+ * на которые ссылается NIST SP 800-38D.
+ * @type {GhashVector[]}
+ */
+export const GHASH_VECTORS: GhashVector[] = [
+  {
+    h: "66E94BD4EF8A2C3B884CFA59CA342B2E",
+    aad: "",
+    ciphertext: "0388DACE60B6A392F328C2B971B2FE78",
+    hash: "F38CBB1AD69223DCC3457AE5B6B0F885",
+  },
+  {
+    h: "B83B533708BF535D0AA6E52980D53B78",
+    aad: "",
+    ciphertext: "42831EC2217774244B7221B784D0D49CE3AA212F2C02A4E035C17E2329ACA12E"
+      + "21D514B25466931C7D8F6A5AAC84AA051BA30B396A0AAC973D58E091473F5985",
+    hash: "7F1B32B81B820D02614F8895AC1D4EAC",
+  },
+  {
+    h: "B83B533708BF535D0AA6E52980D53B78",
+    aad: GCM_AAD,
+    ciphertext: "42831EC2217774244B7221B784D0D49CE3AA212F2C02A4E035C17E2329ACA12E"
+      + "21D514B25466931C7D8F6A5AAC84AA051BA30B396A0AAC973D58E091",
+    hash: "698E57F70E6ECC7FD9463B7260A9AE5F",
+  },
+]
+
+/**
+ * Векторы AES-128-GCM из тестовых примеров 1-6 спецификации GCM (McGrew, Viega).
+ * Примеры 5 и 6 используют IV длиной 8 и 60 байт, то есть J0 через GHASH.
+ * @type {GcmVector[]}
+ */
+export const GCM_VECTORS: GcmVector[] = [
+  {
+    key: "00000000000000000000000000000000",
+    iv: "000000000000000000000000",
+    plaintext: "",
+    aad: "",
+    ciphertext: "",
+    tag: "58E2FCCEFA7E3061367F1D57A4E7455A",
+  },
+  {
+    key: "00000000000000000000000000000000",
+    iv: "000000000000000000000000",
+    plaintext: "00000000000000000000000000000000",
+    aad: "",
+    ciphertext: "0388DACE60B6A392F328C2B971B2FE78",
+    tag: "AB6E47D42CEC13BDF53A67B21257BDDF",
+  },
+  {
+    key: "FEFFE9928665731C6D6A8F9467308308",
+    iv: "CAFEBABEFACEDBADDECAF888",
+    plaintext: GCM_PLAINTEXT,
+    aad: "",
+    ciphertext: "42831EC2217774244B7221B784D0D49CE3AA212F2C02A4E035C17E2329ACA12E"
+      + "21D514B25466931C7D8F6A5AAC84AA051BA30B396A0AAC973D58E091473F5985",
+    tag: "4D5C2AF327CD64A62CF35ABD2BA6FAB4",
+  },
+  {
+    key: "FEFFE9928665731C6D6A8F9467308308",
+    iv: "CAFEBABEFACEDBADDECAF888",
+    plaintext: GCM_PLAINTEXT.slice(0, 120),
+    aad: GCM_AAD,
+    ciphertext: "42831EC2217774244B7221B784D0D49CE3AA212F2C02A4E035C17E2329ACA12E"
+      + "21D514B25466931C7D8F6A5AAC84AA051BA30B396A0AAC973D58E091",
+    tag: "5BC94FBC3221A5DB94FAE95AE7121A47",
+  },
+  {
+    key: "FEFFE9928665731C6D6A8F9467308308",
+    iv: "CAFEBABEFACEDBAD",
+    plaintext: GCM_PLAINTEXT.slice(0, 120),
+    aad: GCM_AAD,
+    ciphertext: "61353B4C2806934A777FF51FA22A4755699B2A714FCDC6F83766E5F97B6C7423"
+      + "73806900E49F24B22B097544D4896B424989B5E1EBAC0F07C23F4598",
+    tag: "3612D2E79E3B0785561BE14AACA2FCCB",
+  },
+  {
+    key: "FEFFE9928665731C6D6A8F9467308308",
+    iv: "9313225DF88406E555909C5AFF5269AA6A7A9538534F7DA1E4C303D2A318A728"
+      + "C3C0C95156809539FCF0E2429A6B525416AEDBF5A0DE6A57A637B39B",
+    plaintext: GCM_PLAINTEXT.slice(0, 120),
+    aad: GCM_AAD,
+    ciphertext: "8CE24998625615B603A033ACA13FB894BE9112A5C3A211A8BA262A3CCA7E2CA7"
+      + "01E4A9A4FBA43C90CCDCB281D48C7C6FD62875D2ACA417034C34AEE5",
+    tag: "619CC5AEFFFE0BFA462AF43C1699D050",
+  },
+]
+
+/**
+ * Вывод ключа PBKDF2-HMAC-SHA-256.
+ * @property {string} password - Пароль (строка UTF-8).
+ * @property {string} salt - Соль (строка UTF-8).
+ * @property {number} iterations - Количество итераций.
+ * @property {string} derived - Ожидаемый ключ (64 байта).
+ */
+export interface Pbkdf2Vector {
+  password: string
+  salt: string
+  iterations: number
+  derived: string
+}
+
+/**
+ * Векторы PBKDF2-HMAC-SHA-256 из RFC 7914 (раздел 11).
+ * @type {Pbkdf2Vector[]}
+ */
+export const PBKDF2_VECTORS: Pbkdf2Vector[] = [
+  {
+    password: "passwd",
+    salt: "salt",
+    iterations: 1,
+    derived: "55AC046E56E3089FEC1691C22544B605F94185216DDE0465E68B9D57C20DACBC"
+      + "49CA9CCCF179B645991664B39D77EF317C71B845B1E30BD509112041D3A19783",
+  },
+  {
+    password: "Password",
+    salt: "NaCl",
+    iterations: 80000,
+    derived: "4DDCD8F60B98BE21830CEE5EF22701F9641A4418D04C0414AEFF08876B34AB56"
+      + "A1D425A1225833549ADB841B51C9B3176A272BDEBBA1D078478F62B397F33C8D",
+  },
+]
+
+/**
+ * Обертывание ключа.
+ * @property {string} kek - Ключ шифрования ключей (AES).
+ * @property {string} key - Обертываемый ключ.
+ * @property {string} wrapped - Ожидаемый результат.
+ * @property {boolean} padded - true - RFC 5649 (с набивкой), false - RFC 3394.
+ */
+export interface KeyWrapVector {
+  kek: string
+  key: string
+  wrapped: string
+  padded: boolean
+}
+
+/**
+ * Векторы обертывания ключей из RFC 3394 (раздел 4) и RFC 5649 (раздел 6).
+ * @type {KeyWrapVector[]}
+ */
+export const KEY_WRAP_VECTORS: KeyWrapVector[] = [
+  {
+    kek: "000102030405060708090A0B0C0D0E0F",
+    key: "00112233445566778899AABBCCDDEEFF",
+    wrapped: "1FA68B0A8112B447AEF34BD8FB5A7B829D3E862371D2CFE5",
+    padded: false,
+  },
+  {
+    kek: "000102030405060708090A0B0C0D0E0F1011121314151617",
+    key: "00112233445566778899AABBCCDDEEFF",
+    wrapped: "96778B25AE6CA435F92B5B97C050AED2468AB8A17AD84E5D",
+    padded: false,
+  },
+  {
+    kek: "000102030405060708090A0B0C0D0E0F101112131415161718191A1B1C1D1E1F",
+    key: "00112233445566778899AABBCCDDEEFF",
+    wrapped: "64E8C3F9CE0F5BA263E9777905818A2A93C8191E7D6E8AE7",
+    padded: false,
+  },
+  {
+    kek: "000102030405060708090A0B0C0D0E0F1011121314151617",
+    key: "00112233445566778899AABBCCDDEEFF0001020304050607",
+    wrapped: "031D33264E15D33268F24EC260743EDCE1C6C7DDEE725A936BA814915C6762D2",
+    padded: false,
+  },
+  {
+    kek: "000102030405060708090A0B0C0D0E0F101112131415161718191A1B1C1D1E1F",
+    key: "00112233445566778899AABBCCDDEEFF0001020304050607",
+    wrapped: "A8F9BC1612C68B3FF6E6F4FBE30E71E4769C8B80A32CB8958CD5D17D6B254DA1",
+    padded: false,
+  },
+  {
+    kek: "000102030405060708090A0B0C0D0E0F101112131415161718191A1B1C1D1E1F",
+    key: "00112233445566778899AABBCCDDEEFF000102030405060708090A0B0C0D0E0F",
+    wrapped: "28C9F404C4B810F4CBCCB35CFB87F8263F5786E2D80ED326CBC7F0E71A99F43BFB988B9B7A02DD21",
+    padded: false,
+  },
+  {
+    kek: "5840DF6E29B02AF1AB493B705BF16EA1AE8338F4DCC176A8",
+    key: "C37B7E6492584340BED12207808941155068F738",
+    wrapped: "138BDEAA9B8FA7FC61F97742E72248EE5AE6AE5360D1AE6A5F54F373FA543B6A",
+    padded: true,
+  },
+  {
+    kek: "5840DF6E29B02AF1AB493B705BF16EA1AE8338F4DCC176A8",
+    key: "466F7250617369",
+    wrapped: "AFBEB0F07DFBF5419200F2CCB50BB24F",
+    padded: true,
+  },
+]
+
+/**
+ * Умножение точки X25519 на скаляр.
+ * @property {string} scalar - Скаляр k.
+ * @property {string} u - Координата u.
+ * @property {string} output - Ожидаемая координата u результата.
+ */
+export interface X25519Vector {
+  scalar: string
+  u: string
+  output: string
+}
+
+/**
+ * Итерации X25519 из RFC 7748: k = u = 9, затем (k, u) <- (X25519(k, u), k).
+ * @property {number} iterations - Количество итераций.
+ * @property {string} output - Ожидаемое значение k.
+ */
+export interface X25519IterationVector {
+  iterations: number
+  output: string
+}
+
+/**
+ * Обмен ключами X25519 (Диффи-Хеллман) между Алисой и Бобом.
+ */
+export interface X25519ExchangeVector {
+  alicePrivate: string
+  alicePublic: string
+  bobPrivate: string
+  bobPublic: string
+  shared: string
+}
+
+/**
+ * Векторы X25519.
+ */
+export interface X25519Vectors {
+  scalarMult: X25519Vector[]
+  iterations: X25519IterationVector[]
+  exchange: X25519ExchangeVector
+}
+
+/**
+ * Векторы X25519 из RFC 7748. Итерация на 1 000 000 шагов из раздела 5.2 не включена: слишком долго.
+ * @type {X25519Vectors}
+ */
+export const X25519_VECTORS: X25519Vectors = {
+  scalarMult: [
+    {
+      scalar: "A546E36BF0527C9D3B16154B82465EDD62144C0AC1FC5A18506A2244BA449AC4",
+      u: "E6DB6867583030DB3594C1A424B15F7C726624EC26B3353B10A903A6D0AB1C4C",
+      output: "C3DA55379DE9C6908E94EA4DF28D084F32ECCF03491C71F754B4075577A28552",
+    },
+    {
+      scalar: "4B66E9D4D1B4673C5AD22691957D6AF5C11B6421E0EA01D42CA4169E7918BA0D",
+      u: "E5210F12786811D3F4B7959D0538AE2C31DBE7106FC03C3EFC4CD549C715A493",
+      output: "95CBDE9476E8907D7AADE45CB4B873F88B595A68799FA152E6F8F7647AAC7957",
+    },
+  ],
+  iterations: [
+    { iterations: 1, output: "422C8E7A6227D7BCA1350B3E2BB7279F7897B87BB6854B783C60E80311AE3079" },
+    { iterations: 1000, output: "684CF59BA83309552800EF566F2F4D3C1C3887C49360E3875F2EB94D99532C51" },
+  ],
+  exchange: {
+    alicePrivate: "77076D0A7318A57D3C16C17251B26645DF4C2F87EBC0992AB177FBA51DB92C2A",
+    alicePublic: "8520F0098930A754748B7DDCB43EF75A0DBF3A0D26381AF4EBA4A98EAA9B4E6A",
+    bobPrivate: "5DAB087E624A8A4B79E17F8B83800EE66F3BB1292618B6FD1C2F8B27FF88E0EB",
+    bobPublic: "DE9EDB7D7B7DC1B4D35B61C2ECE435373F8343C85B78674DADFC7E146F882B4F",
+    shared: "4A5D9D5BA4CE2DE1728E3BF480350F25E07E21C947D19E3376F09B3C1E161742",
+  },
+}
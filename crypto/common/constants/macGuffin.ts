@@ -1,148 +1,155 @@
-/**
- * Размер блока macGuffin в байтах (64 бита).
- * @type {number}
- */
-export const BLOCK_SIZE_BYTES = 8
-
-/**
- * Размер половины блока macGuffin в байтах (32 бита).
- * @type {number}
- */
-export const HALF_BLOCK_SIZE_BYTES = BLOCK_SIZE_BYTES / 2
-
-/**
- * Количество раундов в macGuffin.
- * @type {number}
- */
-export const NUM_ROUNDS = 32
-
-export const KSIZE = NUM_ROUNDS * 3;
-
-/**
- * Размер мастер-ключа macGuffin в байтах (часто 128 бита).
- * @type {number}
- */
-export const MASTER_KEY_SIZE_BYTES = [ 16 ]
-
-/**
- * Размер раундового ключа для F-функции macGuffin в байтах (обычно 48 бита).
- * @type {number}
- */
-export const ROUND_KEY_SIZE_BYTES = 6
-
-export const TSIZE = 1 << 16;
-
-// S-Box'ы для F-функции macGuffin
-// Эти S-box'ы - примеры, обычно они 4x16 или 8x8.
-// Здесь представлены 4 S-box'а 16x16, каждый из которых преобразует 4 бита в 4 бита.
-// Индексы в C++ `const std::array<uint8_t, 16>` означают, что это 4-битное преобразование.
-// Предположим, что это S-box'ы для 4-битных входов (0-15) и 4-битных выходов.
-export const S_BOX: Uint16Array<any>[] = [
-  // S1
-  new Uint16Array([
-    0x0002, 0x0000, 0x0000, 0x0003, 0x0003, 0x0001, 0x0001, 0x0000,
-    0x0000, 0x0002, 0x0003, 0x0000, 0x0003, 0x0003, 0x0002, 0x0001,
-    0x0001, 0x0002, 0x0002, 0x0000, 0x0000, 0x0002, 0x0002, 0x0003,
-    0x0001, 0x0003, 0x0003, 0x0001, 0x0000, 0x0001, 0x0001, 0x0002,
-    0x0000, 0x0003, 0x0001, 0x0002, 0x0002, 0x0002, 0x0002, 0x0000,
-    0x0003, 0x0000, 0x0000, 0x0003, 0x0000, 0x0001, 0x0003, 0x0001,
-    0x0003, 0x0001, 0x0002, 0x0003, 0x0003, 0x0001, 0x0001, 0x0002,
-    0x0001, 0x0002, 0x0002, 0x0000, 0x0001, 0x0000, 0x0000, 0x0003
-  ]),
-  // S2
-  new Uint16Array([
-    0x000c, 0x0004, 0x0004, 0x000c, 0x0008, 0x0000, 0x0008, 0x0004,
-    0x0000, 0x000c, 0x000c, 0x0000, 0x0004, 0x0008, 0x0000, 0x0008,
-    0x000c, 0x0008, 0x0004, 0x0000, 0x0000, 0x0004, 0x000c, 0x0008,
-    0x0008, 0x0000, 0x0000, 0x000c, 0x0004, 0x000c, 0x0008, 0x0004,
-    0x0000, 0x000c, 0x0008, 0x0008, 0x0004, 0x0008, 0x000c, 0x0004,
-    0x0008, 0x0004, 0x0000, 0x000c, 0x000c, 0x0000, 0x0004, 0x0000,
-    0x0004, 0x000c, 0x0008, 0x0000, 0x0008, 0x0004, 0x0000, 0x0008,
-    0x000c, 0x0000, 0x0004, 0x0004, 0x0000, 0x0008, 0x000c, 0x000c
-  ]),
-  // S3
-  new Uint16Array([
-    0x0020, 0x0030, 0x0000, 0x0010, 0x0030, 0x0000, 0x0020, 0x0030,
-    0x0000, 0x0010, 0x0010, 0x0000, 0x0030, 0x0000, 0x0010, 0x0020,
-    0x0010, 0x0000, 0x0030, 0x0020, 0x0020, 0x0010, 0x0010, 0x0020,
-    0x0030, 0x0020, 0x0000, 0x0030, 0x0000, 0x0030, 0x0020, 0x0010,
-    0x0030, 0x0010, 0x0000, 0x0020, 0x0000, 0x0030, 0x0030, 0x0000,
-    0x0020, 0x0000, 0x0030, 0x0030, 0x0010, 0x0020, 0x0000, 0x0010,
-    0x0030, 0x0000, 0x0010, 0x0030, 0x0000, 0x0020, 0x0020, 0x0010,
-    0x0010, 0x0030, 0x0020, 0x0010, 0x0020, 0x0000, 0x0010, 0x0020]),
-  // S4
-  new Uint16Array([
-    0x0040, 0x00c0, 0x00c0, 0x0080, 0x0080, 0x00c0, 0x0040, 0x0040,
-    0x0000, 0x0000, 0x0000, 0x00c0, 0x00c0, 0x0000, 0x0080, 0x0040,
-    0x0040, 0x0000, 0x0000, 0x0040, 0x0080, 0x0000, 0x0040, 0x0080,
-    0x00c0, 0x0040, 0x0080, 0x0080, 0x0000, 0x0080, 0x00c0, 0x00c0,
-    0x0080, 0x0040, 0x0000, 0x00c0, 0x00c0, 0x0000, 0x0000, 0x0000,
-    0x0080, 0x0080, 0x00c0, 0x0040, 0x0040, 0x00c0, 0x00c0, 0x0080,
-    0x00c0, 0x00c0, 0x0040, 0x0000, 0x0040, 0x0040, 0x0080, 0x00c0,
-    0x0040, 0x0080, 0x0000, 0x0040, 0x0080, 0x0000, 0x0000, 0x0080]),
-  // S5
-  new Uint16Array([
-    0x0000, 0x0200, 0x0200, 0x0300, 0x0000, 0x0000, 0x0100, 0x0200,
-    0x0100, 0x0000, 0x0200, 0x0100, 0x0300, 0x0300, 0x0000, 0x0100,
-    0x0200, 0x0100, 0x0100, 0x0000, 0x0100, 0x0300, 0x0300, 0x0200,
-    0x0300, 0x0100, 0x0000, 0x0300, 0x0200, 0x0200, 0x0300, 0x0000,
-    0x0000, 0x0300, 0x0000, 0x0200, 0x0100, 0x0200, 0x0300, 0x0100,
-    0x0200, 0x0100, 0x0300, 0x0200, 0x0100, 0x0000, 0x0200, 0x0300,
-    0x0300, 0x0000, 0x0300, 0x0300, 0x0200, 0x0000, 0x0100, 0x0300,
-    0x0000, 0x0200, 0x0100, 0x0000, 0x0000, 0x0100, 0x0200, 0x0100]),
-  // S6
-  new Uint16Array([
-    0x0800, 0x0800, 0x0400, 0x0c00, 0x0800, 0x0000, 0x0c00, 0x0000,
-    0x0c00, 0x0400, 0x0000, 0x0800, 0x0000, 0x0000, 0x0800, 0x0400,
-    0x0000, 0x0c00, 0x0c00, 0x0400, 0x0400, 0x0c00, 0x0000, 0x0800,
-    0x0800, 0x0000, 0x0400, 0x0c00, 0x0400, 0x0400, 0x0c00, 0x0800,
-    0x0c00, 0x0000, 0x0800, 0x0400, 0x0c00, 0x0000, 0x0400, 0x0800,
-    0x0000, 0x0c00, 0x0800, 0x0400, 0x0800, 0x0c00, 0x0400, 0x0800,
-    0x0400, 0x0c00, 0x0000, 0x0800, 0x0000, 0x0400, 0x0800, 0x0400,
-    0x0400, 0x0000, 0x0c00, 0x0000, 0x0c00, 0x0800, 0x0000, 0x0c00]),
-  // S7
-  new Uint16Array([
-    0x0000, 0x3000, 0x3000, 0x0000, 0x0000, 0x3000, 0x2000, 0x1000,
-    0x3000, 0x0000, 0x0000, 0x3000, 0x2000, 0x1000, 0x3000, 0x2000,
-    0x1000, 0x2000, 0x2000, 0x1000, 0x3000, 0x1000, 0x1000, 0x2000,
-    0x1000, 0x0000, 0x2000, 0x3000, 0x0000, 0x2000, 0x1000, 0x0000,
-    0x1000, 0x0000, 0x0000, 0x3000, 0x3000, 0x3000, 0x3000, 0x2000,
-    0x2000, 0x1000, 0x1000, 0x0000, 0x1000, 0x2000, 0x2000, 0x1000,
-    0x2000, 0x3000, 0x3000, 0x1000, 0x0000, 0x0000, 0x2000, 0x3000,
-    0x0000, 0x2000, 0x1000, 0x0000, 0x3000, 0x1000, 0x0000, 0x2000]),
-  // S8
-  new Uint16Array([
-    0xc000, 0x4000, 0x0000, 0xc000, 0x8000, 0xc000, 0x0000, 0x8000,
-    0x0000, 0x8000, 0xc000, 0x4000, 0xc000, 0x4000, 0x4000, 0x0000,
-    0x8000, 0x8000, 0xc000, 0x4000, 0x4000, 0x0000, 0x8000, 0xc000,
-    0x4000, 0x0000, 0x0000, 0x8000, 0x8000, 0xc000, 0x4000, 0x0000,
-    0x4000, 0x0000, 0xc000, 0x4000, 0x0000, 0x8000, 0x4000, 0x4000,
-    0xc000, 0x0000, 0x8000, 0x8000, 0x8000, 0x8000, 0x0000, 0xc000,
-    0x0000, 0xc000, 0x0000, 0x8000, 0x8000, 0xc000, 0xc000, 0x0000,
-    0xc000, 0x4000, 0x4000, 0x4000, 0x4000, 0x0000, 0x8000, 0xc000])
-];
-
-export const LOOKUP_MASKS = [
-  // s1+s2
-  new Uint16Array([0x0036, 0x06c0, 0x6900]),
-  // s3+s4
-  new Uint16Array([0x5048, 0x2106, 0x8411]),
-  // s5+s7
-  new Uint16Array([0x8601, 0x4828, 0x10c4]),
-  // s6+s8
-  new Uint16Array([0x2980, 0x9011, 0x022a]),
-];
-
-export const OUTPUT_MASKS = new Uint16Array([
-  0x000f, // s1+s2
-  0x00f0, // s3+s4
-  0x3300, // s5+s7
-  0xcc00, // s6+s8
-]);
-
-export const S_BITS: number[][] = [
-  [2,5,6,9,11,13], [1,4,7,10,8,14],
-  [3,6,8,13,0,15], [12,14,1,2,4,10],
-  [0,10,3,14,6,12], [7,8,12,15,1,5],
-  [9,15,5,11,2,7], [11,13,0,4,3,9]
+/**
+ * Размер блока macGuffin в байтах (64 бита).
+ * @type {number}
+ */
+export const BLOCK_SIZE_BYTES = 8
+
+/**
+ * Размер половины блока macGuffin в байтах (32 бита).
+ * @type {number}
+ */
+export const HALF_BLOCK_SIZE_BYTES = BLOCK_SIZE_BYTES / 2
+
+/**
+ * Количество раундов в macGuffin.
+ * @type {number}
+ */
+export const NUM_ROUNDS = 32
+
+export const KSIZE = NUM_ROUNDS * 3;
+
+/**
+ * Размер мастер-ключа macGuffin в байтах (часто 128 бита).
+ * @type {number}
+ */
+export const MASTER_KEY_SIZE_BYTES = [ 16 ]
+
+/**
+ * Размер раундового ключа для F-функции macGuffin в байтах (обычно 48 бита).
+ * @type {number}
+ */
+export const ROUND_KEY_SIZE_BYTES = 6
+
+export const TSIZE = 1 << 16;
+
+/**
+ * SHA-256 таблицы S-боксов (TSIZE 16-битных слов в порядке little-endian),
+ * с которым сверяется таблица при загрузке, если включена проверка.
+ * @type {string}
+ */
+export const S_TABLE_SHA256 = "b7343663550a7ce63c6673a60f7cdd821fae86703eab7737618a699de89fcd13";
+
+// S-Box'ы для F-функции macGuffin
+// Эти S-box'ы - примеры, обычно они 4x16 или 8x8.
+// Здесь представлены 4 S-box'а 16x16, каждый из которых преобразует 4 бита в 4 бита.
+// Индексы в C++ `const std::array<uint8_t, 16>` означают, что это 4-битное преобразование.
+// Предположим, что это S-box'ы для 4-битных входов (0-15) и 4-битных выходов.
+export const S_BOX: Uint16Array<any>[] = [
+  // S1
+  new Uint16Array([
+    0x0002, 0x0000, 0x0000, 0x0003, 0x0003, 0x0001, 0x0001, 0x0000,
+    0x0000, 0x0002, 0x0003, 0x0000, 0x0003, 0x0003, 0x0002, 0x0001,
+    0x0001, 0x0002, 0x0002, 0x0000, 0x0000, 0x0002, 0x0002, 0x0003,
+    0x0001, 0x0003, 0x0003, 0x0001, 0x0000, 0x0001, 0x0001, 0x0002,
+    0x0000, 0x0003, 0x0001, 0x0002, 0x0002, 0x0002, 0x0002, 0x0000,
+    0x0003, 0x0000, 0x0000, 0x0003, 0x0000, 0x0001, 0x0003, 0x0001,
+    0x0003, 0x0001, 0x0002, 0x0003, 0x0003, 0x0001, 0x0001, 0x0002,
+    0x0001, 0x0002, 0x0002, 0x0000, 0x0001, 0x0000, 0x0000, 0x0003
+  ]),
+  // S2
+  new Uint16Array([
+    0x000c, 0x0004, 0x0004, 0x000c, 0x0008, 0x0000, 0x0008, 0x0004,
+    0x0000, 0x000c, 0x000c, 0x0000, 0x0004, 0x0008, 0x0000, 0x0008,
+    0x000c, 0x0008, 0x0004, 0x0000, 0x0000, 0x0004, 0x000c, 0x0008,
+    0x0008, 0x0000, 0x0000, 0x000c, 0x0004, 0x000c, 0x0008, 0x0004,
+    0x0000, 0x000c, 0x0008, 0x0008, 0x0004, 0x0008, 0x000c, 0x0004,
+    0x0008, 0x0004, 0x0000, 0x000c, 0x000c, 0x0000, 0x0004, 0x0000,
+    0x0004, 0x000c, 0x0008, 0x0000, 0x0008, 0x0004, 0x0000, 0x0008,
+    0x000c, 0x0000, 0x0004, 0x0004, 0x0000, 0x0008, 0x000c, 0x000c
+  ]),
+  // S3
+  new Uint16Array([
+    0x0020, 0x0030, 0x0000, 0x0010, 0x0030, 0x0000, 0x0020, 0x0030,
+    0x0000, 0x0010, 0x0010, 0x0000, 0x0030, 0x0000, 0x0010, 0x0020,
+    0x0010, 0x0000, 0x0030, 0x0020, 0x0020, 0x0010, 0x0010, 0x0020,
+    0x0030, 0x0020, 0x0000, 0x0030, 0x0000, 0x0030, 0x0020, 0x0010,
+    0x0030, 0x0010, 0x0000, 0x0020, 0x0000, 0x0030, 0x0030, 0x0000,
+    0x0020, 0x0000, 0x0030, 0x0030, 0x0010, 0x0020, 0x0000, 0x0010,
+    0x0030, 0x0000, 0x0010, 0x0030, 0x0000, 0x0020, 0x0020, 0x0010,
+    0x0010, 0x0030, 0x0020, 0x0010, 0x0020, 0x0000, 0x0010, 0x0020]),
+  // S4
+  new Uint16Array([
+    0x0040, 0x00c0, 0x00c0, 0x0080, 0x0080, 0x00c0, 0x0040, 0x0040,
+    0x0000, 0x0000, 0x0000, 0x00c0, 0x00c0, 0x0000, 0x0080, 0x0040,
+    0x0040, 0x0000, 0x0000, 0x0040, 0x0080, 0x0000, 0x0040, 0x0080,
+    0x00c0, 0x0040, 0x0080, 0x0080, 0x0000, 0x0080, 0x00c0, 0x00c0,
+    0x0080, 0x0040, 0x0000, 0x00c0, 0x00c0, 0x0000, 0x0000, 0x0000,
+    0x0080, 0x0080, 0x00c0, 0x0040, 0x0040, 0x00c0, 0x00c0, 0x0080,
+    0x00c0, 0x00c0, 0x0040, 0x0000, 0x0040, 0x0040, 0x0080, 0x00c0,
+    0x0040, 0x0080, 0x0000, 0x0040, 0x0080, 0x0000, 0x0000, 0x0080]),
+  // S5
+  new Uint16Array([
+    0x0000, 0x0200, 0x0200, 0x0300, 0x0000, 0x0000, 0x0100, 0x0200,
+    0x0100, 0x0000, 0x0200, 0x0100, 0x0300, 0x0300, 0x0000, 0x0100,
+    0x0200, 0x0100, 0x0100, 0x0000, 0x0100, 0x0300, 0x0300, 0x0200,
+    0x0300, 0x0100, 0x0000, 0x0300, 0x0200, 0x0200, 0x0300, 0x0000,
+    0x0000, 0x0300, 0x0000, 0x0200, 0x0100, 0x0200, 0x0300, 0x0100,
+    0x0200, 0x0100, 0x0300, 0x0200, 0x0100, 0x0000, 0x0200, 0x0300,
+    0x0300, 0x0000, 0x0300, 0x0300, 0x0200, 0x0000, 0x0100, 0x0300,
+    0x0000, 0x0200, 0x0100, 0x0000, 0x0000, 0x0100, 0x0200, 0x0100]),
+  // S6
+  new Uint16Array([
+    0x0800, 0x0800, 0x0400, 0x0c00, 0x0800, 0x0000, 0x0c00, 0x0000,
+    0x0c00, 0x0400, 0x0000, 0x0800, 0x0000, 0x0000, 0x0800, 0x0400,
+    0x0000, 0x0c00, 0x0c00, 0x0400, 0x0400, 0x0c00, 0x0000, 0x0800,
+    0x0800, 0x0000, 0x0400, 0x0c00, 0x0400, 0x0400, 0x0c00, 0x0800,
+    0x0c00, 0x0000, 0x0800, 0x0400, 0x0c00, 0x0000, 0x0400, 0x0800,
+    0x0000, 0x0c00, 0x0800, 0x0400, 0x0800, 0x0c00, 0x0400, 0x0800,
+    0x0400, 0x0c00, 0x0000, 0x0800, 0x0000, 0x0400, 0x0800, 0x0400,
+    0x0400, 0x0000, 0x0c00, 0x0000, 0x0c00, 0x0800, 0x0000, 0x0c00]),
+  // S7
+  new Uint16Array([
+    0x0000, 0x3000, 0x3000, 0x0000, 0x0000, 0x3000, 0x2000, 0x1000,
+    0x3000, 0x0000, 0x0000, 0x3000, 0x2000, 0x1000, 0x3000, 0x2000,
+    0x1000, 0x2000, 0x2000, 0x1000, 0x3000, 0x1000, 0x1000, 0x2000,
+    0x1000, 0x0000, 0x2000, 0x3000, 0x0000, 0x2000, 0x1000, 0x0000,
+    0x1000, 0x0000, 0x0000, 0x3000, 0x3000, 0x3000, 0x3000, 0x2000,
+    0x2000, 0x1000, 0x1000, 0x0000, 0x1000, 0x2000, 0x2000, 0x1000,
+    0x2000, 0x3000, 0x3000, 0x1000, 0x0000, 0x0000, 0x2000, 0x3000,
+    0x0000, 0x2000, 0x1000, 0x0000, 0x3000, 0x1000, 0x0000, 0x2000]),
+  // S8
+  new Uint16Array([
+    0xc000, 0x4000, 0x0000, 0xc000, 0x8000, 0xc000, 0x0000, 0x8000,
+    0x0000, 0x8000, 0xc000, 0x4000, 0xc000, 0x4000, 0x4000, 0x0000,
+    0x8000, 0x8000, 0xc000, 0x4000, 0x4000, 0x0000, 0x8000, 0xc000,
+    0x4000, 0x0000, 0x0000, 0x8000, 0x8000, 0xc000, 0x4000, 0x0000,
+    0x4000, 0x0000, 0xc000, 0x4000, 0x0000, 0x8000, 0x4000, 0x4000,
+    0xc000, 0x0000, 0x8000, 0x8000, 0x8000, 0x8000, 0x0000, 0xc000,
+    0x0000, 0xc000, 0x0000, 0x8000, 0x8000, 0xc000, 0xc000, 0x0000,
+    0xc000, 0x4000, 0x4000, 0x4000, 0x4000, 0x0000, 0x8000, 0xc000])
+];
+
+export const LOOKUP_MASKS = [
+  // s1+s2
+  new Uint16Array([0x0036, 0x06c0, 0x6900]),
+  // s3+s4
+  new Uint16Array([0x5048, 0x2106, 0x8411]),
+  // s5+s7
+  new Uint16Array([0x8601, 0x4828, 0x10c4]),
+  // s6+s8
+  new Uint16Array([0x2980, 0x9011, 0x022a]),
+];
+
+export const OUTPUT_MASKS = new Uint16Array([
+  0x000f, // s1+s2
+  0x00f0, // s3+s4
+  0x3300, // s5+s7
+  0xcc00, // s6+s8
+]);
+
+export const S_BITS: number[][] = [
+  [2,5,6,9,11,13], [1,4,7,10,8,14],
+  [3,6,8,13,0,15], [12,14,1,2,4,10],
+  [0,10,3,14,6,12], [7,8,12,15,1,5],
+  [9,15,5,11,2,7], [11,13,0,4,3,9]
 ]
\ No newline at end of file
@@ -0,0 +1,233 @@
+/**
+ * @file Самоописываемый контейнер зашифрованного файла.
+ * @fileoverview Заголовок содержит все, что нужно получателю для настройки контекста:
+ * алгоритм, режим, набивку, IV, параметры KDF, имя и MIME-тип исходного файла.
+ * За заголовком следует шифротекст, а за ним - CMAC от заголовка и шифротекста.
+ * CMAC вычисляется на ключе, выведенном из мастер-ключа через HKDF. Контейнеры версии 1
+ * (CMAC на ключе шифрования) не принимаются.
+ *
+ * Формат (все числа big-endian):
+ *   magic "CWEF" (4) | version (1) | headerLength (2) | algorithm (1) | macLength (1)
+ *   mode (1 + n) | padding (1 + n) | iv (1 + n)
+ *   kdf: 0 | 1, hash (1 + n), iterations (4), salt (1 + n)
+ *   fileName (2 + n, UTF-8) | mimeType (2 + n, UTF-8)
+ *   payload | mac (macLength)
+ */
+
+import { CipherAlgorithm, CipherPadding, ContainerKdfParams } from "@/modules/crypto/common/types"
+import { readBlobBytes } from "@/modules/crypto/common/platform"
+import { CipherMode } from "@/types/state";
+
+/**
+ * Сигнатура контейнера ("CWEF").
+ * @type {Uint8Array}
+ */
+export const CONTAINER_MAGIC = new Uint8Array([0x43, 0x57, 0x45, 0x46])
+
+/**
+ * Текущая версия формата контейнера.
+ * @type {number}
+ */
+export const CONTAINER_VERSION = 2
+
+/**
+ * Длина неизменяемого префикса заголовка: magic, version, headerLength.
+ * @type {number}
+ */
+export const CONTAINER_PREFIX_SIZE = CONTAINER_MAGIC.length + 3
+
+/**
+ * Заголовок зашифрованного контейнера.
+ */
+export type ContainerHeader = {
+  version: number;
+  algorithm: CipherAlgorithm;
+  mode: CipherMode;
+  padding: CipherPadding;
+  iv: Uint8Array<any> | null;
+  // Длина завершающего MAC в байтах.
+  macLength: number;
+  kdf?: ContainerKdfParams;
+  fileName: string;
+  mimeType: string;
+};
+
+/**
+ * Результат разбора заголовка.
+ */
+export type ParsedContainerHeader = {
+  header: ContainerHeader;
+  // Длина заголовка в байтах (смещение начала шифротекста).
+  headerLength: number;
+};
+
+/**
+ * Проверяет, начинаются ли данные с сигнатуры контейнера.
+ * @param {Uint8Array} bytes - Начало файла.
+ * @returns {boolean} true, если это контейнер.
+ */
+export function isContainer(bytes: Uint8Array<any>): boolean {
+  return bytes.length >= CONTAINER_MAGIC.length && CONTAINER_MAGIC.every((byte, i) => bytes[i] === byte)
+}
+
+/**
+ * Сериализует заголовок контейнера.
+ * @param {Omit<ContainerHeader, "version">} header - Поля заголовка.
+ * @returns {Uint8Array} Заголовок в двоичном виде.
+ * @throws {Error} Если какое-либо поле не помещается в отведенный размер.
+ */
+export function writeContainerHeader(header: Omit<ContainerHeader, "version">): Uint8Array<any> {
+  const encoder = new TextEncoder()
+  const fields: number[] = []
+
+  const pushUint = (value: number, size: number) => {
+    if (!Number.isInteger(value) || value < 0 || value >= 2 ** (8 * size)) {
+      throw new Error(`Значение ${value} не помещается в ${size} байт заголовка контейнера.`)
+    }
+    for (let i = size - 1; i >= 0; i--) {
+      fields.push(Math.floor(value / 2 ** (8 * i)) & 0xFF)
+    }
+  }
+  const pushBytes = (bytes: Uint8Array<any>, lengthSize: number) => {
+    pushUint(bytes.length, lengthSize)
+    fields.push(...bytes)
+  }
+
+  pushUint(header.algorithm, 1)
+  pushUint(header.macLength, 1)
+  pushBytes(encoder.encode(header.mode), 1)
+  pushBytes(encoder.encode(header.padding), 1)
+  pushBytes(header.iv ?? new Uint8Array(0), 1)
+
+  if (header.kdf) {
+    pushUint(1, 1)
+    pushBytes(encoder.encode(header.kdf.hash), 1)
+    pushUint(header.kdf.iterations, 4)
+    pushBytes(header.kdf.salt, 1)
+  } else {
+    pushUint(0, 1)
+  }
+
+  pushBytes(encoder.encode(header.fileName), 2)
+  pushBytes(encoder.encode(header.mimeType), 2)
+
+  const headerLength = CONTAINER_PREFIX_SIZE + fields.length
+  if (headerLength > 0xFFFF) {
+    throw new Error("Заголовок контейнера слишком велик.")
+  }
+
+  const result = new Uint8Array(headerLength)
+  result.set(CONTAINER_MAGIC, 0)
+  result[CONTAINER_MAGIC.length] = CONTAINER_VERSION
+  new DataView(result.buffer).setUint16(CONTAINER_MAGIC.length + 1, headerLength, false)
+  result.set(fields, CONTAINER_PREFIX_SIZE)
+
+  return result
+}
+
+/**
+ * Разбирает заголовок контейнера.
+ * @param {Uint8Array} bytes - Данные, начинающиеся с заголовка (допускаются лишние байты в конце).
+ * @returns {ParsedContainerHeader} Заголовок и его длина.
+ * @throws {Error} Если сигнатура, версия или поля заголовка некорректны.
+ */
+export function parseContainerHeader(bytes: Uint8Array<any>): ParsedContainerHeader {
+  if (!isContainer(bytes) || bytes.length < CONTAINER_PREFIX_SIZE) {
+    throw new Error("Данные не являются зашифрованным контейнером.")
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const version = bytes[CONTAINER_MAGIC.length]
+  if (version !== CONTAINER_VERSION) {
+    throw new Error(`Неподдерживаемая версия контейнера: ${version}.`)
+  }
+
+  const headerLength = view.getUint16(CONTAINER_MAGIC.length + 1, false)
+  if (headerLength > bytes.length) {
+    throw new Error("Заголовок контейнера обрезан.")
+  }
+
+  const decoder = new TextDecoder()
+  let offset = CONTAINER_PREFIX_SIZE
+
+  const readUint = (size: number): number => {
+    if (offset + size > headerLength) {
+      throw new Error("Заголовок контейнера обрезан.")
+    }
+    let value = 0
+    for (let i = 0; i < size; i++) {
+      value = value * 256 + bytes[offset++]
+    }
+    return value
+  }
+  const readBytes = (lengthSize: number): Uint8Array<any> => {
+    const length = readUint(lengthSize)
+    if (offset + length > headerLength) {
+      throw new Error("Заголовок контейнера обрезан.")
+    }
+    const result = bytes.slice(offset, offset + length)
+    offset += length
+    return result
+  }
+
+  const algorithm = readUint(1)
+  if (!(algorithm in CipherAlgorithm)) {
+    throw new Error(`Неизвестный алгоритм в контейнере: ${algorithm}.`)
+  }
+
+  const macLength = readUint(1)
+
+  const mode = decoder.decode(readBytes(1)) as CipherMode
+  if (!Object.values(CipherMode).includes(mode)) {
+    throw new Error(`Неизвестный режим шифрования в контейнере: ${mode}.`)
+  }
+
+  const padding = decoder.decode(readBytes(1)) as CipherPadding
+  if (!Object.values(CipherPadding).includes(padding)) {
+    throw new Error(`Неизвестный режим набивки в контейнере: ${padding}.`)
+  }
+
+  const iv = readBytes(1)
+
+  let kdf: ContainerKdfParams | undefined = undefined
+  if (readUint(1) === 1) {
+    const hash = decoder.decode(readBytes(1))
+    const iterations = readUint(4)
+    const salt = readBytes(1)
+    kdf = { hash, iterations, salt }
+  }
+
+  const fileName = decoder.decode(readBytes(2))
+  const mimeType = decoder.decode(readBytes(2))
+
+  return {
+    header: {
+      version,
+      algorithm,
+      mode,
+      padding,
+      iv: iv.length > 0 ? iv : null,
+      macLength,
+      kdf,
+      fileName,
+      mimeType,
+    },
+    headerLength,
+  }
+}
+
+/**
+ * Читает и разбирает заголовок контейнера из начала файла, не загружая файл целиком.
+ * Позволяет узнать параметры KDF до установки ключа.
+ * @param {Blob} inputFile - Файл контейнера.
+ * @returns {Promise<ParsedContainerHeader | null>} Заголовок или null, если файл не является контейнером.
+ */
+export async function readContainerHeader(inputFile: Blob): Promise<ParsedContainerHeader | null> {
+  const prefix = await readBlobBytes(inputFile, 0, CONTAINER_PREFIX_SIZE)
+  if (prefix.length < CONTAINER_PREFIX_SIZE || !isContainer(prefix)) {
+    return null
+  }
+
+  const headerLength = new DataView(prefix.buffer).getUint16(CONTAINER_MAGIC.length + 1, false)
+  return parseContainerHeader(await readBlobBytes(inputFile, 0, headerLength))
+}
@@ -0,0 +1,36 @@
+/**
+ * @file Типы ошибок криптографического модуля.
+ * @fileoverview Отдельные классы позволяют интерфейсу чата отличать
+ * сбои проверки подлинности и самотестирования от прочих ошибок шифрования.
+ */
+
+import { CipherAlgorithm } from "@/modules/crypto/common/types";
+
+/**
+ * Ошибка проверки подлинности: тег аутентификации не совпал,
+ * данные были изменены или использован неверный ключ.
+ * @augments Error
+ */
+export class AuthenticationError extends Error {
+  constructor(message: string = "Проверка подлинности не пройдена: данные повреждены или ключ неверен.") {
+    super(message);
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * Ошибка самотестирования при включении: шифр выдал неверный результат на контрольном векторе
+ * (например, в сборке повреждены таблицы S-боксов). Контексты такого алгоритма не создаются,
+ * чтобы чат не отправлял данные, которые невозможно расшифровать.
+ * @augments Error
+ */
+export class SelfTestError extends Error {
+  // Алгоритм, не прошедший самотестирование.
+  public readonly algorithm: CipherAlgorithm;
+
+  constructor(algorithm: CipherAlgorithm, message: string = `Самотестирование шифра ${CipherAlgorithm[algorithm]} не пройдено: шифрование этим алгоритмом отключено.`) {
+    super(message);
+    this.name = "SelfTestError";
+    this.algorithm = algorithm;
+  }
+}
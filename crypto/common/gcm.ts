@@ -0,0 +1,159 @@
+/**
+ * @file Реализация режима GCM поверх произвольного 128-битного блочного шифра.
+ * @fileoverview Шифрование в режиме счетчика (GCTR) и тег аутентификации GHASH
+ * по NIST SP 800-38D. При несовпадении тега расшифрованные данные не возвращаются.
+ */
+
+import { IBlockCipher } from "@/modules/crypto/common/interfaces/BlockCipher"
+import { MacGuffinKey } from "@/modules/crypto/common/types"
+
+import { GHASH_BLOCK_SIZE_BYTES, ghash } from "@/modules/crypto/common/ghash"
+import { AuthenticationError } from "@/modules/crypto/common/errors"
+import { constantTimeEqual, xorInto } from "@/modules/crypto/common/bits_operation"
+
+/**
+ * Результат шифрования GCM.
+ */
+export type GcmResult = {
+  ciphertext: Uint8Array<any>;
+  tag: Uint8Array<any>;
+};
+
+/**
+ * Класс, выполняющий шифрование и проверку тега GCM.
+ */
+export class Gcm {
+  // Блочный шифр.
+  private blockCipher_: IBlockCipher;
+
+  // Раундовые ключи блочного шифра.
+  private roundKeys_: MacGuffinKey | number[];
+
+  // Хеш-подключ H = E(K, 0^128).
+  private hashKey_: Uint8Array<any>;
+
+  // Длина тега в байтах.
+  private tagLength_: number;
+
+  /**
+   * Конструктор Gcm.
+   * @param {IBlockCipher} blockCipher - Блочный шифр с размером блока 128 бит.
+   * @param {MacGuffinKey | number[]} roundKeys - Раундовые ключи, сгенерированные IKeyExpansion.
+   * @param {number} tagLength - Длина тега аутентификации в байтах (12-16).
+   * @throws {Error} Если размер блока или длина тега некорректны.
+   */
+  constructor(blockCipher: IBlockCipher, roundKeys: MacGuffinKey | number[], tagLength: number = GHASH_BLOCK_SIZE_BYTES) {
+    if (blockCipher.getBlockSizeBytes() !== GHASH_BLOCK_SIZE_BYTES) {
+      throw new Error(`GCM требует блочный шифр с блоком ${GHASH_BLOCK_SIZE_BYTES} байт.`);
+    }
+    if (tagLength < 12 || tagLength > GHASH_BLOCK_SIZE_BYTES) {
+      throw new Error(`Длина тега GCM должна быть от 12 до ${GHASH_BLOCK_SIZE_BYTES} байт.`);
+    }
+
+    this.blockCipher_ = blockCipher;
+    this.roundKeys_ = roundKeys;
+    this.tagLength_ = tagLength;
+    this.hashKey_ = blockCipher.encryptBlock(new Uint8Array(GHASH_BLOCK_SIZE_BYTES), roundKeys);
+  }
+
+  /**
+   * Шифрует данные и вычисляет тег аутентификации.
+   * @param {Uint8Array} plaintext - Открытый текст произвольной длины.
+   * @param {Uint8Array} iv - Вектор инициализации (рекомендуется 12 байт, уникальный для ключа).
+   * @param {Uint8Array} aad - Дополнительные аутентифицируемые данные (например, заголовок блока).
+   * @returns {GcmResult} Шифротекст и тег.
+   * @throws {Error} Если IV пуст.
+   */
+  encrypt(plaintext: Uint8Array<any>, iv: Uint8Array<any>, aad: Uint8Array<any> = new Uint8Array(0)): GcmResult {
+    const j0 = this._preCounterBlock(iv);
+    const ciphertext = this._gctr(this._increment32(j0), plaintext);
+    const tag = this._computeTag(j0, aad, ciphertext);
+
+    return { ciphertext, tag };
+  }
+
+  /**
+   * Проверяет тег и дешифрует данные.
+   * @param {Uint8Array} ciphertext - Шифротекст.
+   * @param {Uint8Array} tag - Тег аутентификации.
+   * @param {Uint8Array} iv - Вектор инициализации, использованный при шифровании.
+   * @param {Uint8Array} aad - Дополнительные аутентифицируемые данные.
+   * @returns {Uint8Array} Открытый текст.
+   * @throws {AuthenticationError} Если тег не совпал.
+   */
+  decrypt(ciphertext: Uint8Array<any>, tag: Uint8Array<any>, iv: Uint8Array<any>, aad: Uint8Array<any> = new Uint8Array(0)): Uint8Array<any> {
+    const j0 = this._preCounterBlock(iv);
+    const expectedTag = this._computeTag(j0, aad, ciphertext);
+
+    if (!constantTimeEqual(expectedTag, tag)) {
+      throw new AuthenticationError();
+    }
+
+    return this._gctr(this._increment32(j0), ciphertext);
+  }
+
+  /**
+   * Формирует начальный блок счетчика J0.
+   * @param {Uint8Array} iv - Вектор инициализации.
+   * @returns {Uint8Array} Блок J0.
+   */
+  private _preCounterBlock(iv: Uint8Array<any>): Uint8Array<any> {
+    if (!iv || iv.length === 0) {
+      throw new Error("Вектор инициализации (IV) необходим для режима GCM.");
+    }
+
+    if (iv.length === 12) {
+      const j0 = new Uint8Array(GHASH_BLOCK_SIZE_BYTES);
+      j0.set(iv);
+      j0[GHASH_BLOCK_SIZE_BYTES - 1] = 1;
+      return j0;
+    }
+
+    return ghash(this.hashKey_, new Uint8Array(0), iv);
+  }
+
+  /**
+   * Увеличивает младшие 32 бита блока счетчика на 1 (по модулю 2^32).
+   * @param {Uint8Array} block - Блок счетчика.
+   * @returns {Uint8Array} Новый блок счетчика.
+   */
+  private _increment32(block: Uint8Array<any>): Uint8Array<any> {
+    const next = block.slice();
+    const view = new DataView(next.buffer);
+    view.setUint32(GHASH_BLOCK_SIZE_BYTES - 4, (view.getUint32(GHASH_BLOCK_SIZE_BYTES - 4, false) + 1) >>> 0, false);
+    return next;
+  }
+
+  /**
+   * Функция GCTR: шифрование в режиме счетчика, последний блок может быть неполным.
+   * @param {Uint8Array} initialCounter - Начальный блок счетчика.
+   * @param {Uint8Array} data - Входные данные.
+   * @returns {Uint8Array} Результат XOR с гаммой.
+   */
+  private _gctr(initialCounter: Uint8Array<any>, data: Uint8Array<any>): Uint8Array<any> {
+    const output = new Uint8Array(data.length);
+    const counter = initialCounter.slice();
+    const counterView = new DataView(counter.buffer);
+    const stream = new Uint8Array(GHASH_BLOCK_SIZE_BYTES);
+
+    for (let offset = 0; offset < data.length; offset += GHASH_BLOCK_SIZE_BYTES) {
+      this.blockCipher_.encryptBlockInto(counter, 0, stream, 0, this.roundKeys_);
+      xorInto(data, offset, stream, 0, output, offset, Math.min(GHASH_BLOCK_SIZE_BYTES, data.length - offset));
+      counterView.setUint32(GHASH_BLOCK_SIZE_BYTES - 4, (counterView.getUint32(GHASH_BLOCK_SIZE_BYTES - 4, false) + 1) >>> 0, false);
+    }
+
+    return output;
+  }
+
+  /**
+   * Вычисляет тег: MSB_t(E(K, J0) xor GHASH_H(A, C)).
+   * @param {Uint8Array} j0 - Начальный блок счетчика.
+   * @param {Uint8Array} aad - Дополнительные аутентифицируемые данные.
+   * @param {Uint8Array} ciphertext - Шифротекст.
+   * @returns {Uint8Array} Тег аутентификации.
+   */
+  private _computeTag(j0: Uint8Array<any>, aad: Uint8Array<any>, ciphertext: Uint8Array<any>): Uint8Array<any> {
+    const s = ghash(this.hashKey_, aad, ciphertext);
+    return this._gctr(j0, s).slice(0, this.tagLength_);
+  }
+}
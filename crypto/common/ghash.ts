@@ -0,0 +1,82 @@
+/**
+ * @file Реализация GHASH - универсальной хеш-функции режима GCM.
+ * @fileoverview Умножение в GF(2^128) по модулю x^128 + x^7 + x^2 + x + 1
+ * с "отраженным" порядком бит, как описано в NIST SP 800-38D.
+ */
+
+/**
+ * Размер блока GHASH в байтах (128 бит).
+ * @type {number}
+ */
+export const GHASH_BLOCK_SIZE_BYTES = 16
+
+/**
+ * Умножает два элемента поля GF(2^128) (алгоритм 1 из SP 800-38D).
+ * @param {Uint8Array} x - Первый множитель (16 байт).
+ * @param {Uint8Array} y - Второй множитель (16 байт).
+ * @returns {Uint8Array} Произведение (16 байт).
+ */
+export function gfMultiply(x: Uint8Array<any>, y: Uint8Array<any>): Uint8Array<any> {
+  const z = new Uint32Array(4);
+  const v = new Uint32Array(4);
+  for (let i = 0; i < 4; i++) {
+    v[i] = (y[4 * i] << 24) | (y[4 * i + 1] << 16) | (y[4 * i + 2] << 8) | y[4 * i + 3];
+  }
+
+  for (let i = 0; i < 128; i++) {
+    if ((x[i >> 3] >> (7 - (i & 7))) & 1) {
+      z[0] ^= v[0]; z[1] ^= v[1]; z[2] ^= v[2]; z[3] ^= v[3];
+    }
+
+    const lsb = v[3] & 1;
+    v[3] = (v[3] >>> 1) | (v[2] << 31);
+    v[2] = (v[2] >>> 1) | (v[1] << 31);
+    v[1] = (v[1] >>> 1) | (v[0] << 31);
+    v[0] = v[0] >>> 1;
+    if (lsb) {
+      v[0] ^= 0xe1000000;
+    }
+  }
+
+  const result = new Uint8Array(GHASH_BLOCK_SIZE_BYTES);
+  for (let i = 0; i < 4; i++) {
+    result[4 * i] = z[i] >>> 24;
+    result[4 * i + 1] = z[i] >>> 16;
+    result[4 * i + 2] = z[i] >>> 8;
+    result[4 * i + 3] = z[i];
+  }
+  return result;
+}
+
+/**
+ * Вычисляет GHASH_H(A, C): дополненные нулями AAD и шифротекст,
+ * затем блок с их длинами в битах (по 64 бита, big-endian).
+ * @param {Uint8Array} h - Хеш-подключ H = E(K, 0^128).
+ * @param {Uint8Array} aad - Дополнительные аутентифицируемые данные.
+ * @param {Uint8Array} ciphertext - Шифротекст.
+ * @returns {Uint8Array} Значение GHASH (16 байт).
+ */
+export function ghash(h: Uint8Array<any>, aad: Uint8Array<any>, ciphertext: Uint8Array<any>): Uint8Array<any> {
+  let y: Uint8Array<any> = new Uint8Array(GHASH_BLOCK_SIZE_BYTES);
+
+  const absorb = (data: Uint8Array<any>) => {
+    for (let offset = 0; offset < data.length; offset += GHASH_BLOCK_SIZE_BYTES) {
+      const chunk = data.subarray(offset, offset + GHASH_BLOCK_SIZE_BYTES);
+      for (let i = 0; i < chunk.length; i++) {
+        y[i] ^= chunk[i];
+      }
+      y = gfMultiply(y, h);
+    }
+  };
+
+  absorb(aad);
+  absorb(ciphertext);
+
+  const lengths = new Uint8Array(GHASH_BLOCK_SIZE_BYTES);
+  const view = new DataView(lengths.buffer);
+  view.setBigUint64(0, BigInt(aad.length) * 8n, false);
+  view.setBigUint64(8, BigInt(ciphertext.length) * 8n, false);
+  absorb(lengths);
+
+  return y;
+}
@@ -0,0 +1,153 @@
+/**
+ * @file Реализация HKDF (RFC 5869).
+ * @fileoverview Выводит сырые байты ключей для twoFish и MacGuffin из общего секрета
+ * Диффи-Хеллмана. HMAC вычисляется через Web Crypto API, а без него — реализацией из sha2.ts.
+ */
+
+import { hmac, Sha2Algorithm } from "@/modules/crypto/common/sha2"
+
+/**
+ * Хеш-функции, поддерживаемые HKDF.
+ */
+export type HkdfHash = Sha2Algorithm
+
+/**
+ * Параметры вывода ключа HKDF.
+ * @property {Uint8Array} [salt] - Соль; по умолчанию строка нулей длиной выхода хеша.
+ * @property {Uint8Array | string} [info] - Контекст вывода (метка назначения ключа).
+ * @property {HkdfHash} [hash] - Хеш-функция, по умолчанию SHA-256.
+ */
+export interface HkdfOptions {
+  salt?: Uint8Array
+  info?: Uint8Array | string
+  hash?: HkdfHash
+}
+
+/**
+ * Длина выхода хеш-функций в байтах.
+ * @type {Record<HkdfHash, number>}
+ */
+const HASH_LENGTH_BYTES: Record<HkdfHash, number> = {
+  "SHA-256": 32,
+  "SHA-384": 48,
+  "SHA-512": 64,
+}
+
+/**
+ * Метки контекста по умолчанию, разделяющие ключи разных алгоритмов.
+ */
+const TWOFISH_INFO = "twofish-key"
+const MACGUFFIN_INFO = "macguffin-key"
+const CONTAINER_MAC_INFO = "container-mac-key"
+
+/**
+ * Приводит контекст info к байтам.
+ * @param {Uint8Array | string | undefined} info - Контекст.
+ * @returns {Uint8Array} Байты контекста.
+ */
+function infoToBytes(info: Uint8Array | string | undefined): Uint8Array {
+  if (info === undefined) return new Uint8Array(0);
+  return typeof info === "string" ? new TextEncoder().encode(info) : info;
+}
+
+/**
+ * Шаг извлечения HKDF: PRK = HMAC(salt, IKM).
+ * @param {Uint8Array} ikm - Исходный ключевой материал (например, общий секрет DH).
+ * @param {Uint8Array} [salt] - Соль; по умолчанию нули длиной выхода хеша.
+ * @param {HkdfHash} [hash="SHA-256"] - Хеш-функция.
+ * @returns {Promise<Uint8Array>} Псевдослучайный ключ PRK.
+ */
+export async function hkdfExtract(ikm: Uint8Array, salt?: Uint8Array, hash: HkdfHash = "SHA-256"): Promise<Uint8Array> {
+  const effectiveSalt = salt && salt.length > 0 ? salt : new Uint8Array(HASH_LENGTH_BYTES[hash]);
+  return hmac(hash, effectiveSalt, ikm);
+}
+
+/**
+ * Шаг расширения HKDF: T(i) = HMAC(PRK, T(i-1) | info | i).
+ * @param {Uint8Array} prk - Псевдослучайный ключ из hkdfExtract.
+ * @param {Uint8Array | string} info - Контекст вывода.
+ * @param {number} length - Требуемая длина ключа в байтах (не более 255 * HashLen).
+ * @param {HkdfHash} [hash="SHA-256"] - Хеш-функция.
+ * @returns {Promise<Uint8Array>} Выходной ключевой материал.
+ * @throws {Error} Если длина некорректна.
+ */
+export async function hkdfExpand(
+  prk: Uint8Array,
+  info: Uint8Array | string | undefined,
+  length: number,
+  hash: HkdfHash = "SHA-256"
+): Promise<Uint8Array> {
+  const hashLength = HASH_LENGTH_BYTES[hash];
+  if (!Number.isInteger(length) || length <= 0 || length > 255 * hashLength) {
+    throw new Error(`Длина выводимого ключа должна быть от 1 до ${255 * hashLength} байт.`);
+  }
+
+  const infoBytes = infoToBytes(info);
+  const okm = new Uint8Array(length);
+  let previous: Uint8Array = new Uint8Array(0);
+
+  for (let i = 1, offset = 0; offset < length; i++) {
+    const input = new Uint8Array(previous.length + infoBytes.length + 1);
+    input.set(previous, 0);
+    input.set(infoBytes, previous.length);
+    input[input.length - 1] = i;
+
+    previous = await hmac(hash, prk, input);
+    okm.set(previous.subarray(0, Math.min(hashLength, length - offset)), offset);
+    offset += hashLength;
+  }
+
+  return okm;
+}
+
+/**
+ * Полный HKDF: извлечение и расширение.
+ * @param {Uint8Array} ikm - Исходный ключевой материал.
+ * @param {number} length - Требуемая длина ключа в байтах.
+ * @param {HkdfOptions} [options] - Соль, контекст и хеш-функция.
+ * @returns {Promise<Uint8Array>} Выходной ключевой материал.
+ */
+export async function hkdf(ikm: Uint8Array, length: number, options: HkdfOptions = {}): Promise<Uint8Array> {
+  const hash = options.hash ?? "SHA-256";
+  const prk = await hkdfExtract(ikm, options.salt, hash);
+  return hkdfExpand(prk, options.info, length, hash);
+}
+
+/**
+ * Выводит мастер-ключ twoFish из общего секрета Диффи-Хеллмана.
+ * @param {Uint8Array} sharedSecret - Общий секрет (computeSharedSecret).
+ * @param {16 | 24 | 32} [length=32] - Длина ключа twoFish в байтах.
+ * @param {HkdfOptions} [options] - Соль и контекст; по умолчанию info = "twofish-key".
+ * @returns {Promise<Uint8Array>} Ключ twoFish.
+ * @throws {Error} Если длина ключа не поддерживается twoFish.
+ */
+export async function deriveTwoFishKey(
+  sharedSecret: Uint8Array,
+  length: 16 | 24 | 32 = 32,
+  options: HkdfOptions = {}
+): Promise<Uint8Array> {
+  if (length !== 16 && length !== 24 && length !== 32) {
+    throw new Error("Неподдерживаемая длина ключа twoFish. Используйте 16, 24 или 32.");
+  }
+  return hkdf(sharedSecret, length, { ...options, info: options.info ?? TWOFISH_INFO });
+}
+
+/**
+ * Выводит 16-байтовый мастер-ключ MacGuffin из общего секрета Диффи-Хеллмана.
+ * @param {Uint8Array} sharedSecret - Общий секрет (computeSharedSecret).
+ * @param {HkdfOptions} [options] - Соль и контекст; по умолчанию info = "macguffin-key".
+ * @returns {Promise<Uint8Array>} Ключ MacGuffin.
+ */
+export async function deriveMacGuffinKey(sharedSecret: Uint8Array, options: HkdfOptions = {}): Promise<Uint8Array> {
+  return hkdf(sharedSecret, 16, { ...options, info: options.info ?? MACGUFFIN_INFO });
+}
+
+/**
+ * Выводит ключ CMAC контейнера из мастер-ключа шифрования, чтобы тег не вычислялся
+ * на тех же раундовых ключах, что и шифротекст.
+ * @param {Uint8Array} masterKey - Мастер-ключ шифра.
+ * @returns {Promise<Uint8Array>} Ключ MAC той же длины, что и мастер-ключ.
+ */
+export async function deriveContainerMacKey(masterKey: Uint8Array): Promise<Uint8Array> {
+  return hkdf(masterKey, masterKey.length, { info: CONTAINER_MAC_INFO });
+}
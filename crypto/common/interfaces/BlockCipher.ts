@@ -1,38 +1,69 @@
-import { MacGuffinKey } from "@/modules/crypto/common/types";
-
-/**
- * @class IBlockCipher
- * Интерфейс для блочного шифра.
- * Классы, реализующие этот интерфейс, должны предоставлять методы для шифрования и дешифрования блоков.
- */
-export class IBlockCipher {
-  /**
-   * Возвращает размер блока шифра в байтах.
-   * @returns {number} Размер блока в байтах.
-   */
-  getBlockSizeBytes(): number {
-    throw new Error("Метод 'getBlockSizeBytes' должен быть реализован.");
-  }
-
-  /**
-   * Шифрует один блок данных.
-   * @param {Uint8Array} blk - Блок данных для шифрования.
-   * @param {MacGuffinKey} key - Раундовые ключи, сгенерированные IKeyExpansion.
-   * @returns {Uint8Array} Зашифрованный блок.
-   * @throws {Error} Если размер блока некорректен.
-   */
-  encryptBlock(blk: Uint8Array<any>, key: MacGuffinKey | number[]): Uint8Array<any> {
-    throw new Error("Метод 'encryptBlock' должен быть реализован.");
-  }
-
-  /**
-   * Дешифрует один блок данных.
-   * @param {Uint8Array} blk - Блок данных для дешифрования.
-   * @param {MacGuffinKey} key - Раундовые ключи, сгенерированные IKeyExpansion.
-   * @returns {Uint8Array} Расшифрованный блок.
-   * @throws {Error} Если размер блока некорректен.
-   */
-  decryptBlock(blk: Uint8Array<any>, key: MacGuffinKey | number[]): Uint8Array<any> {
-    throw new Error("Метод 'decryptBlock' должен быть реализован.");
-  }
+import { MacGuffinKey } from "@/modules/crypto/common/types";
+
+/**
+ * @class IBlockCipher
+ * Интерфейс для блочного шифра.
+ * Классы, реализующие этот интерфейс, должны предоставлять методы для шифрования и дешифрования блоков.
+ */
+export class IBlockCipher {
+  /**
+   * Возвращает размер блока шифра в байтах.
+   * @returns {number} Размер блока в байтах.
+   */
+  getBlockSizeBytes(): number {
+    throw new Error("Метод 'getBlockSizeBytes' должен быть реализован.");
+  }
+
+  /**
+   * Шифрует один блок данных.
+   * @param {Uint8Array} blk - Блок данных для шифрования.
+   * @param {MacGuffinKey} key - Раундовые ключи, сгенерированные IKeyExpansion.
+   * @returns {Uint8Array} Зашифрованный блок.
+   * @throws {Error} Если размер блока некорректен.
+   */
+  encryptBlock(blk: Uint8Array<any>, key: MacGuffinKey | number[]): Uint8Array<any> {
+    throw new Error("Метод 'encryptBlock' должен быть реализован.");
+  }
+
+  /**
+   * Дешифрует один блок данных.
+   * @param {Uint8Array} blk - Блок данных для дешифрования.
+   * @param {MacGuffinKey} key - Раундовые ключи, сгенерированные IKeyExpansion.
+   * @returns {Uint8Array} Расшифрованный блок.
+   * @throws {Error} Если размер блока некорректен.
+   */
+  decryptBlock(blk: Uint8Array<any>, key: MacGuffinKey | number[]): Uint8Array<any> {
+    throw new Error("Метод 'decryptBlock' должен быть реализован.");
+  }
+
+  /**
+   * Шифрует блок src[srcOffset..] и записывает результат в dst[dstOffset..] без выделения памяти.
+   * Вход и выход могут совпадать. Реализация по умолчанию опирается на encryptBlock
+   * и выделяет память; шифры переопределяют ее.
+   * @param {Uint8Array} src - Источник.
+   * @param {number} srcOffset - Начало блока в src.
+   * @param {Uint8Array} dst - Приемник.
+   * @param {number} dstOffset - Начало блока в dst.
+   * @param {MacGuffinKey} key - Раундовые ключи, сгенерированные IKeyExpansion.
+   * @throws {Error} Если блок выходит за границы массивов.
+   */
+  encryptBlockInto(src: Uint8Array<any>, srcOffset: number, dst: Uint8Array<any>, dstOffset: number, key: MacGuffinKey | number[]): void {
+    const blockSize = this.getBlockSizeBytes();
+    dst.set(this.encryptBlock(src.subarray(srcOffset, srcOffset + blockSize), key), dstOffset);
+  }
+
+  /**
+   * Дешифрует блок src[srcOffset..] и записывает результат в dst[dstOffset..] без выделения памяти.
+   * Вход и выход могут совпадать. Реализация по умолчанию опирается на decryptBlock.
+   * @param {Uint8Array} src - Источник.
+   * @param {number} srcOffset - Начало блока в src.
+   * @param {Uint8Array} dst - Приемник.
+   * @param {number} dstOffset - Начало блока в dst.
+   * @param {MacGuffinKey} key - Раундовые ключи, сгенерированные IKeyExpansion.
+   * @throws {Error} Если блок выходит за границы массивов.
+   */
+  decryptBlockInto(src: Uint8Array<any>, srcOffset: number, dst: Uint8Array<any>, dstOffset: number, key: MacGuffinKey | number[]): void {
+    const blockSize = this.getBlockSizeBytes();
+    dst.set(this.decryptBlock(src.subarray(srcOffset, srcOffset + blockSize), key), dstOffset);
+  }
 }
\ No newline at end of file
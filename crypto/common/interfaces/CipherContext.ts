@@ -1,280 +1,1107 @@
-import { CipherPadding } from "@/modules/crypto/common/types"
-import { IBlockCipher } from "@/modules/crypto/common/interfaces/BlockCipher"
-import { IKeyExpansion } from "@/modules/crypto/common/interfaces/KeyExpansion"
-
-import { BLOCK_SIZE_BYTES } from "@/modules/crypto/common/constants/macGuffin"
-import { CipherMode } from "@/types/state";
-
-/**
- * @class CipherContextBase
- * Базовый класс для контекста шифрования, объединяющего блочный шифр, расширение ключа,
- * режим шифрования и режим набивки.
- * Этот интерфейс предоставляет высокоуровневые методы для шифрования/дешифрования данных.
- */
-export class CipherContextBase {
-  // Мастер ключ
-  private _masterKey: null | Uint8Array<any> = null
-
-  // Реализация блочного шифра.
-  private _blockCipher: IBlockCipher = new IBlockCipher();
-
-   // Реализация расширения ключа.
-  private _keyExpansion: IKeyExpansion = new IKeyExpansion();
-
-   // Режим шифрования.
-  private _mode: CipherMode = CipherMode.ECB;
-
-   // Режим набивки.
-  private _padding: CipherPadding = CipherPadding.Zeros;
-
-   // Вектор инициализации (для режимов, которые его используют).
-  private _iv: Uint8Array<any> | null = null;
-
-   // Дополнительные параметры (например, для режима CTR).
-  private _options: object = {};
-
-
-  public get masterKey(): IBlockCipher {
-    return this._blockCipher;
-  }
-
-  public setMasterKey(masterKey: Uint8Array): CipherContextBase | void {
-    this._masterKey = masterKey;
-    return this;
-  }
-
-  public get blockCipher(): IBlockCipher {
-    return this._blockCipher;
-  }
-
-  public setBlockCipher(blockCipher: IBlockCipher): CipherContextBase {
-    this._blockCipher = blockCipher;
-    return this;
-  }
-
-  public get keyExpansion(): IKeyExpansion {
-    return this._keyExpansion;
-  }
-
-  public setKeyExpansion(keyExpansion: IKeyExpansion): CipherContextBase {
-    this._keyExpansion = keyExpansion;
-    return this;
-  }
-
-  public get mode(): CipherMode {
-    return this._mode;
-  }
-
-  public setMode(mode: CipherMode): CipherContextBase {
-    this._mode = mode;
-    return this;
-  }
-
-  public get padding(): CipherPadding {
-    return this._padding;
-  }
-
-  public setPadding(padding: CipherPadding): CipherContextBase {
-    this._padding = padding;
-    return this;
-  }
-
-  public get iv(): Uint8Array<any> | null {
-    return this._iv;
-  }
-
-  public setIv(iv: Uint8Array<any> | null): CipherContextBase {
-    if (iv && iv.length !== BLOCK_SIZE_BYTES) {
-      throw new Error(`Вектор инициализации (IV) должен быть ${BLOCK_SIZE_BYTES} байт для MacGuffin.`);
-    }
-
-    this._iv = iv;
-    return this;
-  }
-
-  public get options(): object {
-    return this._options;
-  }
-
-  public setOptions(options: object): CipherContextBase {
-    this._options = options;
-    return this;
-  }
-
-  /**
-   * Шифрует данные.
-   * @param {Uint8Array} currentBlock - Блок открытого текста.
-   * @param {Uint8Array | undefined} iv - Начальный вектор.
-   * @returns {Uint8Array} Промис, разрешающийся зашифрованным текстом.
-   * @throws {Error} Если мастер-ключ не установлен или данные пусты.
-   */
-  encrypt(currentBlock: Uint8Array, iv: Uint8Array | undefined = undefined): Uint8Array {
-    throw new Error("Метод 'encrypt' должен быть реализован.");
-  }
-
-  /**
-   * Дешифрует данные.
-   * @param {Uint8Array} currentBlock - Зашифрованный текст.
-   * @param {Uint8Array | undefined} iv - Начальный вектор.
-   * @returns {Uint8Array} Промис, разрешающийся расшифрованным текстом.
-   * @throws {Error} Если мастер-ключ не установлен или данные пусты.
-   */
-  decrypt(currentBlock: Uint8Array, iv: Uint8Array | undefined = undefined): Uint8Array {
-    throw new Error("Метод 'decrypt' должен быть реализован.");
-  }
-
-  /**
-   * Шифрует файл (адаптировано для фронтенда).
-   * @param {File | Blob} inputFile - Объект File или Blob для шифрования.
-   * @returns {Promise<void>} Промис, который разрешается после завершения шифрования.
-   * @throws {Error} Если пути к файлам некорректны или мастер-ключ не установлен.
-   * @note В браузере прямая работа с файловой системой (пути к файлам) невозможна.
-   * Эта функция предназначена для Node.js окружения или как шаблон для работы с File/Blob API.
-   */
-  encryptFile(inputFile: File | Blob): Promise<Blob> {
-    throw new Error("Метод 'encryptFile' должен быть реализован (или адаптирован для браузера).");
-  }
-
-  /**
-   * Дешифрует файл (адаптировано для фронтенда).
-   * @param {File | Blob} inputFile - Объект File или Blob для дешифрования.
-   * @returns {Promise<void>} Промис, который разрешается после завершения дешифрования.
-   * @throws {Error} Если пути к файлам некорректны или мастер-ключ не установлен.
-   * @note В браузере прямая работа с файловой системой (пути к файлам) невозможна.
-   * Эта функция предназначена для Node.js окружения или как шаблон для работы с File/Blob API.
-   */
-  decryptFile(inputFile: File | Blob): Promise<Blob> {
-    throw new Error("Метод 'decryptFile' должен быть реализован (или адаптирован для браузера).");
-  }
-
-  getBlockSizeBytes(): number {
-    throw new Error("Метод 'getBlockSizeBytes' должен быть реализован (или адаптирован для браузера).");
-  }
-
-  /**
-   * Добавляет набивку к данным.
-   * @param {Uint8Array} data - Исходные данные.
-   * @returns {Uint8Array} Данные с добавленной набивкой.
-   */
-  _addPadding(data: Uint8Array<any>): Uint8Array<any> {
-    const blockSize: number = this.getBlockSizeBytes()
-
-    let paddingLength = blockSize - (data.length % blockSize);
-    if (paddingLength === 0) {
-      paddingLength = blockSize; // Если данные кратны размеру блока, добавляем полный блок набивки
-    }
-
-    const paddedData = new Uint8Array(data.length + paddingLength);
-    paddedData.set(data);
-
-    switch (this._padding) {
-      case CipherPadding.Zeros:
-        // fill уже делает нули, так что ничего дополнительно не нужно
-        break;
-      case CipherPadding.ANSIX923:
-        paddedData.fill(0, data.length, paddedData.length - 1);
-        paddedData[paddedData.length - 1] = paddingLength;
-        break;
-      case CipherPadding.PKCS7:
-        paddedData.fill(paddingLength, data.length);
-        break;
-      case CipherPadding.ISO10126:
-        // Заполняем случайными байтами, последний байт - длина набивки
-        for (let i = data.length; i < paddedData.length - 1; i++) {
-          paddedData[i] = Math.floor(Math.random() * 256);
-        }
-        paddedData[paddedData.length - 1] = paddingLength;
-        break;
-      default:
-        throw new Error(`Неизвестный режим набивки: ${this._padding}`);
-    }
-    return paddedData;
-  }
-
-  /**
-   * Удаляет набивку из данных.
-   * @param {Uint8Array} data - Данные с набивкой.
-   * @returns {Uint8Array} Данные без набивки.
-   * @throws {Error} Если набивка некорректна.
-   */
-  _removePadding(data: Uint8Array<any>): Uint8Array<any> {
-    const blockSize: number = this.getBlockSizeBytes()
-
-    if (data.length % blockSize !== 0) {
-      throw new Error("Длина данных не кратна размеру блока после дешифрования.");
-    }
-
-    let paddingLength = 0;
-    switch (this._padding) {
-      case CipherPadding.Zeros:
-        // Для нулей сложно определить точную длину набивки без дополнительной информации.
-        // В реальных сценариях ZerosPadding часто используется, когда длина данных известна заранее
-        // или когда последние байты НЕ могут быть нулями в исходных данных.
-        // Здесь просто удаляем все конечные нули.
-        let i = data.length - 1;
-        while (i >= 0 && data[i] === 0) {
-          paddingLength++;
-          i--;
-        }
-        break;
-      case CipherPadding.ANSIX923:
-        paddingLength = data[data.length - 1];
-        if (paddingLength > blockSize || paddingLength === 0) {
-          throw new Error("Некорректная длина набивки ANSIX923.");
-        }
-        // Проверяем, что остальные байты набивки - нули
-        for (let j = 1; j < paddingLength; j++) {
-          if (data[data.length - 1 - j] !== 0) {
-            throw new Error("Некорректная набивка ANSIX923: не нулевые байты.");
-          }
-        }
-        break;
-      case CipherPadding.PKCS7:
-        paddingLength = data[data.length - 1];
-        if (paddingLength > blockSize || paddingLength === 0) {
-          throw new Error("Некорректная длина набивки PKCS7.");
-        }
-        // Проверяем, что все байты набивки имеют одинаковое значение
-        for (let j = 1; j <= paddingLength; j++) {
-          if (data[data.length - j] !== paddingLength) {
-            throw new Error("Некорректная набивка PKCS7: значения байтов не совпадают с длиной набивки.");
-          }
-        }
-        break;
-      case CipherPadding.ISO10126:
-        paddingLength = data[data.length - 1];
-        if (paddingLength > blockSize || paddingLength === 0) {
-          throw new Error("Некорректная длина набивки ISO10126.");
-        }
-        // Для ISO10126 мы не можем проверить случайные байты, только длину
-        break;
-      default:
-        throw new Error(`Неизвестный режим набивки: ${this._padding}`);
-    }
-
-    // Если данных недостаточно для заявленной длины набивки, это ошибка
-    if (data.length < paddingLength) {
-      throw new Error("Длина данных меньше предполагаемой длины набивки.");
-    }
-
-    return data.slice(0, data.length - paddingLength);
-  }
-
-  static uploadBlockHeader(blockId: number, date: number, receiver_id: number, data: Uint8Array): Uint8Array {
-    const headerBuffer = new ArrayBuffer(16);
-    const headerView = new DataView(headerBuffer);
-
-    headerView.setUint32(0, receiver_id, false);
-    headerView.setUint32(4, blockId, false);
-    headerView.setBigInt64(8, BigInt(date), false);
-
-    const header = new Uint8Array(headerBuffer);
-
-    const combinedBlock = new Uint8Array(header.length + data.length);
-    combinedBlock.set(header, 0);
-    combinedBlock.set(data, header.length);
-
-    return combinedBlock;
-  }
-}
-
+import { CipherAlgorithm, CipherOptions, CipherPadding, FileProcessingOptions, MacGuffinKey, ParsedBlock } from "@/modules/crypto/common/types"
+import { IBlockCipher } from "@/modules/crypto/common/interfaces/BlockCipher"
+import { IKeyExpansion } from "@/modules/crypto/common/interfaces/KeyExpansion"
+
+import { Cmac } from "@/modules/crypto/common/cmac"
+import {
+  ContainerHeader,
+  readContainerHeader,
+  writeContainerHeader,
+} from "@/modules/crypto/common/container"
+import { deriveContainerMacKey } from "@/modules/crypto/common/hkdf"
+import { AuthenticationError } from "@/modules/crypto/common/errors"
+import { bytesToHex, concatBytes, xorInto } from "@/modules/crypto/common/bits_operation"
+import { createFile, readBlobBytes } from "@/modules/crypto/common/platform"
+import { CipherMode } from "@/types/state";
+
+/**
+ * Размер фрагмента файла по умолчанию (1 МиБ, кратен размерам блоков всех шифров).
+ * @type {number}
+ */
+export const DEFAULT_FILE_CHUNK_SIZE = 1 << 20
+
+/**
+ * Размер заголовка блока исходного формата (без байта версии).
+ * @type {number}
+ */
+export const LEGACY_BLOCK_HEADER_SIZE = 16
+
+/**
+ * Текущая версия заголовка блока.
+ * @type {number}
+ */
+export const BLOCK_HEADER_VERSION = 1
+
+/**
+ * Размер заголовка блока текущей версии.
+ * @type {number}
+ */
+export const BLOCK_HEADER_SIZE = 22
+
+/**
+ * Состояние потоковой обработки данных.
+ */
+type CipherStreamState = {
+  // true - шифрование, false - дешифрование.
+  encrypting: boolean;
+  // IV, который будет восстановлен после final().
+  initialIv: Uint8Array<any> | null;
+  // Номер блока CTR, с которого начат поток (см. seek); восстанавливается вместе с IV.
+  initialCounter: number;
+  // Необработанный остаток данных.
+  pending: Uint8Array<any>;
+};
+
+/**
+ * @class CipherContextBase
+ * Базовый класс для контекста шифрования, объединяющего блочный шифр, расширение ключа,
+ * режим шифрования и режим набивки.
+ * Этот интерфейс предоставляет высокоуровневые методы для шифрования/дешифрования данных.
+ */
+export class CipherContextBase {
+  // Мастер ключ
+  private _masterKey: null | Uint8Array<any> = null
+
+  // Реализация блочного шифра.
+  private _blockCipher: IBlockCipher = new IBlockCipher();
+
+   // Реализация расширения ключа.
+  private _keyExpansion: IKeyExpansion = new IKeyExpansion();
+
+   // Режим шифрования.
+  private _mode: CipherMode = CipherMode.ECB;
+
+   // Режим набивки.
+  private _padding: CipherPadding = CipherPadding.Zeros;
+
+   // Вектор инициализации (для режимов, которые его используют).
+  private _iv: Uint8Array<any> | null = null;
+
+   // Дополнительные параметры (например, для режима CTR).
+  private _options: CipherOptions = {};
+
+   // Номер текущего блока относительно IV для режима CTR.
+  private _counter: number = 0;
+
+   // Приращение счетчика для режима RANDOM_DELTA (выводится из IV).
+  private _delta: Uint8Array<any> | null = null;
+
+   // Состояние потоковой обработки (update/final).
+  private _stream: CipherStreamState | null = null;
+
+   // Рабочий буфер размером в блок для режимов, которым нужна копия входа.
+  private _scratch: Uint8Array<any> | null = null;
+
+   // IV (в hex), с которыми текущим ключом уже выполнялось шифрование.
+  private _usedEncryptionIvs: Set<string> = new Set();
+
+
+  public get masterKey(): IBlockCipher {
+    return this._blockCipher;
+  }
+
+  public setMasterKey(masterKey: Uint8Array): CipherContextBase | void {
+    this._masterKey = masterKey;
+    this._usedEncryptionIvs.clear();
+    return this;
+  }
+
+  public get blockCipher(): IBlockCipher {
+    return this._blockCipher;
+  }
+
+  public setBlockCipher(blockCipher: IBlockCipher): CipherContextBase {
+    this._blockCipher = blockCipher;
+    return this;
+  }
+
+  public get keyExpansion(): IKeyExpansion {
+    return this._keyExpansion;
+  }
+
+  public setKeyExpansion(keyExpansion: IKeyExpansion): CipherContextBase {
+    this._keyExpansion = keyExpansion;
+    return this;
+  }
+
+  public get mode(): CipherMode {
+    return this._mode;
+  }
+
+  public setMode(mode: CipherMode): CipherContextBase {
+    this._mode = mode;
+    return this;
+  }
+
+  public get padding(): CipherPadding {
+    return this._padding;
+  }
+
+  public setPadding(padding: CipherPadding): CipherContextBase {
+    this._padding = padding;
+    return this;
+  }
+
+  public get iv(): Uint8Array<any> | null {
+    return this._iv;
+  }
+
+  public setIv(iv: Uint8Array<any> | null): CipherContextBase {
+    const blockSize: number = this.getBlockSizeBytes()
+
+    if (iv && iv.length !== blockSize) {
+      throw new Error(`Вектор инициализации (IV) должен быть ${blockSize} байт.`);
+    }
+
+    // IV меняется на месте при обработке блоков, поэтому хранится копия.
+    this._iv = iv ? iv.slice() : null;
+    this._delta = null;
+    this._counter = 0;
+    return this;
+  }
+
+  public get options(): CipherOptions {
+    return this._options;
+  }
+
+  public setOptions(options: CipherOptions): CipherContextBase {
+    const { counterBytes } = options
+    if (counterBytes !== undefined && (!Number.isInteger(counterBytes) || counterBytes <= 0 || counterBytes > this.getBlockSizeBytes())) {
+      throw new Error(`Размер счетчика CTR должен быть от 1 до ${this.getBlockSizeBytes()} байт.`);
+    }
+
+    this._options = options;
+    return this;
+  }
+
+  /**
+   * Переставляет счетчик режима CTR на заданный блок, позволяя расшифровать
+   * произвольный фрагмент без обработки предшествующих блоков. Позиция действует и для
+   * decrypt(), и для потоков (decryptData, startDecryption, TransformStream); setIv сбрасывает ее в 0.
+   * @param {number} blockIndex - Номер блока относительно IV.
+   * @throws {Error} Если номер блока некорректен.
+   */
+  public seek(blockIndex: number): CipherContextBase {
+    if (!Number.isSafeInteger(blockIndex) || blockIndex < 0) {
+      throw new Error("Номер блока должен быть неотрицательным целым числом.");
+    }
+
+    this._counter = blockIndex;
+    return this;
+  }
+
+  /**
+   * Шифрует один блок в текущем режиме.
+   * @param {Uint8Array} currentBlock - Блок открытого текста (в режиме CTR последний блок может быть неполным).
+   * @returns {Uint8Array} Зашифрованный блок.
+   * @throws {Error} Если раундовые ключи не установлены или данные пусты.
+   */
+  encrypt(currentBlock: Uint8Array<any>): Uint8Array<any> {
+    if (!currentBlock || currentBlock.length === 0) {
+      throw new Error("Невозможно зашифровать пустые данные.");
+    }
+
+    const output = new Uint8Array(currentBlock.length)
+    this.encryptInto(currentBlock, 0, output, 0, currentBlock.length)
+    return output
+  }
+
+  /**
+   * Дешифрует один блок в текущем режиме.
+   * @param {Uint8Array} currentBlock - Зашифрованный блок (в режиме CTR последний блок может быть неполным).
+   * @returns {Uint8Array} Расшифрованный блок.
+   * @throws {Error} Если раундовые ключи не установлены или данные пусты/некорректны.
+   */
+  decrypt(currentBlock: Uint8Array<any>): Uint8Array<any> {
+    const isAligned = currentBlock && currentBlock.length % this.getBlockSizeBytes() === 0
+
+    if (!currentBlock || currentBlock.length === 0 || (!isAligned && this.mode !== CipherMode.CTR)) {
+      throw new Error("Невозможно дешифровать пустые или некорректно выровненные данные.");
+    }
+
+    const output = new Uint8Array(currentBlock.length)
+    this.decryptInto(currentBlock, 0, output, 0, currentBlock.length)
+    return output
+  }
+
+  /**
+   * Шифрует блок src[srcOffset..] в текущем режиме и записывает результат в dst[dstOffset..]
+   * без выделения памяти. dst может совпадать с src.
+   * @param {Uint8Array} src - Источник.
+   * @param {number} srcOffset - Начало блока в src.
+   * @param {Uint8Array} dst - Приемник.
+   * @param {number} dstOffset - Начало блока в dst.
+   * @param {number} length - Длина блока (меньше размера блока только в режиме CTR).
+   * @throws {Error} Если раундовые ключи или IV не установлены, либо длина некорректна.
+   */
+  encryptInto(src: Uint8Array<any>, srcOffset: number, dst: Uint8Array<any>, dstOffset: number, length: number = this.getBlockSizeBytes()): void {
+    const roundKeys = this._checkBlock(src, srcOffset, dst, dstOffset, length)
+    const blockSize: number = this.getBlockSizeBytes()
+    const cipher = this.blockCipher
+
+    switch (this.mode) {
+      case CipherMode.ECB:
+        cipher.encryptBlockInto(src, srcOffset, dst, dstOffset, roundKeys)
+        break
+      case CipherMode.CBC: {
+        const iv = this._requireIv()
+        xorInto(iv, 0, src, srcOffset, iv, 0, blockSize)
+        cipher.encryptBlockInto(iv, 0, iv, 0, roundKeys)
+        dst.set(iv, dstOffset)
+        break
+      }
+      case CipherMode.PCBC: {
+        const iv = this._requireIv()
+        const plain = this._copyToScratch(src, srcOffset)
+        xorInto(iv, 0, plain, 0, iv, 0, blockSize)
+        cipher.encryptBlockInto(iv, 0, dst, dstOffset, roundKeys)
+        xorInto(plain, 0, dst, dstOffset, iv, 0, blockSize)
+        break
+      }
+      case CipherMode.CFB: {
+        const iv = this._requireIv()
+        cipher.encryptBlockInto(iv, 0, iv, 0, roundKeys)
+        xorInto(iv, 0, src, srcOffset, iv, 0, blockSize)
+        dst.set(iv, dstOffset)
+        break
+      }
+      case CipherMode.OFB: {
+        const iv = this._requireIv()
+        cipher.encryptBlockInto(iv, 0, iv, 0, roundKeys)
+        xorInto(src, srcOffset, iv, 0, dst, dstOffset, blockSize)
+        break
+      }
+      case CipherMode.CTR: {
+        const stream = this._nextCounterBlockInto(this._getScratch())
+        cipher.encryptBlockInto(stream, 0, stream, 0, roundKeys)
+        xorInto(src, srcOffset, stream, 0, dst, dstOffset, length)
+        break
+      }
+      case CipherMode["RANDOM_DELTA"]: {
+        const iv = this._requireIv()
+        const whitened = this._getScratch()
+        xorInto(src, srcOffset, iv, 0, whitened, 0, blockSize)
+        this._advanceRandomDelta()
+        cipher.encryptBlockInto(whitened, 0, dst, dstOffset, roundKeys)
+        break
+      }
+      default:
+        throw new Error(`Неподдерживаемый режим шифрования: ${this.mode}`);
+    }
+  }
+
+  /**
+   * Дешифрует блок src[srcOffset..] в текущем режиме и записывает результат в dst[dstOffset..]
+   * без выделения памяти. dst может совпадать с src.
+   * @param {Uint8Array} src - Источник.
+   * @param {number} srcOffset - Начало блока в src.
+   * @param {Uint8Array} dst - Приемник.
+   * @param {number} dstOffset - Начало блока в dst.
+   * @param {number} length - Длина блока (меньше размера блока только в режиме CTR).
+   * @throws {Error} Если раундовые ключи или IV не установлены, либо длина некорректна.
+   */
+  decryptInto(src: Uint8Array<any>, srcOffset: number, dst: Uint8Array<any>, dstOffset: number, length: number = this.getBlockSizeBytes()): void {
+    const roundKeys = this._checkBlock(src, srcOffset, dst, dstOffset, length)
+    const blockSize: number = this.getBlockSizeBytes()
+    const cipher = this.blockCipher
+
+    switch (this.mode) {
+      case CipherMode.ECB:
+        cipher.decryptBlockInto(src, srcOffset, dst, dstOffset, roundKeys)
+        break
+      case CipherMode.CBC: {
+        const iv = this._requireIv()
+        const cipherBlock = this._copyToScratch(src, srcOffset)
+        cipher.decryptBlockInto(cipherBlock, 0, dst, dstOffset, roundKeys)
+        xorInto(dst, dstOffset, iv, 0, dst, dstOffset, blockSize)
+        iv.set(cipherBlock)
+        break
+      }
+      case CipherMode.PCBC: {
+        const iv = this._requireIv()
+        const cipherBlock = this._copyToScratch(src, srcOffset)
+        cipher.decryptBlockInto(cipherBlock, 0, dst, dstOffset, roundKeys)
+        xorInto(dst, dstOffset, iv, 0, dst, dstOffset, blockSize)
+        xorInto(dst, dstOffset, cipherBlock, 0, iv, 0, blockSize)
+        break
+      }
+      case CipherMode.CFB: {
+        const iv = this._requireIv()
+        const stream = this._getScratch()
+        cipher.encryptBlockInto(iv, 0, stream, 0, roundKeys)
+        this._copyBytes(src, srcOffset, iv, 0, blockSize)
+        xorInto(iv, 0, stream, 0, dst, dstOffset, blockSize)
+        break
+      }
+      case CipherMode.OFB: {
+        const iv = this._requireIv()
+        cipher.encryptBlockInto(iv, 0, iv, 0, roundKeys)
+        xorInto(src, srcOffset, iv, 0, dst, dstOffset, blockSize)
+        break
+      }
+      case CipherMode.CTR: {
+        const stream = this._nextCounterBlockInto(this._getScratch())
+        cipher.encryptBlockInto(stream, 0, stream, 0, roundKeys)
+        xorInto(src, srcOffset, stream, 0, dst, dstOffset, length)
+        break
+      }
+      case CipherMode["RANDOM_DELTA"]: {
+        const iv = this._requireIv()
+        cipher.decryptBlockInto(src, srcOffset, dst, dstOffset, roundKeys)
+        xorInto(dst, dstOffset, iv, 0, dst, dstOffset, blockSize)
+        this._advanceRandomDelta()
+        break
+      }
+      default:
+        throw new Error(`Неподдерживаемый режим дешифрования: ${this.mode}`);
+    }
+  }
+
+  /**
+   * Шифрует данные произвольной длины: добавляет набивку и последовательно
+   * применяет режим шифрования к каждому блоку.
+   * Состояние IV восстанавливается после обработки, поэтому контекст можно
+   * сразу использовать для дешифрования с тем же IV. Повторное шифрование с тем же IV
+   * отклоняется (в CTR и OFB оно дало бы ту же гамму): перед каждым вызовом задайте новый IV.
+   * @param {Uint8Array} data - Открытый текст.
+   * @param {Uint8Array | null} iv - Начальный вектор (по умолчанию - текущий IV контекста).
+   * @returns {Uint8Array} Шифротекст, кратный размеру блока.
+   * @throws {Error} Если мастер-ключ не установлен, режим требует отсутствующий IV или IV уже использован.
+   */
+  encryptData(data: Uint8Array<any>, iv: Uint8Array<any> | null = this.iv): Uint8Array<any> {
+    this.startEncryption(iv)
+    return concatBytes(this.update(data), this.final())
+  }
+
+  /**
+   * Дешифрует данные, зашифрованные encryptData, и удаляет набивку.
+   * @param {Uint8Array} data - Шифротекст, кратный размеру блока.
+   * @param {Uint8Array | null} iv - Начальный вектор (по умолчанию - текущий IV контекста).
+   * @returns {Uint8Array} Открытый текст.
+   * @throws {Error} Если шифротекст пуст, не выровнен или набивка некорректна.
+   */
+  decryptData(data: Uint8Array<any>, iv: Uint8Array<any> | null = this.iv): Uint8Array<any> {
+    if (!data || data.length === 0 || data.length % this.getBlockSizeBytes() !== 0) {
+      throw new Error("Невозможно дешифровать пустые или некорректно выровненные данные.");
+    }
+
+    this.startDecryption(iv)
+    return concatBytes(this.update(data), this.final())
+  }
+
+  /**
+   * Начинает потоковое шифрование. Данные подаются через update(), набивка добавляется в final().
+   * @param {Uint8Array | null} iv - Начальный вектор (по умолчанию - текущий IV контекста).
+   * @returns {CipherContextBase} Текущий контекст.
+   * @throws {Error} Если этим ключом уже шифровали с тем же IV.
+   */
+  startEncryption(iv: Uint8Array<any> | null = this.iv): CipherContextBase {
+    return this._startStream(true, iv)
+  }
+
+  /**
+   * Начинает потоковое дешифрование. Последний блок удерживается до final(), где снимается набивка.
+   * @param {Uint8Array | null} iv - Начальный вектор (по умолчанию - текущий IV контекста).
+   * @returns {CipherContextBase} Текущий контекст.
+   */
+  startDecryption(iv: Uint8Array<any> | null = this.iv): CipherContextBase {
+    return this._startStream(false, iv)
+  }
+
+  /**
+   * Обрабатывает очередной фрагмент данных потока.
+   * @param {Uint8Array} chunk - Фрагмент произвольной длины.
+   * @returns {Uint8Array} Обработанные полные блоки (может быть пустым).
+   * @throws {Error} Если поток не начат. При ошибке обработки поток прерывается.
+   */
+  update(chunk: Uint8Array<any>): Uint8Array<any> {
+    const stream = this._stream
+    if (!stream) {
+      throw new Error("Поток не начат. Вызовите startEncryption или startDecryption.");
+    }
+
+    try {
+      const blockSize: number = this.getBlockSizeBytes()
+      const data = concatBytes(stream.pending, chunk)
+
+      // При дешифровании последний полный блок удерживается: в нем может быть набивка.
+      let ready = data.length - (data.length % blockSize)
+      if (!stream.encrypting && ready === data.length) {
+        ready -= blockSize
+      }
+      ready = Math.max(ready, 0)
+
+      stream.pending = data.slice(ready)
+      return this._processBlocks(data.subarray(0, ready), stream.encrypting)
+    } catch (e) {
+      this._abortStream()
+      throw e
+    }
+  }
+
+  /**
+   * Завершает поток: добавляет или снимает набивку и восстанавливает исходные IV и позицию.
+   * @returns {Uint8Array} Последние обработанные данные.
+   * @throws {Error} Если поток не начат или данные некорректно выровнены.
+   */
+  final(): Uint8Array<any> {
+    if (!this._stream) {
+      throw new Error("Поток не начат. Вызовите startEncryption или startDecryption.");
+    }
+
+    const stream = this._stream
+    const { encrypting, pending } = stream
+    this._stream = null
+
+    try {
+      if (encrypting) {
+        return this._processBlocks(this._addPadding(pending), true)
+      }
+
+      if (pending.length !== this.getBlockSizeBytes()) {
+        throw new Error("Невозможно дешифровать пустые или некорректно выровненные данные.");
+      }
+      return this._removePadding(this._processBlocks(pending, false))
+    } finally {
+      this._restoreStreamStart(stream)
+    }
+  }
+
+  /**
+   * Создает WHATWG TransformStream для шифрования, например для Blob.stream().pipeThrough(...).
+   * @param {Uint8Array | null} iv - Начальный вектор (по умолчанию - текущий IV контекста).
+   * @returns {TransformStream<Uint8Array, Uint8Array>} Поток шифрования.
+   */
+  createEncryptionStream(iv: Uint8Array<any> | null = this.iv): TransformStream<Uint8Array<any>, Uint8Array<any>> {
+    return this._createTransformStream(true, iv)
+  }
+
+  /**
+   * Создает WHATWG TransformStream для дешифрования.
+   * @param {Uint8Array | null} iv - Начальный вектор (по умолчанию - текущий IV контекста).
+   * @returns {TransformStream<Uint8Array, Uint8Array>} Поток дешифрования.
+   */
+  createDecryptionStream(iv: Uint8Array<any> | null = this.iv): TransformStream<Uint8Array<any>, Uint8Array<any>> {
+    return this._createTransformStream(false, iv)
+  }
+
+  /**
+   * Начинает поток и устанавливает рабочую копию IV. Счетчик CTR при этом сохраняется,
+   * поэтому поток начинается с позиции, заданной seek(). У контекста один поток:
+   * следующий можно начать только после final() или ошибки текущего.
+   * @param {boolean} encrypting - Направление обработки.
+   * @param {Uint8Array | null} iv - Начальный вектор.
+   * @returns {CipherContextBase} Текущий контекст.
+   * @throws {Error} Если поток уже начат или IV шифрования уже использован.
+   */
+  _startStream(encrypting: boolean, iv: Uint8Array<any> | null): CipherContextBase {
+    if (this._stream) {
+      throw new Error("Поток уже начат. Завершите его вызовом final() или используйте отдельный контекст.");
+    }
+    if (encrypting) {
+      this._claimEncryptionIv(iv)
+    }
+
+    const initialCounter = this._counter
+    this.setIv(iv)
+    this._counter = initialCounter
+    this._stream = { encrypting, initialIv: iv, initialCounter, pending: new Uint8Array(0) }
+    return this
+  }
+
+  /**
+   * Отмечает IV как использованный для шифрования текущим ключом. ECB работает без IV
+   * и не проверяется. Отметка остается и при ошибке шифрования: часть гаммы могла уйти наружу.
+   * @param {Uint8Array | null} iv - IV очередного шифрования.
+   * @throws {Error} Если с этим IV уже шифровали после последнего setMasterKey.
+   */
+  _claimEncryptionIv(iv: Uint8Array<any> | null): void {
+    if (this.mode === CipherMode.ECB || !iv) {
+      return
+    }
+
+    const key = bytesToHex(iv)
+    if (this._usedEncryptionIvs.has(key)) {
+      throw new Error("Этот IV уже использован для шифрования данным ключом. Задайте новый IV через setIv.");
+    }
+    this._usedEncryptionIvs.add(key)
+  }
+
+  /**
+   * Прерывает текущий поток без обработки остатка и восстанавливает исходные IV и позицию.
+   */
+  _abortStream(): void {
+    if (this._stream) {
+      const stream = this._stream
+      this._stream = null
+      this._restoreStreamStart(stream)
+    }
+  }
+
+  /**
+   * Восстанавливает IV и номер блока CTR, с которых был начат поток.
+   * @param {CipherStreamState} stream - Завершенный поток.
+   */
+  _restoreStreamStart(stream: CipherStreamState): void {
+    this.setIv(stream.initialIv)
+    this._counter = stream.initialCounter
+  }
+
+  /**
+   * Оборачивает update/final в TransformStream. Поток начинается при создании
+   * и освобождает контекст при завершении, ошибке или отмене.
+   * @param {boolean} encrypting - Направление обработки.
+   * @param {Uint8Array | null} iv - Начальный вектор.
+   * @returns {TransformStream<Uint8Array, Uint8Array>} Поток.
+   * @throws {Error} Если у контекста уже есть активный поток.
+   */
+  _createTransformStream(encrypting: boolean, iv: Uint8Array<any> | null): TransformStream<Uint8Array<any>, Uint8Array<any>> {
+    // Обработчик cancel вызывается браузерами и Node.js, но еще не описан в lib.dom.
+    const transformer: Transformer<Uint8Array<any>, Uint8Array<any>> & { cancel: () => void } = {
+      start: () => {
+        this._startStream(encrypting, iv)
+      },
+      transform: (chunk, controller) => {
+        const output = this.update(chunk)
+        if (output.length > 0) controller.enqueue(output)
+      },
+      flush: (controller) => {
+        controller.enqueue(this.final())
+      },
+      cancel: () => {
+        this._abortStream()
+      },
+    }
+    return new TransformStream<Uint8Array<any>, Uint8Array<any>>(transformer)
+  }
+
+  /**
+   * Последовательно применяет encryptInto/decryptInto к каждому блоку данных.
+   * @param {Uint8Array} data - Данные, кратные размеру блока.
+   * @param {boolean} encrypting - Направление обработки.
+   * @returns {Uint8Array} Результат.
+   */
+  _processBlocks(data: Uint8Array<any>, encrypting: boolean): Uint8Array<any> {
+    const blockSize: number = this.getBlockSizeBytes()
+    const output = new Uint8Array(data.length)
+
+    for (let offset = 0; offset < data.length; offset += blockSize) {
+      if (encrypting) {
+        this.encryptInto(data, offset, output, offset, blockSize)
+      } else {
+        this.decryptInto(data, offset, output, offset, blockSize)
+      }
+    }
+
+    return output
+  }
+
+  /**
+   * Шифрует файл (адаптировано для фронтенда).
+   * @param {File | Blob} inputFile - Объект File или Blob для шифрования.
+   * @returns {Promise<void>} Промис, который разрешается после завершения шифрования.
+   * @throws {Error} Если пути к файлам некорректны или мастер-ключ не установлен.
+   * @note В браузере прямая работа с файловой системой (пути к файлам) невозможна.
+   * Эта функция предназначена для Node.js окружения или как шаблон для работы с File/Blob API.
+   */
+  encryptFile(inputFile: File | Blob, options: FileProcessingOptions = {}): Promise<Blob> {
+    throw new Error("Метод 'encryptFile' должен быть реализован (или адаптирован для браузера).");
+  }
+
+  /**
+   * Дешифрует файл (адаптировано для фронтенда).
+   * @param {File | Blob} inputFile - Объект File или Blob для дешифрования.
+   * @returns {Promise<void>} Промис, который разрешается после завершения дешифрования.
+   * @throws {Error} Если пути к файлам некорректны или мастер-ключ не установлен.
+   * @note В браузере прямая работа с файловой системой (пути к файлам) невозможна.
+   * Эта функция предназначена для Node.js окружения или как шаблон для работы с File/Blob API.
+   */
+  decryptFile(inputFile: File | Blob, options: FileProcessingOptions = {}): Promise<Blob> {
+    throw new Error("Метод 'decryptFile' должен быть реализован (или адаптирован для браузера).");
+  }
+
+  /**
+   * Поблочно шифрует или дешифрует файл, не загружая его в память целиком.
+   * При шифровании с options.container результат оборачивается в самоописываемый контейнер;
+   * при дешифровании контейнер распознается автоматически, контекст настраивается
+   * по заголовку, а MAC проверяется до снятия набивки.
+   * @param {File | Blob} inputFile - Объект File или Blob.
+   * @param {boolean} encrypting - Направление обработки.
+   * @param {FileProcessingOptions} options - Размер фрагмента, прогресс, сигнал отмены и параметры контейнера.
+   * @returns {Promise<Blob>} Промис, разрешающийся Blob (или File с исходным именем) с результатом.
+   * @throws {DOMException} Если обработка отменена через AbortSignal.
+   * @throws {AuthenticationError} Если MAC контейнера не совпал.
+   */
+  async _processFile(inputFile: File | Blob, encrypting: boolean, options: FileProcessingOptions = {}): Promise<Blob> {
+    const { chunkSize = DEFAULT_FILE_CHUNK_SIZE, onProgress, signal } = options
+
+    if (!(inputFile instanceof Blob)) {
+      throw new Error("Input file must be a File or Blob object.");
+    }
+    if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+      throw new Error("Размер фрагмента должен быть положительным целым числом.");
+    }
+
+    const parts: Uint8Array<any>[] = []
+    let header: ContainerHeader | null = null
+    let mac: Cmac | null = null
+    let start = 0
+    let end = inputFile.size
+
+    if (encrypting && options.container) {
+      const headerBytes = writeContainerHeader({
+        algorithm: this.getAlgorithm(),
+        mode: this.mode,
+        padding: this.padding,
+        iv: this.iv,
+        macLength: this.getBlockSizeBytes(),
+        kdf: options.kdf,
+        fileName: inputFile instanceof File ? inputFile.name : "",
+        mimeType: inputFile.type,
+      })
+
+      mac = (await this._createMac()).update(headerBytes)
+      parts.push(headerBytes)
+    }
+
+    if (!encrypting) {
+      const parsed = await readContainerHeader(inputFile)
+
+      if (parsed) {
+        header = parsed.header
+        if (header.algorithm !== this.getAlgorithm()) {
+          throw new Error(`Контейнер зашифрован алгоритмом ${CipherAlgorithm[header.algorithm]}.`);
+        }
+        if (header.macLength !== this.getBlockSizeBytes()) {
+          throw new Error("Некорректная длина MAC в заголовке контейнера.");
+        }
+
+        this.setMode(header.mode).setPadding(header.padding).setIv(header.iv)
+
+        start = parsed.headerLength
+        end = inputFile.size - header.macLength
+        if (end < start) {
+          throw new Error("Контейнер обрезан.");
+        }
+
+        mac = (await this._createMac()).update(await readBlobBytes(inputFile, 0, start))
+      }
+    }
+
+    const initialIv = this.iv
+
+    this._startStream(encrypting, initialIv)
+    try {
+      for (let offset = start; offset < end; offset += chunkSize) {
+        signal?.throwIfAborted()
+
+        const chunk = await readBlobBytes(inputFile, offset, Math.min(offset + chunkSize, end))
+        const output = this.update(chunk)
+
+        mac?.update(encrypting ? output : chunk)
+        parts.push(output)
+
+        onProgress?.(Math.min(offset + chunkSize, end) - start, end - start)
+      }
+
+      signal?.throwIfAborted()
+
+      if (mac && !encrypting) {
+        const tag = await readBlobBytes(inputFile, end)
+        if (!mac.verify(tag)) {
+          throw new AuthenticationError("MAC контейнера не совпал: файл поврежден или ключ неверен.");
+        }
+      }
+
+      const last = this.final()
+      parts.push(last)
+
+      if (mac && encrypting) {
+        parts.push(mac.update(last).finalize())
+      }
+    } catch (e) {
+      this._abortStream()
+      throw e
+    }
+
+    if (header) {
+      const type = header.mimeType || 'application/octet-stream'
+      return header.fileName ? createFile(parts, header.fileName, type) : new Blob(parts, { type })
+    }
+
+    return new Blob(parts, { type: 'application/octet-stream' })
+  }
+
+  /**
+   * Создает CMAC контейнера. Ключ MAC выводится из мастер-ключа через HKDF и расширяется
+   * отдельным контекстом того же класса.
+   * @returns {Promise<Cmac>} Экземпляр CMAC.
+   * @throws {Error} Если мастер-ключ не установлен.
+   */
+  async _createMac(): Promise<Cmac> {
+    if (!this._masterKey) {
+      throw new Error("Мастер-ключ не установлен.");
+    }
+
+    const macContext = new (this.constructor as new () => CipherContextBase)()
+    macContext.setMasterKey(await deriveContainerMacKey(this._masterKey))
+    return new Cmac(macContext.blockCipher, macContext.keyExpansion.roundKeys!)
+  }
+
+  /**
+   * Возвращает идентификатор алгоритма для заголовка контейнера.
+   * @returns {CipherAlgorithm} Идентификатор алгоритма.
+   */
+  getAlgorithm(): CipherAlgorithm {
+    throw new Error("Метод 'getAlgorithm' должен быть реализован.");
+  }
+
+  getBlockSizeBytes(): number {
+    throw new Error("Метод 'getBlockSizeBytes' должен быть реализован (или адаптирован для браузера).");
+  }
+
+  /**
+   * Проверяет параметры блока для encryptInto/decryptInto.
+   * @param {Uint8Array} src - Источник.
+   * @param {number} srcOffset - Начало блока в src.
+   * @param {Uint8Array} dst - Приемник.
+   * @param {number} dstOffset - Начало блока в dst.
+   * @param {number} length - Длина блока.
+   * @returns {MacGuffinKey | number[]} Раундовые ключи.
+   * @throws {Error} Если раундовые ключи не установлены, длина некорректна или блок выходит за границы.
+   */
+  _checkBlock(src: Uint8Array<any>, srcOffset: number, dst: Uint8Array<any>, dstOffset: number, length: number): MacGuffinKey | number[] {
+    const roundKeys = this.keyExpansion.roundKeys
+    if (!roundKeys) {
+      throw new Error("Раундовые ключи не установлены.");
+    }
+
+    const blockSize: number = this.getBlockSizeBytes()
+    const partialAllowed = this.mode === CipherMode.CTR
+    if (!Number.isInteger(length) || length <= 0 || length > blockSize || (length !== blockSize && !partialAllowed)) {
+      throw new Error(`Блок должен быть ${blockSize} байт.`);
+    }
+    if (srcOffset < 0 || srcOffset + length > src.length || dstOffset < 0 || dstOffset + length > dst.length) {
+      throw new Error(`Блок ${length} байт выходит за границы массива.`);
+    }
+
+    return roundKeys
+  }
+
+  /**
+   * Возвращает текущий IV для режима, которому он необходим.
+   * @returns {Uint8Array} Рабочая копия IV (изменяется на месте).
+   * @throws {Error} Если IV не установлен.
+   */
+  _requireIv(): Uint8Array<any> {
+    if (!this._iv) throw new Error(`Начальный вектор (IV) необходим для режима ${this.mode}.`)
+    return this._iv
+  }
+
+  /**
+   * Возвращает рабочий буфер размером в блок, создавая его при первом обращении.
+   * @returns {Uint8Array} Буфер.
+   */
+  _getScratch(): Uint8Array<any> {
+    const blockSize: number = this.getBlockSizeBytes()
+    if (!this._scratch || this._scratch.length !== blockSize) {
+      this._scratch = new Uint8Array(blockSize)
+    }
+    return this._scratch
+  }
+
+  /**
+   * Копирует блок в рабочий буфер, чтобы вход пережил запись результата поверх него.
+   * @param {Uint8Array} src - Источник.
+   * @param {number} srcOffset - Начало блока в src.
+   * @returns {Uint8Array} Рабочий буфер с копией блока.
+   */
+  _copyToScratch(src: Uint8Array<any>, srcOffset: number): Uint8Array<any> {
+    const scratch = this._getScratch()
+    this._copyBytes(src, srcOffset, scratch, 0, scratch.length)
+    return scratch
+  }
+
+  /**
+   * Копирует диапазон байтов без создания промежуточных представлений.
+   * @param {Uint8Array} src - Источник.
+   * @param {number} srcOffset - Начало диапазона в src.
+   * @param {Uint8Array} dst - Приемник.
+   * @param {number} dstOffset - Начало диапазона в dst.
+   * @param {number} length - Количество байтов.
+   */
+  _copyBytes(src: Uint8Array<any>, srcOffset: number, dst: Uint8Array<any>, dstOffset: number, length: number): void {
+    for (let i = 0; i < length; i++) {
+      dst[dstOffset + i] = src[srcOffset + i]
+    }
+  }
+
+  /**
+   * Сдвигает счетчик режима RANDOM_DELTA (хранится в IV) на дельту на месте.
+   * Дельта выводится из правой половины IV (младший бит принудительно равен 1,
+   * чтобы счетчик не стоял на месте) и фиксируется до следующего вызова setIv.
+   * @throws {Error} Если IV не установлен.
+   */
+  _advanceRandomDelta(): void {
+    const iv = this._requireIv()
+    const blockSize: number = iv.length
+
+    if (!this._delta) {
+      this._delta = new Uint8Array(blockSize)
+      this._delta.set(iv.subarray(blockSize / 2), blockSize / 2)
+      this._delta[blockSize - 1] |= 1
+    }
+
+    let carry = 0
+    for (let k = blockSize - 1; k >= 0; k--) {
+      const sum = iv[k] + this._delta[k] + carry
+      iv[k] = sum & 0xFF
+      carry = sum >> 8
+    }
+  }
+
+  /**
+   * Записывает блок счетчика режима CTR для текущего блока и сдвигает внутренний счетчик.
+   * IV задает начальный блок: старшие байты - nonce, младшие `options.counterBytes`
+   * (по умолчанию половина блока) - начальное значение счетчика в big-endian.
+   * @param {Uint8Array} counterBlock - Буфер размером в блок для результата.
+   * @returns {Uint8Array} Тот же буфер с блоком счетчика.
+   * @throws {Error} Если IV не установлен или счетчик переполнен.
+   */
+  _nextCounterBlockInto(counterBlock: Uint8Array<any>): Uint8Array<any> {
+    if (!this._iv) throw new Error("Начальный счетчик (IV) необходим для режима CTR.")
+
+    const blockSize: number = this._iv.length
+    const counterBytes: number = this._options.counterBytes ?? blockSize / 2
+
+    counterBlock.set(this._iv)
+
+    let carry = this._counter
+    for (let k = blockSize - 1; k >= blockSize - counterBytes; k--) {
+      const sum = counterBlock[k] + (carry % 256)
+      counterBlock[k] = sum & 0xFF
+      carry = Math.floor(carry / 256) + (sum >> 8)
+    }
+    if (carry > 0) {
+      throw new Error("Счетчик режима CTR переполнен: смените nonce.");
+    }
+
+    this._counter++
+
+    return counterBlock
+  }
+
+  /**
+   * Добавляет набивку к данным.
+   * @param {Uint8Array} data - Исходные данные.
+   * @returns {Uint8Array} Данные с добавленной набивкой.
+   */
+  _addPadding(data: Uint8Array<any>): Uint8Array<any> {
+    const blockSize: number = this.getBlockSizeBytes()
+
+    let paddingLength = blockSize - (data.length % blockSize);
+    if (paddingLength === 0) {
+      paddingLength = blockSize; // Если данные кратны размеру блока, добавляем полный блок набивки
+    }
+
+    const paddedData = new Uint8Array(data.length + paddingLength);
+    paddedData.set(data);
+
+    switch (this._padding) {
+      case CipherPadding.Zeros:
+        // fill уже делает нули, так что ничего дополнительно не нужно
+        break;
+      case CipherPadding.ANSIX923:
+        paddedData.fill(0, data.length, paddedData.length - 1);
+        paddedData[paddedData.length - 1] = paddingLength;
+        break;
+      case CipherPadding.PKCS7:
+        paddedData.fill(paddingLength, data.length);
+        break;
+      case CipherPadding.ISO10126:
+        // Заполняем случайными байтами, последний байт - длина набивки
+        for (let i = data.length; i < paddedData.length - 1; i++) {
+          paddedData[i] = Math.floor(Math.random() * 256);
+        }
+        paddedData[paddedData.length - 1] = paddingLength;
+        break;
+      default:
+        throw new Error(`Неизвестный режим набивки: ${this._padding}`);
+    }
+    return paddedData;
+  }
+
+  /**
+   * Удаляет набивку из данных.
+   * @param {Uint8Array} data - Данные с набивкой.
+   * @returns {Uint8Array} Данные без набивки.
+   * @throws {Error} Если набивка некорректна.
+   */
+  _removePadding(data: Uint8Array<any>): Uint8Array<any> {
+    const blockSize: number = this.getBlockSizeBytes()
+
+    if (data.length % blockSize !== 0) {
+      throw new Error("Длина данных не кратна размеру блока после дешифрования.");
+    }
+
+    let paddingLength = 0;
+    switch (this._padding) {
+      case CipherPadding.Zeros:
+        // Для нулей сложно определить точную длину набивки без дополнительной информации.
+        // В реальных сценариях ZerosPadding часто используется, когда длина данных известна заранее
+        // или когда последние байты НЕ могут быть нулями в исходных данных.
+        // Здесь просто удаляем все конечные нули.
+        let i = data.length - 1;
+        while (i >= 0 && data[i] === 0) {
+          paddingLength++;
+          i--;
+        }
+        break;
+      case CipherPadding.ANSIX923:
+        paddingLength = data[data.length - 1];
+        if (paddingLength > blockSize || paddingLength === 0) {
+          throw new Error("Некорректная длина набивки ANSIX923.");
+        }
+        // Проверяем, что остальные байты набивки - нули
+        for (let j = 1; j < paddingLength; j++) {
+          if (data[data.length - 1 - j] !== 0) {
+            throw new Error("Некорректная набивка ANSIX923: не нулевые байты.");
+          }
+        }
+        break;
+      case CipherPadding.PKCS7:
+        paddingLength = data[data.length - 1];
+        if (paddingLength > blockSize || paddingLength === 0) {
+          throw new Error("Некорректная длина набивки PKCS7.");
+        }
+        // Проверяем, что все байты набивки имеют одинаковое значение
+        for (let j = 1; j <= paddingLength; j++) {
+          if (data[data.length - j] !== paddingLength) {
+            throw new Error("Некорректная набивка PKCS7: значения байтов не совпадают с длиной набивки.");
+          }
+        }
+        break;
+      case CipherPadding.ISO10126:
+        paddingLength = data[data.length - 1];
+        if (paddingLength > blockSize || paddingLength === 0) {
+          throw new Error("Некорректная длина набивки ISO10126.");
+        }
+        // Для ISO10126 мы не можем проверить случайные байты, только длину
+        break;
+      default:
+        throw new Error(`Неизвестный режим набивки: ${this._padding}`);
+    }
+
+    // Если данных недостаточно для заявленной длины набивки, это ошибка
+    if (data.length < paddingLength) {
+      throw new Error("Длина данных меньше предполагаемой длины набивки.");
+    }
+
+    return data.slice(0, data.length - paddingLength);
+  }
+
+  /**
+   * Формирует заголовок блока.
+   * Без blockCount - исходный 16-байтный формат (receiver_id, blockId, date), версия 0.
+   * С blockCount - версия BLOCK_HEADER_VERSION: байт версии, байт длины заголовка, те же поля
+   * и общее число блоков сообщения. Длина в заголовке позволяет добавлять поля, не ломая старых клиентов.
+   * По байтам форматы не различимы (receiver_id занимает все 32 бита), поэтому получатель
+   * должен знать формат заранее и передать его в parseBlockHeader.
+   * Заголовок также служит дополнительными аутентифицируемыми данными (AAD) для GCM.
+   * @param {number} blockId - Номер блока.
+   * @param {number} date - Временная метка сообщения.
+   * @param {number} receiver_id - Идентификатор получателя.
+   * @param {number} blockCount - Общее число блоков сообщения (необязательно).
+   * @returns {Uint8Array} Заголовок блока.
+   */
+  static blockHeader(blockId: number, date: number, receiver_id: number, blockCount?: number): Uint8Array {
+    if (blockCount === undefined) {
+      const headerBuffer = new ArrayBuffer(LEGACY_BLOCK_HEADER_SIZE);
+      const headerView = new DataView(headerBuffer);
+
+      headerView.setUint32(0, receiver_id, false);
+      headerView.setUint32(4, blockId, false);
+      headerView.setBigInt64(8, BigInt(date), false);
+
+      return new Uint8Array(headerBuffer);
+    }
+
+    const headerBuffer = new ArrayBuffer(BLOCK_HEADER_SIZE);
+    const headerView = new DataView(headerBuffer);
+
+    headerView.setUint8(0, BLOCK_HEADER_VERSION);
+    headerView.setUint8(1, BLOCK_HEADER_SIZE);
+    headerView.setUint32(2, receiver_id, false);
+    headerView.setUint32(6, blockId, false);
+    headerView.setBigInt64(10, BigInt(date), false);
+    headerView.setUint32(18, blockCount, false);
+
+    return new Uint8Array(headerBuffer);
+  }
+
+  static uploadBlockHeader(blockId: number, date: number, receiver_id: number, data: Uint8Array, blockCount?: number): Uint8Array {
+    const header = CipherContextBase.blockHeader(blockId, date, receiver_id, blockCount);
+
+    const combinedBlock = new Uint8Array(header.length + data.length);
+    combinedBlock.set(header, 0);
+    combinedBlock.set(data, header.length);
+
+    return combinedBlock;
+  }
+
+  /**
+   * Разбирает блок, сформированный uploadBlockHeader.
+   * Формат задается явно: по первому байту его определить нельзя, так как в исходном формате
+   * там находится старший байт receiver_id. Версионный заголовок начинается с номера версии
+   * (не меньше 1) и длины заголовка; неизвестные поля более новых версий пропускаются.
+   * @param {Uint8Array} block - Блок с заголовком.
+   * @param {boolean} [legacy=false] - Блок в исходном формате без версии (blockHeader без blockCount).
+   * @returns {ParsedBlock} Заголовок и полезная нагрузка.
+   * @throws {Error} Если блок короче заголовка или версия заголовка некорректна.
+   */
+  static parseBlockHeader(block: Uint8Array, legacy: boolean = false): ParsedBlock {
+    if (!block || block.length < 1) {
+      throw new Error("Блок слишком короткий для заголовка.");
+    }
+
+    const view = new DataView(block.buffer, block.byteOffset, block.byteLength);
+
+    if (legacy) {
+      if (block.length < LEGACY_BLOCK_HEADER_SIZE) {
+        throw new Error("Блок слишком короткий для заголовка.");
+      }
+
+      return {
+        header: {
+          version: 0,
+          receiverId: view.getUint32(0, false),
+          blockId: view.getUint32(4, false),
+          date: Number(view.getBigInt64(8, false)),
+          blockCount: null,
+        },
+        payload: block.subarray(LEGACY_BLOCK_HEADER_SIZE),
+      };
+    }
+
+    const version = block[0];
+    if (version === 0) {
+      throw new Error("Заголовок блока не содержит версии: для исходного формата укажите legacy.");
+    }
+
+    const headerLength = block.length >= 2 ? block[1] : 0;
+    if (headerLength < BLOCK_HEADER_SIZE || block.length < headerLength) {
+      throw new Error("Блок слишком короткий для заголовка.");
+    }
+
+    return {
+      header: {
+        version,
+        receiverId: view.getUint32(2, false),
+        blockId: view.getUint32(6, false),
+        date: Number(view.getBigInt64(10, false)),
+        blockCount: view.getUint32(18, false),
+      },
+      payload: block.subarray(headerLength),
+    };
+  }
+}
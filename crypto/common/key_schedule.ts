@@ -0,0 +1,117 @@
+/**
+ * @file Сериализация расширенного ключа для передачи в Web Worker.
+ * @fileoverview Раундовые ключи и таблицы S-боксов копируются в типизированные массивы,
+ * которые передаются через postMessage без повторного расширения ключа в каждом потоке.
+ * Мастер-ключ при этом не передается.
+ */
+
+import { NUM_ROUNDS as TWOFISH_NUM_ROUNDS } from "@/modules/crypto/common/constants/twoFish"
+import { NUM_ROUNDS as MACGUFFIN_NUM_ROUNDS } from "@/modules/crypto/common/constants/macGuffin"
+import { FeistelBlockCipher as TwoFishBlockCipher } from "@/modules/crypto/twoFish/FeistelBlockCipher"
+import { FeistelBlockCipher as MacGuffinBlockCipher } from "@/modules/crypto/macGuffin/FeistelBlockCipher"
+import { getSTable } from "@/modules/crypto/macGuffin/tools"
+import { CipherContext as TwoFishCipherContext } from "@/modules/crypto/twoFish/CipherContext"
+import { CipherContext as MacGuffinCipherContext } from "@/modules/crypto/macGuffin/CipherContext"
+
+import { CipherContextBase } from "@/modules/crypto/common/interfaces/CipherContext"
+import { IKeyExpansion } from "@/modules/crypto/common/interfaces/KeyExpansion"
+import { CipherAlgorithm, MacGuffinKey } from "@/modules/crypto/common/types"
+
+/**
+ * Расширенный ключ в виде, пригодном для structured clone.
+ * @property {CipherAlgorithm} algorithm - Алгоритм.
+ * @property {Uint32Array | Uint16Array} roundKeys - Раундовые ключи (twoFish - 40 слов, macGuffin - 96 полуслов).
+ * @property {Uint32Array[] | null} sBoxes - Таблицы полного ключевания twoFish (у macGuffin S-боксы не зависят от ключа).
+ */
+export interface SerializedKeySchedule {
+  algorithm: CipherAlgorithm
+  roundKeys: Uint32Array | Uint16Array
+  sBoxes: Uint32Array[] | null
+}
+
+/**
+ * Расширение ключа, восстановленное из сериализованного вида.
+ * @augments IKeyExpansion
+ */
+class RestoredKeyExpansion extends IKeyExpansion {
+  constructor(roundKeys: number[] | MacGuffinKey, sBoxes: Uint32Array[] | null) {
+    super();
+    this.roundKeys_ = roundKeys;
+    this.sBoxes_ = sBoxes;
+  }
+}
+
+/**
+ * Копирует расширенный ключ контекста.
+ * @param {CipherContextBase} context - Контекст с установленным ключом.
+ * @returns {SerializedKeySchedule} Сериализованный расширенный ключ.
+ * @throws {Error} Если раундовые ключи не установлены.
+ */
+export function serializeKeySchedule(context: CipherContextBase): SerializedKeySchedule {
+  const roundKeys = context.keyExpansion.roundKeys;
+  if (!roundKeys) {
+    throw new Error("Раундовые ключи не установлены.");
+  }
+
+  const algorithm = context.getAlgorithm();
+  if (algorithm === CipherAlgorithm.MacGuffin) {
+    return { algorithm, roundKeys: (roundKeys as MacGuffinKey).val.slice(), sBoxes: null };
+  }
+
+  const sBoxes = context.keyExpansion.sBoxes as Uint32Array[];
+  return {
+    algorithm,
+    roundKeys: Uint32Array.from(roundKeys as number[]),
+    sBoxes: sBoxes.map(table => table.slice()),
+  };
+}
+
+/**
+ * Создает контекст шифрования алгоритма без ключа.
+ * @param {CipherAlgorithm} algorithm - Алгоритм.
+ * @returns {CipherContextBase} Контекст.
+ * @throws {Error} Если алгоритм неизвестен.
+ */
+export function createCipherContext(algorithm: CipherAlgorithm): CipherContextBase {
+  switch (algorithm) {
+    case CipherAlgorithm.TwoFish:
+      return new TwoFishCipherContext();
+    case CipherAlgorithm.MacGuffin:
+      return new MacGuffinCipherContext();
+    default:
+      throw new Error(`Неизвестный алгоритм: ${algorithm}`);
+  }
+}
+
+/**
+ * Создает контекст шифрования по сериализованному расширенному ключу.
+ * @param {SerializedKeySchedule} schedule - Расширенный ключ.
+ * @returns {CipherContextBase} Контекст с установленными раундовыми ключами.
+ * @throws {Error} Если алгоритм неизвестен или данные ключа некорректны.
+ */
+export function deserializeKeySchedule(schedule: SerializedKeySchedule): CipherContextBase {
+  const context = createCipherContext(schedule.algorithm);
+
+  switch (schedule.algorithm) {
+    case CipherAlgorithm.TwoFish: {
+      if (schedule.roundKeys.length !== 40 || !schedule.sBoxes || schedule.sBoxes.length !== 4) {
+        throw new Error("Некорректный расширенный ключ twoFish.");
+      }
+      const keyExpansion = new RestoredKeyExpansion(Array.from(schedule.roundKeys), schedule.sBoxes);
+      context.setBlockCipher(new TwoFishBlockCipher(keyExpansion, TWOFISH_NUM_ROUNDS)).setKeyExpansion(keyExpansion);
+      break;
+    }
+    case CipherAlgorithm.MacGuffin: {
+      if (!(schedule.roundKeys instanceof Uint16Array)) {
+        throw new Error("Некорректный расширенный ключ macGuffin.");
+      }
+      const keyExpansion = new RestoredKeyExpansion({ val: schedule.roundKeys }, null);
+      context.setBlockCipher(new MacGuffinBlockCipher(getSTable(), MACGUFFIN_NUM_ROUNDS)).setKeyExpansion(keyExpansion);
+      break;
+    }
+    default:
+      throw new Error(`Неизвестный алгоритм: ${schedule.algorithm}`);
+  }
+
+  return context;
+}
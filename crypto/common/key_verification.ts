@@ -0,0 +1,117 @@
+/**
+ * @file Хранение результатов проверки ключей собеседников.
+ * @fileoverview Для каждого чата запоминается отпечаток публичного ключа собеседника
+ * и отметка о ручной проверке SAS. Смена ключа сбрасывает отметку и поднимает предупреждение.
+ */
+
+import { PublicKeyMaterial, publicKeyFingerprint } from "@/modules/crypto/common/sas"
+
+/**
+ * Минимальный интерфейс хранилища (совместим с localStorage).
+ */
+export interface KeyValueStorage {
+  getItem(key: string): string | null
+  setItem(key: string, value: string): void
+}
+
+/**
+ * Сохранённое состояние проверки ключа чата.
+ * @property {string} fingerprint - Отпечаток последнего принятого ключа собеседника.
+ * @property {boolean} verified - Пользователь сравнил SAS и подтвердил ключ.
+ */
+interface StoredKeyVerification {
+  fingerprint: string
+  verified: boolean
+}
+
+/**
+ * Результат проверки ключа собеседника.
+ * @property {boolean} verified - Текущий ключ подтверждён пользователем.
+ * @property {boolean} keyChanged - Ключ отличается от ранее принятого.
+ */
+export interface KeyVerificationStatus {
+  verified: boolean
+  keyChanged: boolean
+}
+
+/**
+ * Ключ записи в хранилище.
+ * @type {string}
+ */
+const STORAGE_KEY = "chat_key_verification"
+
+/**
+ * Хранилище отпечатков ключей собеседников и отметок о проверке.
+ */
+export class KeyVerificationStore {
+  private storage: KeyValueStorage;
+
+  /**
+   * @param {KeyValueStorage} [storage=localStorage] - Хранилище записей.
+   */
+  constructor(storage: KeyValueStorage = localStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * Сверяет ключ собеседника с запомненным. Первый увиденный ключ запоминается как непроверенный;
+   * при смене ключа запись не меняется до вызова acceptKeyChange.
+   * @param {string | number} chatId - Идентификатор чата.
+   * @param {PublicKeyMaterial} peerPublicKey - Текущий публичный ключ собеседника.
+   * @returns {Promise<KeyVerificationStatus>} Состояние проверки.
+   */
+  async check(chatId: string | number, peerPublicKey: PublicKeyMaterial): Promise<KeyVerificationStatus> {
+    const fingerprint = await publicKeyFingerprint(peerPublicKey);
+    const records = this.load();
+    const record = records[chatId];
+
+    if (!record) {
+      records[chatId] = { fingerprint, verified: false };
+      this.save(records);
+      return { verified: false, keyChanged: false };
+    }
+
+    if (record.fingerprint !== fingerprint) {
+      return { verified: false, keyChanged: true };
+    }
+
+    return { verified: record.verified, keyChanged: false };
+  }
+
+  /**
+   * Отмечает текущий ключ собеседника как проверенный (SAS совпали).
+   * @param {string | number} chatId - Идентификатор чата.
+   * @param {PublicKeyMaterial} peerPublicKey - Публичный ключ собеседника.
+   */
+  async markVerified(chatId: string | number, peerPublicKey: PublicKeyMaterial): Promise<void> {
+    const records = this.load();
+    records[chatId] = { fingerprint: await publicKeyFingerprint(peerPublicKey), verified: true };
+    this.save(records);
+  }
+
+  /**
+   * Принимает новый ключ собеседника после предупреждения о смене. Отметка о проверке сбрасывается.
+   * @param {string | number} chatId - Идентификатор чата.
+   * @param {PublicKeyMaterial} peerPublicKey - Новый публичный ключ собеседника.
+   */
+  async acceptKeyChange(chatId: string | number, peerPublicKey: PublicKeyMaterial): Promise<void> {
+    const records = this.load();
+    records[chatId] = { fingerprint: await publicKeyFingerprint(peerPublicKey), verified: false };
+    this.save(records);
+  }
+
+  private load(): Record<string, StoredKeyVerification> {
+    const raw = this.storage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return {};
+    }
+  }
+
+  private save(records: Record<string, StoredKeyVerification>): void {
+    this.storage.setItem(STORAGE_KEY, JSON.stringify(records));
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * @file Обертывание ключей (key wrap) по RFC 3394 / RFC 5649 поверх IBlockCipher.
+ * @fileoverview Ключ шифруется ключом шифрования ключей (KEK) с проверкой целостности:
+ * при развертывании искаженного блока или с неверным KEK выбрасывается AuthenticationError.
+ * Полублок равен половине блока шифра: 64 бита для twoFish (как в RFC), 32 бита для macGuffin.
+ */
+
+import { IBlockCipher } from "@/modules/crypto/common/interfaces/BlockCipher"
+import { MacGuffinKey } from "@/modules/crypto/common/types"
+
+import { AuthenticationError } from "@/modules/crypto/common/errors"
+import { constantTimeEqual } from "@/modules/crypto/common/bits_operation"
+
+/**
+ * Байт начального значения RFC 3394 (A6A6...).
+ * @type {number}
+ */
+const DEFAULT_IV_BYTE = 0xA6
+
+/**
+ * Префикс альтернативного начального значения RFC 5649 (A65959A6).
+ * @type {number[]}
+ */
+const PADDED_IV_PREFIX = [0xA6, 0x59, 0x59, 0xA6]
+
+/**
+ * Ключ шифрования ключей: блочный шифр и его раундовые ключи.
+ */
+export type KeyEncryptionKey = {
+  blockCipher: IBlockCipher;
+  roundKeys: MacGuffinKey | number[];
+};
+
+/**
+ * XOR счетчика t (big-endian) в правую часть полублока A.
+ * @param {Uint8Array} a - Полублок A (изменяется на месте).
+ * @param {number} t - Значение счетчика.
+ */
+function xorCounter(a: Uint8Array<any>, t: number): void {
+  for (let i = a.length - 1; i >= 0 && t > 0; i--) {
+    a[i] ^= t % 256;
+    t = Math.floor(t / 256);
+  }
+}
+
+/**
+ * Основной цикл обертывания (W из RFC 3394).
+ * @param {KeyEncryptionKey} kek - Ключ шифрования ключей.
+ * @param {Uint8Array} iv - Начальное значение A (полублок).
+ * @param {Uint8Array} plaintext - Данные, кратные полублоку, не менее двух полублоков.
+ * @returns {Uint8Array} Обернутые данные (на один полублок длиннее).
+ */
+function wrapCore(kek: KeyEncryptionKey, iv: Uint8Array<any>, plaintext: Uint8Array<any>): Uint8Array<any> {
+  const half = iv.length;
+  const n = plaintext.length / half;
+
+  let a = iv.slice();
+  const r = plaintext.slice();
+  const block = new Uint8Array(half * 2);
+
+  for (let j = 0; j <= 5; j++) {
+    for (let i = 0; i < n; i++) {
+      block.set(a, 0);
+      block.set(r.subarray(i * half, (i + 1) * half), half);
+
+      const b = kek.blockCipher.encryptBlock(block, kek.roundKeys);
+      a = b.slice(0, half);
+      xorCounter(a, n * j + i + 1);
+      r.set(b.subarray(half), i * half);
+    }
+  }
+
+  const result = new Uint8Array(plaintext.length + half);
+  result.set(a, 0);
+  result.set(r, half);
+  return result;
+}
+
+/**
+ * Основной цикл развертывания (W^-1 из RFC 3394).
+ * @param {KeyEncryptionKey} kek - Ключ шифрования ключей.
+ * @param {Uint8Array} wrapped - Обернутые данные.
+ * @param {number} half - Размер полублока.
+ * @returns {{ a: Uint8Array, plaintext: Uint8Array }} Восстановленное A и данные.
+ */
+function unwrapCore(kek: KeyEncryptionKey, wrapped: Uint8Array<any>, half: number): { a: Uint8Array<any>, plaintext: Uint8Array<any> } {
+  const n = wrapped.length / half - 1;
+
+  const a = wrapped.slice(0, half);
+  const r = wrapped.slice(half);
+  const block = new Uint8Array(half * 2);
+
+  for (let j = 5; j >= 0; j--) {
+    for (let i = n - 1; i >= 0; i--) {
+      xorCounter(a, n * j + i + 1);
+      block.set(a, 0);
+      block.set(r.subarray(i * half, (i + 1) * half), half);
+
+      const b = kek.blockCipher.decryptBlock(block, kek.roundKeys);
+      a.set(b.subarray(0, half));
+      r.set(b.subarray(half), i * half);
+    }
+  }
+
+  return { a, plaintext: r };
+}
+
+/**
+ * Оборачивает ключ по RFC 3394.
+ * @param {KeyEncryptionKey} kek - Ключ шифрования ключей.
+ * @param {Uint8Array} key - Ключ, кратный полублоку, не короче двух полублоков.
+ * @returns {Uint8Array} Обернутый ключ.
+ * @throws {Error} Если длина ключа некорректна.
+ */
+export function wrapKey(kek: KeyEncryptionKey, key: Uint8Array<any>): Uint8Array<any> {
+  const half = kek.blockCipher.getBlockSizeBytes() / 2;
+  if (key.length < 2 * half || key.length % half !== 0) {
+    throw new Error(`Длина обертываемого ключа должна быть кратна ${half} байт и не меньше ${2 * half} байт.`);
+  }
+
+  return wrapCore(kek, new Uint8Array(half).fill(DEFAULT_IV_BYTE), key);
+}
+
+/**
+ * Разворачивает ключ, обернутый wrapKey, и проверяет целостность.
+ * @param {KeyEncryptionKey} kek - Ключ шифрования ключей.
+ * @param {Uint8Array} wrapped - Обернутый ключ.
+ * @returns {Uint8Array} Исходный ключ.
+ * @throws {AuthenticationError} Если данные искажены или KEK неверен.
+ */
+export function unwrapKey(kek: KeyEncryptionKey, wrapped: Uint8Array<any>): Uint8Array<any> {
+  const half = kek.blockCipher.getBlockSizeBytes() / 2;
+  if (wrapped.length < 3 * half || wrapped.length % half !== 0) {
+    throw new AuthenticationError("Некорректная длина обернутого ключа.");
+  }
+
+  const { a, plaintext } = unwrapCore(kek, wrapped, half);
+  if (!constantTimeEqual(a, new Uint8Array(half).fill(DEFAULT_IV_BYTE))) {
+    throw new AuthenticationError("Не удалось развернуть ключ: данные повреждены или ключ шифрования неверен.");
+  }
+  return plaintext;
+}
+
+/**
+ * Оборачивает ключ произвольной длины с дополнением по RFC 5649.
+ * @param {KeyEncryptionKey} kek - Ключ шифрования ключей (блок 128 бит).
+ * @param {Uint8Array} key - Непустой ключ.
+ * @returns {Uint8Array} Обернутый ключ.
+ * @throws {Error} Если ключ пуст или шифр не 128-битный.
+ */
+export function wrapKeyWithPadding(kek: KeyEncryptionKey, key: Uint8Array<any>): Uint8Array<any> {
+  const half = kek.blockCipher.getBlockSizeBytes() / 2;
+  if (half !== 8) {
+    throw new Error("Обертывание с дополнением (RFC 5649) требует 128-битного блочного шифра.");
+  }
+  if (key.length === 0 || key.length > 0xFFFFFFFF) {
+    throw new Error("Длина обертываемого ключа некорректна.");
+  }
+
+  const iv = new Uint8Array(half);
+  iv.set(PADDED_IV_PREFIX, 0);
+  new DataView(iv.buffer).setUint32(4, key.length, false);
+
+  const padded = new Uint8Array(Math.ceil(key.length / half) * half);
+  padded.set(key);
+
+  if (padded.length === half) {
+    const block = new Uint8Array(2 * half);
+    block.set(iv, 0);
+    block.set(padded, half);
+    return kek.blockCipher.encryptBlock(block, kek.roundKeys);
+  }
+  return wrapCore(kek, iv, padded);
+}
+
+/**
+ * Разворачивает ключ, обернутый wrapKeyWithPadding.
+ * @param {KeyEncryptionKey} kek - Ключ шифрования ключей (блок 128 бит).
+ * @param {Uint8Array} wrapped - Обернутый ключ.
+ * @returns {Uint8Array} Исходный ключ.
+ * @throws {AuthenticationError} Если данные искажены или KEK неверен.
+ */
+export function unwrapKeyWithPadding(kek: KeyEncryptionKey, wrapped: Uint8Array<any>): Uint8Array<any> {
+  const half = kek.blockCipher.getBlockSizeBytes() / 2;
+  if (half !== 8) {
+    throw new Error("Обертывание с дополнением (RFC 5649) требует 128-битного блочного шифра.");
+  }
+  if (wrapped.length < 2 * half || wrapped.length % half !== 0) {
+    throw new AuthenticationError("Некорректная длина обернутого ключа.");
+  }
+
+  let a: Uint8Array<any>;
+  let plaintext: Uint8Array<any>;
+  if (wrapped.length === 2 * half) {
+    const block = kek.blockCipher.decryptBlock(wrapped, kek.roundKeys);
+    a = block.slice(0, half);
+    plaintext = block.slice(half);
+  } else {
+    ({ a, plaintext } = unwrapCore(kek, wrapped, half));
+  }
+
+  const length = new DataView(a.buffer, a.byteOffset, a.byteLength).getUint32(4, false);
+  let valid = constantTimeEqual(a.subarray(0, 4), new Uint8Array(PADDED_IV_PREFIX));
+  valid = valid && length > plaintext.length - half && length <= plaintext.length;
+  valid = valid && plaintext.subarray(length).every(byte => byte === 0);
+
+  if (!valid) {
+    throw new AuthenticationError("Не удалось развернуть ключ: данные повреждены или ключ шифрования неверен.");
+  }
+  return plaintext.slice(0, length);
+}
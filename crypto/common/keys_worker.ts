@@ -1,134 +1,313 @@
-export async function encryptKey(key: string, masterKey: string): Promise<string> {
-  // Наша логика шифрования
-  return btoa(key + masterKey);
-}
-
-export async function decryptKey(encryptedKey: string, masterKey: string): Promise<string> {
-  const decrypted = atob(encryptedKey);
-  if (decrypted.endsWith(masterKey)) {
-    return decrypted.slice(0, -masterKey.length);
-  }
-  throw new Error('Invalid key');
-}
-
-export function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
-  if (modulus === 1n) return 0n;
-  let result = 1n;
-  base = base % modulus;
-  while (exponent > 0n) {
-    if (exponent % 2n === 1n) {
-      result = (result * base) % modulus;
-    }
-    base = (base * base) % modulus;
-    exponent = exponent >> 1n; // Оператор побитового сдвига для деления на 2
-  }
-  return result;
-}
-
-export function generateRandomBigInt(max: bigint): bigint {
-  const byteLength = Math.ceil(Number(max.toString(2).length) / 8);
-  const array = new Uint8Array(byteLength);
-
-  window.crypto.getRandomValues(array);
-
-  let randomValue = 0n;
-
-  for (let i = 0; i < byteLength; i++) {
-    randomValue = (randomValue << 8n) | BigInt(array[i]);
-  }
-  return randomValue % max;
-}
-
-export function generateDHKeys({p, g}: any) : { publicKey: bigint, privateKey: bigint } {
-  const a: bigint = generateRandomBigInt(p - 1n);
-
-  const A = modPow(g, a, p)
-
-  console.log("Новый приватный ключ (a):", a.toString());
-  console.log("Новый публичный ключ (A):", A.toString());
-
-  return { publicKey: A, privateKey: a };
-}
-
-export function base64ToArrayBuffer(base64: string): ArrayBuffer {
-  const binaryString = window.atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-
-  return bytes.buffer;
-}
-
-export function arrayBufferToBase64(buffer: ArrayBuffer): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-
-    reader.onload = () => {
-      const base64String = (reader.result as string).split(',')[1];
-      resolve(base64String);
-    };
-
-    reader.onerror = (error) => reject(error);
-
-    reader.readAsDataURL(new Blob([buffer]));
-  });
-}
-
-export async function generateFixedLengthKey(
-  keyString: string,
-  length: 16 | 24 | 32
-): Promise<string> {
-  let hashAlgorithm: 'SHA-256' | 'SHA-384';
-
-  switch (length) {
-    case 16:
-      hashAlgorithm = 'SHA-256';
-      break;
-    case 24:
-      hashAlgorithm = 'SHA-384';
-      break;
-    case 32:
-      hashAlgorithm = 'SHA-256';
-      break;
-    default:
-      throw new Error('Unsupported key length. Use 16, 24, or 32.');
-  }
-
-  const encoder = new TextEncoder();
-  const data = encoder.encode(keyString);
-
-  const hashBuffer = await crypto.subtle.digest(hashAlgorithm, data);
-
-  const resultBytes = new Uint8Array(hashBuffer);
-
-  const decoder = new TextDecoder('utf-8');
-  return decoder.decode(resultBytes.slice(0, length));
-}
-
-/**
- * Генерирует криптографически стойкий IV для блочного шифра.
- * @param {number} ivLength - Длина IV в байтах.
- * @returns {Uint8Array} Сгенерированный вектор инициализации
- */
-export async function generateIV(ivLength: number): Promise<Uint8Array> {
-  if (typeof window === 'undefined' || !window.crypto || !window.crypto.getRandomValues) {
-    throw new Error('Web Crypto API не поддерживается в этом окружении.')
-  }
-
-  const iv = new Uint8Array(ivLength)
-
-  window.crypto.getRandomValues(iv)
-
-  return iv
-}
-
-export const stringToUint8Array = (str: string) => {
-  return new TextEncoder().encode(str);
-}
-
-export const uint8ArrayToString = (arr: any) => {
-  return new TextDecoder().decode(arr);
+import { CipherContext } from "@/modules/crypto/twoFish/CipherContext"
+import { KeyEncryptionKey, unwrapKeyWithPadding, wrapKeyWithPadding } from "@/modules/crypto/common/key_wrap"
+import { hkdf } from "@/modules/crypto/common/hkdf"
+import { digest } from "@/modules/crypto/common/sha2"
+import { concatBytes } from "@/modules/crypto/common/bits_operation"
+import { base64ToBytes, bytesToBase64, randomBytes } from "@/modules/crypto/common/platform"
+import { generateRandomBigInt, modPow } from "@/modules/crypto/common/bigint_math"
+import { DEFAULT_DH_GROUP, DH_GROUPS, DHGroup, DHGroupName } from "@/modules/crypto/common/constants/dhGroups"
+import { deriveBitsPBKDF2, PBKDF2_SHA256_ITERATIONS } from "@/modules/crypto/kdf"
+
+/**
+ * Версия формата ключа, обернутого паролем: version (1) | salt (16) | iterations (4, big-endian) | wrapped.
+ * @type {number}
+ */
+const PASSWORD_WRAP_VERSION = 1
+
+/**
+ * Длина соли PBKDF2 в байтах.
+ * @type {number}
+ */
+const KEK_SALT_SIZE = 16
+
+/**
+ * Верхняя граница итераций в обернутом ключе: защищает от подделанного заголовка.
+ * @type {number}
+ */
+const KEK_PBKDF2_MAX_ITERATIONS = 10000000
+
+/**
+ * Длина заголовка ключа, обернутого паролем.
+ * @type {number}
+ */
+const PASSWORD_WRAP_HEADER_SIZE = 1 + KEK_SALT_SIZE + 4
+
+/**
+ * Готовит ключ шифрования ключей twoFish из байтов ключа (16/24/32 байта).
+ * @param {Uint8Array} keyBytes - Ключ.
+ * @returns {KeyEncryptionKey} Ключ шифрования ключей.
+ */
+function createKeyEncryptionKey(keyBytes: Uint8Array): KeyEncryptionKey {
+  const context = new CipherContext();
+  context.setMasterKey(keyBytes);
+
+  return { blockCipher: context.blockCipher, roundKeys: context.keyExpansion.roundKeys as number[] };
+}
+
+/**
+ * Выводит ключ шифрования ключей из пароля через PBKDF2-SHA-256.
+ * @param {string} password - Пароль.
+ * @param {Uint8Array} salt - Соль.
+ * @param {number} iterations - Количество итераций.
+ * @returns {Promise<KeyEncryptionKey>} Ключ шифрования ключей.
+ */
+async function derivePasswordKeyEncryptionKey(password: string, salt: Uint8Array, iterations: number): Promise<KeyEncryptionKey> {
+  return createKeyEncryptionKey(await deriveBitsPBKDF2(password, salt, iterations, 256, 'SHA-256'));
+}
+
+/**
+ * Оборачивает ключ мастер-ключом (RFC 5649 поверх twoFish).
+ * Строковый мастер-ключ считается паролем: KEK выводится PBKDF2 со случайной солью,
+ * соль и число итераций сохраняются перед обернутым ключом. Байтовый используется как есть.
+ * Без SubtleCrypto PBKDF2 выполняется в текущем потоке и занимает несколько секунд
+ * (см. deriveBitsPBKDF2Fallback).
+ * @param {Uint8Array} key - Ключ чата.
+ * @param {string | Uint8Array} masterKey - Мастер-ключ.
+ * @returns {Promise<Uint8Array>} Обернутый ключ.
+ */
+export async function encryptKeyBytes(key: Uint8Array, masterKey: string | Uint8Array): Promise<Uint8Array> {
+  if (typeof masterKey !== 'string') {
+    return wrapKeyWithPadding(createKeyEncryptionKey(masterKey), key);
+  }
+
+  const salt = randomBytes(KEK_SALT_SIZE);
+  const header = new Uint8Array(PASSWORD_WRAP_HEADER_SIZE);
+  header[0] = PASSWORD_WRAP_VERSION;
+  header.set(salt, 1);
+  new DataView(header.buffer).setUint32(1 + KEK_SALT_SIZE, PBKDF2_SHA256_ITERATIONS, false);
+
+  const kek = await derivePasswordKeyEncryptionKey(masterKey, salt, PBKDF2_SHA256_ITERATIONS);
+  return concatBytes(header, wrapKeyWithPadding(kek, key));
+}
+
+/**
+ * Разворачивает ключ, обернутый encryptKeyBytes. Ключи исходного формата хранилища
+ * сначала переводятся в текущий через migrateLegacyKey.
+ * @param {Uint8Array} encryptedKey - Обернутый ключ.
+ * @param {string | Uint8Array} masterKey - Мастер-ключ.
+ * @returns {Promise<Uint8Array>} Ключ чата.
+ * @throws {AuthenticationError} Если данные искажены или мастер-ключ неверен.
+ * @throws {Error} Если формат не поддерживается или число итераций в заголовке некорректно.
+ */
+export async function decryptKeyBytes(encryptedKey: Uint8Array, masterKey: string | Uint8Array): Promise<Uint8Array> {
+  if (typeof masterKey !== 'string') {
+    return unwrapKeyWithPadding(createKeyEncryptionKey(masterKey), encryptedKey);
+  }
+
+  if (encryptedKey.length <= PASSWORD_WRAP_HEADER_SIZE || encryptedKey[0] !== PASSWORD_WRAP_VERSION) {
+    throw new Error('Неподдерживаемый формат обернутого ключа.');
+  }
+
+  const salt = encryptedKey.slice(1, 1 + KEK_SALT_SIZE);
+  const view = new DataView(encryptedKey.buffer, encryptedKey.byteOffset, encryptedKey.byteLength);
+  const iterations = view.getUint32(1 + KEK_SALT_SIZE, false);
+  if (iterations === 0 || iterations > KEK_PBKDF2_MAX_ITERATIONS) {
+    throw new Error(`Некорректное число итераций PBKDF2: ${iterations}.`);
+  }
+
+  const kek = await derivePasswordKeyEncryptionKey(masterKey, salt, iterations);
+  return unwrapKeyWithPadding(kek, encryptedKey.subarray(PASSWORD_WRAP_HEADER_SIZE));
+}
+
+/**
+ * Оборачивает строковый ключ мастер-ключом и кодирует результат в base64.
+ * @param {string} key - Ключ чата.
+ * @param {string | Uint8Array} masterKey - Мастер-ключ.
+ * @returns {Promise<string>} Обернутый ключ в base64.
+ */
+export async function encryptKey(key: string, masterKey: string | Uint8Array): Promise<string> {
+  const wrapped = await encryptKeyBytes(stringToUint8Array(key), masterKey);
+  return bytesToBase64(wrapped);
+}
+
+/**
+ * Разворачивает ключ из base64, обернутый encryptKey.
+ * @param {string} encryptedKey - Обернутый ключ в base64.
+ * @param {string | Uint8Array} masterKey - Мастер-ключ.
+ * @returns {Promise<string>} Ключ чата.
+ * @throws {AuthenticationError} Если данные искажены или мастер-ключ неверен.
+ */
+export async function decryptKey(encryptedKey: string, masterKey: string | Uint8Array): Promise<string> {
+  const unwrapped = await decryptKeyBytes(base64ToBytes(encryptedKey), masterKey);
+  return uint8ArrayToString(unwrapped);
+}
+
+/**
+ * Однократно переводит ключ из исходного формата хранилища, где ключ хранился открыто
+ * как btoa(key + masterKey), в формат encryptKey. Результат нужно сохранить вместо исходного
+ * значения; decryptKey исходный формат не принимает.
+ * @param {string} storedKey - Значение из хранилища.
+ * @param {string} masterKey - Пароль, с которым ключ был сохранен.
+ * @returns {Promise<string | null>} Ключ в формате encryptKey или null, если значение не в исходном формате.
+ */
+export async function migrateLegacyKey(storedKey: string, masterKey: string): Promise<string | null> {
+  let decoded: string;
+  try {
+    decoded = atob(storedKey);
+  } catch {
+    return null;
+  }
+
+  if (!masterKey || decoded.length <= masterKey.length || !decoded.endsWith(masterKey)) {
+    return null;
+  }
+  return encryptKey(decoded.slice(0, -masterKey.length), masterKey);
+}
+
+/**
+ * Возвращает параметры группы Диффи-Хеллмана по имени или проверяет переданные параметры.
+ * @param {DHGroupName | DHGroup} group - Имя встроенной группы или собственные параметры.
+ * @returns {DHGroup} Параметры группы.
+ * @throws {Error} Если группа неизвестна или параметры некорректны.
+ */
+export function resolveDHGroup(group: DHGroupName | DHGroup): DHGroup {
+  if (typeof group === 'string') {
+    const known = DH_GROUPS[group];
+    if (!known) {
+      throw new Error(`Неизвестная группа Диффи-Хеллмана: ${group}`);
+    }
+    return known;
+  }
+
+  const { p, g, q } = group;
+  if (typeof p !== 'bigint' || typeof g !== 'bigint' || p <= 3n || g <= 1n || g >= p - 1n) {
+    throw new Error('Некорректные параметры группы Диффи-Хеллмана.');
+  }
+  if (q !== undefined && (q <= 1n || (p - 1n) % q !== 0n)) {
+    throw new Error('Порядок подгруппы должен делить p - 1.');
+  }
+  return group;
+}
+
+/**
+ * Проверяет публичный ключ собеседника: 1 < A < p - 1 и, если известен порядок подгруппы q, A^q ≡ 1 (mod p).
+ * @param {bigint} publicKey - Публичный ключ собеседника.
+ * @param {DHGroupName | DHGroup} group - Группа Диффи-Хеллмана.
+ * @throws {Error} Если ключ не принадлежит группе.
+ */
+export function validateDHPublicKey(publicKey: bigint, group: DHGroupName | DHGroup = DEFAULT_DH_GROUP): void {
+  const { p, q } = resolveDHGroup(group);
+
+  if (publicKey <= 1n || publicKey >= p - 1n) {
+    throw new Error('Публичный ключ Диффи-Хеллмана вне допустимого диапазона.');
+  }
+  if (q !== undefined && modPow(publicKey, q, p) !== 1n) {
+    throw new Error('Публичный ключ Диффи-Хеллмана не принадлежит подгруппе генератора.');
+  }
+}
+
+/**
+ * Генерирует пару ключей Диффи-Хеллмана. Приватный ключ выбирается из [2, q - 1]
+ * (или [2, p - 2], если порядок подгруппы неизвестен) и никуда не выводится.
+ * @param {DHGroupName | DHGroup} group - Имя встроенной группы или собственные параметры.
+ * @returns {{ publicKey: bigint, privateKey: bigint }} Пара ключей.
+ */
+export function generateDHKeys(group: DHGroupName | DHGroup = DEFAULT_DH_GROUP) : { publicKey: bigint, privateKey: bigint } {
+  const { p, g, q } = resolveDHGroup(group);
+  const upper = q ?? p - 1n;
+
+  const a: bigint = 2n + generateRandomBigInt(upper - 2n);
+
+  const A = modPow(g, a, p)
+
+  return { publicKey: A, privateKey: a };
+}
+
+/**
+ * Вычисляет общий секрет Диффи-Хеллмана после проверки публичного ключа собеседника.
+ * Результат — big-endian запись B^a mod p фиксированной длины (длина p в байтах),
+ * поэтому обе стороны получают одинаковые байты.
+ * @param {bigint} privateKey - Собственный приватный ключ.
+ * @param {bigint} peerPublicKey - Публичный ключ собеседника.
+ * @param {DHGroupName | DHGroup} group - Группа Диффи-Хеллмана.
+ * @returns {Uint8Array} Общий секрет.
+ * @throws {Error} Если ключ собеседника некорректен.
+ */
+export function computeSharedSecret(
+  privateKey: bigint,
+  peerPublicKey: bigint,
+  group: DHGroupName | DHGroup = DEFAULT_DH_GROUP
+): Uint8Array {
+  const resolved = resolveDHGroup(group);
+  validateDHPublicKey(peerPublicKey, resolved);
+
+  const { p } = resolved;
+  let secret = modPow(peerPublicKey, privateKey, p);
+  if (secret <= 1n) {
+    throw new Error('Получен вырожденный общий секрет Диффи-Хеллмана.');
+  }
+
+  const length = Math.ceil(p.toString(16).length / 2);
+  const bytes = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(secret & 0xffn);
+    secret >>= 8n;
+  }
+  return bytes;
+}
+
+export function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  return base64ToBytes(base64).buffer as ArrayBuffer;
+}
+
+export function arrayBufferToBase64(buffer: ArrayBuffer): Promise<string> {
+  return Promise.resolve(bytesToBase64(buffer));
+}
+
+/**
+ * Выводит ключ фиксированной длины из строки через HKDF-SHA-256.
+ * Для общего секрета Диффи-Хеллмана используйте deriveTwoFishKey / deriveMacGuffinKey.
+ * @param {string} keyString - Исходная строка.
+ * @param {16 | 24 | 32} length - Длина ключа в байтах.
+ * @returns {Promise<Uint8Array>} Сырые байты ключа.
+ * @throws {Error} Если длина не поддерживается.
+ */
+export async function deriveFixedLengthKeyBytes(
+  keyString: string,
+  length: 16 | 24 | 32
+): Promise<Uint8Array> {
+  if (length !== 16 && length !== 24 && length !== 32) {
+    throw new Error('Unsupported key length. Use 16, 24, or 32.');
+  }
+
+  return hkdf(stringToUint8Array(keyString), length);
+}
+
+/**
+ * Прежний вывод ключа: хеш строки, декодированный как UTF-8. Сохранен для совместимости
+ * с уже сохраненными ключами; при декодировании часть байтов заменяется, поэтому длина
+ * результата в байтах не гарантирована.
+ * @deprecated Используйте deriveFixedLengthKeyBytes.
+ * @param {string} keyString - Исходная строка.
+ * @param {16 | 24 | 32} length - Длина ключа в байтах.
+ * @returns {Promise<string>} Ключ в виде строки.
+ * @throws {Error} Если длина не поддерживается.
+ */
+export async function generateFixedLengthKey(
+  keyString: string,
+  length: 16 | 24 | 32
+): Promise<string> {
+  if (length !== 16 && length !== 24 && length !== 32) {
+    throw new Error('Unsupported key length. Use 16, 24, or 32.');
+  }
+
+  const hashBytes = await digest(length === 24 ? 'SHA-384' : 'SHA-256', stringToUint8Array(keyString));
+  return new TextDecoder('utf-8').decode(hashBytes.slice(0, length));
+}
+
+/**
+ * Генерирует криптографически стойкий IV для блочного шифра.
+ * @param {number} ivLength - Длина IV в байтах.
+ * @returns {Uint8Array} Сгенерированный вектор инициализации
+ */
+export async function generateIV(ivLength: number): Promise<Uint8Array> {
+  return randomBytes(ivLength)
+}
+
+export const stringToUint8Array = (str: string) => {
+  return new TextEncoder().encode(str);
+}
+
+export const uint8ArrayToString = (arr: any) => {
+  return new TextDecoder().decode(arr);
 }
\ No newline at end of file
@@ -0,0 +1,117 @@
+/**
+ * @file Платформенный слой криптографического модуля.
+ * @fileoverview Единая точка доступа к источнику случайности, base64 и чтению байт из Blob.
+ * Не обращается к window, поэтому код шифров одинаково работает в браузере,
+ * в выделенном Web Worker и в Node.js 20.
+ */
+
+/**
+ * Максимальный размер порции для crypto.getRandomValues (ограничение Web Crypto API).
+ * @type {number}
+ */
+const RANDOM_CHUNK_SIZE_BYTES = 65536
+
+/**
+ * Размер порции при построении строк для btoa, чтобы не переполнить стек в String.fromCharCode.
+ * @type {number}
+ */
+const BASE64_CHUNK_SIZE_BYTES = 0x8000
+
+/**
+ * Заполняет массив криптографически стойкими случайными байтами.
+ * @param {Uint8Array} array - Заполняемый массив.
+ * @returns {Uint8Array} Тот же массив.
+ * @throws {Error} Если криптографический генератор недоступен.
+ */
+export function fillRandom(array: Uint8Array): Uint8Array {
+  if (typeof crypto === "undefined" || typeof crypto.getRandomValues !== "function") {
+    throw new Error("Криптографически стойкий генератор случайных чисел недоступен в этом окружении.");
+  }
+
+  for (let offset = 0; offset < array.length; offset += RANDOM_CHUNK_SIZE_BYTES) {
+    crypto.getRandomValues(array.subarray(offset, offset + RANDOM_CHUNK_SIZE_BYTES));
+  }
+  return array;
+}
+
+/**
+ * Возвращает новый массив случайных байт.
+ * @param {number} length - Длина в байтах.
+ * @returns {Uint8Array} Случайные байты.
+ */
+export function randomBytes(length: number): Uint8Array {
+  return fillRandom(new Uint8Array(length));
+}
+
+/**
+ * Кодирует байты в base64.
+ * @param {Uint8Array | ArrayBuffer} data - Данные.
+ * @returns {string} Строка base64.
+ */
+export function bytesToBase64(data: Uint8Array | ArrayBuffer): string {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+  let binary = "";
+  for (let offset = 0; offset < bytes.length; offset += BASE64_CHUNK_SIZE_BYTES) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(offset, offset + BASE64_CHUNK_SIZE_BYTES)));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Декодирует строку base64 в байты.
+ * @param {string} base64 - Строка base64.
+ * @returns {Uint8Array} Байты.
+ * @throws {Error} Если строка не является корректным base64.
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  let binary: string;
+  try {
+    binary = atob(base64);
+  } catch {
+    throw new Error("Некорректная строка base64.");
+  }
+
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Читает байты из Blob (или File) в диапазоне [start, end).
+ * Использует Blob.arrayBuffer(), а в старых браузерах — FileReader.
+ * @param {Blob} blob - Источник.
+ * @param {number} [start=0] - Начало диапазона.
+ * @param {number} [end=blob.size] - Конец диапазона.
+ * @returns {Promise<Uint8Array>} Прочитанные байты.
+ */
+export async function readBlobBytes(blob: Blob, start: number = 0, end: number = blob.size): Promise<Uint8Array> {
+  const slice = blob.slice(start, end);
+
+  if (typeof slice.arrayBuffer === "function") {
+    return new Uint8Array(await slice.arrayBuffer());
+  }
+
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(slice);
+  });
+}
+
+/**
+ * Создаёт File с именем, а там, где конструктор File недоступен, — Blob.
+ * @param {BlobPart[]} parts - Содержимое.
+ * @param {string} name - Имя файла.
+ * @param {string} type - MIME-тип.
+ * @returns {Blob} File или Blob.
+ */
+export function createFile(parts: BlobPart[], name: string, type: string): Blob {
+  if (typeof File === "function") {
+    return new File(parts, name, { type });
+  }
+  return new Blob(parts, { type });
+}
@@ -0,0 +1,248 @@
+/**
+ * @file Симметричный храповик (KDF-цепочка) для прямой секретности.
+ * @fileoverview Каждое сообщение и каждый фрагмент файла шифруются собственным ключом,
+ * выведенным из ключа цепочки. После шага старый ключ цепочки затирается, поэтому утечка
+ * текущего состояния не раскрывает ранее отправленные данные.
+ */
+
+import { hkdf } from "@/modules/crypto/common/hkdf"
+import { CipherAlgorithm } from "@/modules/crypto/common/types"
+
+/**
+ * Размер ключа цепочки в байтах.
+ * @type {number}
+ */
+export const CHAIN_KEY_SIZE_BYTES = 32
+
+/**
+ * Максимальное количество пропущенных ключей в кэше по умолчанию.
+ * @type {number}
+ */
+export const DEFAULT_MAX_SKIPPED_KEYS = 1000
+
+/**
+ * Метка контекста HKDF для шага храповика.
+ * @type {string}
+ */
+const RATCHET_INFO = "chat-ratchet-step"
+
+/**
+ * Параметры храповика.
+ * @property {CipherAlgorithm} algorithm - Алгоритм, для которого выводятся ключи сообщений.
+ * @property {16 | 24 | 32} [keyLength=32] - Длина ключа twoFish (для MacGuffin всегда 16).
+ * @property {number} [maxSkippedKeys=1000] - Предел кэша пропущенных ключей и допустимого забегания вперёд.
+ */
+export interface RatchetOptions {
+  algorithm: CipherAlgorithm
+  keyLength?: 16 | 24 | 32
+  maxSkippedKeys?: number
+}
+
+/**
+ * Ключ отдельного сообщения или фрагмента.
+ * @property {number} index - Номер ключа в цепочке.
+ * @property {Uint8Array} key - Мастер-ключ для setMasterKey.
+ */
+export interface MessageKey {
+  index: number
+  key: Uint8Array
+}
+
+/**
+ * Симметричный храповик: из общего секрета чата (например, HKDF от общего секрета DH)
+ * последовательно выводит ключи сообщений. Отправитель и получатель ведут по отдельной цепочке.
+ */
+export class SymmetricRatchet {
+  private chainKey: Uint8Array;
+  private nextIndex: number = 0;
+  private readonly keyLength: number;
+  private readonly maxSkippedKeys: number;
+  private readonly skippedKeys: Map<number, Uint8Array> = new Map();
+  private queue: Promise<unknown> = Promise.resolve();
+  private destroyed: boolean = false;
+
+  /**
+   * @param {Uint8Array} chainKey - Начальный ключ цепочки (32 байта). Копируется.
+   * @param {RatchetOptions} options - Алгоритм и ограничения кэша.
+   * @throws {Error} Если ключ цепочки или параметры некорректны.
+   */
+  constructor(chainKey: Uint8Array, options: RatchetOptions) {
+    if (!(chainKey instanceof Uint8Array) || chainKey.length !== CHAIN_KEY_SIZE_BYTES) {
+      throw new Error(`Ключ цепочки должен быть Uint8Array длиной ${CHAIN_KEY_SIZE_BYTES} байта.`);
+    }
+
+    switch (options.algorithm) {
+      case CipherAlgorithm.TwoFish:
+        this.keyLength = options.keyLength ?? 32;
+        if (![16, 24, 32].includes(this.keyLength)) {
+          throw new Error("Неподдерживаемая длина ключа twoFish. Используйте 16, 24 или 32.");
+        }
+        break;
+      case CipherAlgorithm.MacGuffin:
+        this.keyLength = 16;
+        break;
+      default:
+        throw new Error("Неизвестный алгоритм шифрования.");
+    }
+
+    const maxSkippedKeys = options.maxSkippedKeys ?? DEFAULT_MAX_SKIPPED_KEYS;
+    if (!Number.isInteger(maxSkippedKeys) || maxSkippedKeys < 0) {
+      throw new Error("Размер кэша пропущенных ключей должен быть неотрицательным целым числом.");
+    }
+    this.maxSkippedKeys = maxSkippedKeys;
+
+    this.chainKey = chainKey.slice();
+  }
+
+  /**
+   * Номер следующего ключа цепочки.
+   * @returns {number} Номер.
+   */
+  getNextIndex(): number {
+    return this.nextIndex;
+  }
+
+  /**
+   * Количество ключей в кэше пропущенных сообщений.
+   * @returns {number} Размер кэша.
+   */
+  getSkippedKeyCount(): number {
+    return this.skippedKeys.size;
+  }
+
+  /**
+   * Выдаёт ключ для следующего отправляемого сообщения или фрагмента.
+   * @returns {Promise<MessageKey>} Номер и ключ.
+   */
+  nextKey(): Promise<MessageKey> {
+    return this.enqueue(async () => {
+      const index = this.nextIndex;
+      return { index, key: await this.step() };
+    });
+  }
+
+  /**
+   * Выдаёт ключ для полученного сообщения с номером index. Ключи пропущенных сообщений
+   * сохраняются в ограниченном кэше, чтобы доставка не по порядку не мешала расшифрованию.
+   * Каждый ключ выдаётся не более одного раза.
+   * @param {number} index - Номер сообщения в цепочке отправителя.
+   * @returns {Promise<Uint8Array>} Ключ сообщения.
+   * @throws {Error} Если ключ уже использован, вытеснен из кэша или номер слишком далеко впереди.
+   */
+  keyFor(index: number): Promise<Uint8Array> {
+    return this.enqueue(async () => {
+      if (!Number.isInteger(index) || index < 0) {
+        throw new Error("Номер сообщения должен быть неотрицательным целым числом.");
+      }
+
+      if (index < this.nextIndex) {
+        const cached = this.skippedKeys.get(index);
+        if (!cached) {
+          throw new Error(`Ключ сообщения ${index} уже использован или удалён из кэша.`);
+        }
+        this.skippedKeys.delete(index);
+        return cached;
+      }
+
+      if (index - this.nextIndex > this.maxSkippedKeys) {
+        throw new Error(`Сообщение ${index} слишком далеко впереди цепочки (${this.nextIndex}).`);
+      }
+
+      while (this.nextIndex < index) {
+        const skippedIndex = this.nextIndex;
+        this.rememberSkipped(skippedIndex, await this.step());
+      }
+      return this.step();
+    });
+  }
+
+  /**
+   * Затирает ключ цепочки и кэш пропущенных ключей. Храповик больше нельзя использовать:
+   * ожидающие в очереди и последующие вызовы nextKey/keyFor отклоняются.
+   */
+  destroy(): void {
+    this.destroyed = true;
+    this.chainKey.fill(0);
+    for (const key of this.skippedKeys.values()) {
+      key.fill(0);
+    }
+    this.skippedKeys.clear();
+  }
+
+  /**
+   * Один шаг цепочки: (CK, MK) = HKDF(CK). Старый ключ цепочки затирается.
+   * @returns {Promise<Uint8Array>} Ключ сообщения.
+   * @throws {Error} Если храповик уничтожен до или во время шага.
+   */
+  private async step(): Promise<Uint8Array> {
+    this.assertNotDestroyed();
+    const output = await hkdf(this.chainKey, CHAIN_KEY_SIZE_BYTES + this.keyLength, { info: RATCHET_INFO });
+
+    // destroy() мог быть вызван, пока выполнялся HKDF: новый ключ цепочки не сохраняется.
+    if (this.destroyed) {
+      output.fill(0);
+      this.assertNotDestroyed();
+    }
+
+    this.chainKey.fill(0);
+    this.chainKey = output.slice(0, CHAIN_KEY_SIZE_BYTES);
+    const messageKey = output.slice(CHAIN_KEY_SIZE_BYTES);
+    output.fill(0);
+
+    this.nextIndex++;
+    return messageKey;
+  }
+
+  /**
+   * Сохраняет ключ пропущенного сообщения, вытесняя самые старые при переполнении.
+   * @param {number} index - Номер сообщения.
+   * @param {Uint8Array} key - Ключ сообщения.
+   */
+  private rememberSkipped(index: number, key: Uint8Array): void {
+    this.skippedKeys.set(index, key);
+
+    while (this.skippedKeys.size > this.maxSkippedKeys) {
+      const [oldestIndex, oldestKey] = this.skippedKeys.entries().next().value as [number, Uint8Array];
+      oldestKey.fill(0);
+      this.skippedKeys.delete(oldestIndex);
+    }
+  }
+
+  /**
+   * Выполняет операции над цепочкой строго последовательно.
+   * Операция, дождавшаяся очереди после destroy(), не выполняется.
+   * @param {() => Promise<T>} operation - Операция.
+   * @returns {Promise<T>} Результат операции.
+   * @throws {Error} Если храповик уничтожен (промис отклоняется).
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    if (this.destroyed) {
+      return Promise.reject(this.destroyedError());
+    }
+
+    const result = this.queue.then(() => {
+      this.assertNotDestroyed();
+      return operation();
+    });
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Проверяет, что храповик не уничтожен.
+   * @throws {Error} Если вызван destroy().
+   */
+  private assertNotDestroyed(): void {
+    if (this.destroyed) {
+      throw this.destroyedError();
+    }
+  }
+
+  /**
+   * Ошибка обращения к уничтоженному храповику.
+   * @returns {Error} Ошибка.
+   */
+  private destroyedError(): Error {
+    return new Error("Храповик уничтожен вызовом destroy() и больше не выдаёт ключи.");
+  }
+}
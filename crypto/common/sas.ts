@@ -0,0 +1,148 @@
+/**
+ * @file Короткие строки аутентификации (SAS) для проверки обмена ключами.
+ * @fileoverview Оба участника вычисляют SAS из двух публичных ключей и идентификатора чата
+ * и сравнивают результат по независимому каналу. Подмена ключа посредником даёт другую строку.
+ */
+
+import { digest } from "@/modules/crypto/common/sha2"
+
+/**
+ * Публичный ключ: bigint для конечного поля (generateDHKeys) или байты (X25519).
+ */
+export type PublicKeyMaterial = bigint | Uint8Array
+
+/**
+ * Короткая строка аутентификации в двух представлениях.
+ * @property {string[]} emoji - Семь эмодзи (по 6 бит на символ).
+ * @property {string[]} digits - Три группы по четыре цифры (по 13 бит на группу).
+ */
+export interface ShortAuthString {
+  emoji: string[]
+  digits: string[]
+}
+
+/**
+ * Метка домена, отделяющая SAS от прочих хешей ключей.
+ * @type {string}
+ */
+const SAS_INFO = "chat-sas-v1"
+
+/**
+ * Таблица из 64 эмодзи, индексируемая шестью битами.
+ * @type {string[]}
+ */
+const SAS_EMOJI = [
+  "🐶", "🐱", "🦁", "🐎", "🦄", "🐷", "🐘", "🐰",
+  "🐼", "🐓", "🐧", "🐢", "🐟", "🐙", "🦋", "🌷",
+  "🌳", "🌵", "🍄", "🌏", "🌙", "☁️", "🔥", "🍌",
+  "🍎", "🍓", "🌽", "🍕", "🎂", "❤️", "😀", "🤖",
+  "🎩", "👓", "🔧", "🎅", "👍", "☂️", "⌛", "⏰",
+  "🎁", "💡", "📕", "✏️", "📎", "✂️", "🔒", "🔑",
+  "🔨", "☎️", "🏁", "🚂", "🚲", "✈️", "🚀", "🏆",
+  "⚽", "🎸", "🎺", "🔔", "⚓", "🎧", "📁", "📌",
+]
+
+/**
+ * Приводит публичный ключ к байтам (bigint — big-endian без ведущих нулей).
+ * @param {PublicKeyMaterial} publicKey - Публичный ключ.
+ * @returns {Uint8Array} Байты ключа.
+ */
+export function publicKeyToBytes(publicKey: PublicKeyMaterial): Uint8Array {
+  if (publicKey instanceof Uint8Array) return publicKey;
+
+  let hex = publicKey.toString(16);
+  if (hex.length % 2) hex = "0" + hex;
+
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Сравнивает два массива байт лексикографически (при равном префиксе короче — меньше).
+ * @param {Uint8Array} a - Первый массив.
+ * @param {Uint8Array} b - Второй массив.
+ * @returns {number} Отрицательное, ноль или положительное число.
+ */
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+/**
+ * Добавляет поле с 4-байтовым префиксом длины.
+ * @param {number[]} out - Выходной буфер.
+ * @param {Uint8Array} field - Поле.
+ */
+function pushField(out: number[], field: Uint8Array): void {
+  const length = field.length;
+  out.push((length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff);
+  for (const byte of field) out.push(byte);
+}
+
+/**
+ * Возвращает значение из count бит, начиная с бита offset (нумерация от старшего бита).
+ * @param {Uint8Array} bytes - Источник.
+ * @param {number} offset - Смещение в битах.
+ * @param {number} count - Количество бит.
+ * @returns {number} Значение.
+ */
+function readBits(bytes: Uint8Array, offset: number, count: number): number {
+  let value = 0;
+  for (let i = 0; i < count; i++) {
+    const bit = offset + i;
+    value = (value << 1) | ((bytes[bit >> 3] >> (7 - (bit & 7))) & 1);
+  }
+  return value;
+}
+
+/**
+ * Вычисляет отпечаток публичного ключа (SHA-256 в hex), пригодный для хранения и сравнения.
+ * @param {PublicKeyMaterial} publicKey - Публичный ключ.
+ * @returns {Promise<string>} Отпечаток.
+ */
+export async function publicKeyFingerprint(publicKey: PublicKeyMaterial): Promise<string> {
+  const hash = await digest("SHA-256", publicKeyToBytes(publicKey));
+  return Array.from(hash, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Вычисляет короткую строку аутентификации для пары ключей чата.
+ * Результат не зависит от того, какая сторона вызывает функцию: ключи упорядочиваются.
+ * @param {PublicKeyMaterial} ownPublicKey - Собственный публичный ключ.
+ * @param {PublicKeyMaterial} peerPublicKey - Публичный ключ собеседника.
+ * @param {string | number} chatId - Идентификатор чата.
+ * @returns {Promise<ShortAuthString>} Эмодзи и цифровое представление SAS.
+ */
+export async function computeShortAuthString(
+  ownPublicKey: PublicKeyMaterial,
+  peerPublicKey: PublicKeyMaterial,
+  chatId: string | number
+): Promise<ShortAuthString> {
+  const keys = [publicKeyToBytes(ownPublicKey), publicKeyToBytes(peerPublicKey)].sort(compareBytes);
+
+  const input: number[] = [];
+  pushField(input, new TextEncoder().encode(SAS_INFO));
+  pushField(input, new TextEncoder().encode(String(chatId)));
+  pushField(input, keys[0]);
+  pushField(input, keys[1]);
+
+  const hash = await digest("SHA-256", new Uint8Array(input));
+
+  const emoji: string[] = [];
+  for (let i = 0; i < 7; i++) {
+    emoji.push(SAS_EMOJI[readBits(hash, i * 6, 6)]);
+  }
+
+  const digits: string[] = [];
+  for (let i = 0; i < 3; i++) {
+    digits.push(String(readBits(hash, 42 + i * 13, 13) + 1000));
+  }
+
+  return { emoji, digits };
+}
@@ -0,0 +1,106 @@
+/**
+ * @file Самотестирование шифров при включении (power-on self-test).
+ * @fileoverview При первом создании контекста алгоритма его блочный шифр проверяется
+ * шифрованием и дешифрованием контрольных векторов из constants/knownAnswers. Результат
+ * кэшируется до перезагрузки страницы или процесса, поэтому повторные контексты создаются без затрат.
+ * Блочные шифры для проверки создаются здесь же, без контекстов шифрования: интерфейс может узнать
+ * результат через getSelfTestError, не создавая контекст и не импортируя прогон векторов crypto/kat.
+ */
+
+import { NUM_ROUNDS as TWOFISH_NUM_ROUNDS } from "@/modules/crypto/common/constants/twoFish"
+import { NUM_ROUNDS as MACGUFFIN_NUM_ROUNDS } from "@/modules/crypto/common/constants/macGuffin"
+import { KeyExpansion as TwoFishKeyExpansion } from "@/modules/crypto/twoFish/KeyExpansion"
+import { FeistelBlockCipher as TwoFishBlockCipher } from "@/modules/crypto/twoFish/FeistelBlockCipher"
+import { KeyExpansion as MacGuffinKeyExpansion } from "@/modules/crypto/macGuffin/KeyExpansion"
+import { FeistelBlockCipher as MacGuffinBlockCipher } from "@/modules/crypto/macGuffin/FeistelBlockCipher"
+import { getSTable } from "@/modules/crypto/macGuffin/tools"
+
+import { IBlockCipher } from "@/modules/crypto/common/interfaces/BlockCipher"
+import { IKeyExpansion } from "@/modules/crypto/common/interfaces/KeyExpansion"
+import { CipherAlgorithm } from "@/modules/crypto/common/types"
+import { SelfTestError } from "@/modules/crypto/common/errors"
+import { bytesToHex, hexToBytes } from "@/modules/crypto/common/bits_operation"
+import { KNOWN_ANSWER_VECTORS } from "@/modules/crypto/common/constants/knownAnswers"
+
+/**
+ * Блочный шифр с расширенным ключом.
+ */
+export type SelfTestCipher = {
+  blockCipher: IBlockCipher
+  keyExpansion: IKeyExpansion
+}
+
+/**
+ * Создает блочный шифр алгоритма для заданного мастер-ключа.
+ */
+export type SelfTestCipherFactory = (masterKey: Uint8Array) => SelfTestCipher
+
+/**
+ * Фабрики блочных шифров по алгоритмам.
+ * @type {Record<CipherAlgorithm, SelfTestCipherFactory>}
+ */
+const SELF_TEST_CIPHERS: Record<CipherAlgorithm, SelfTestCipherFactory> = {
+  [CipherAlgorithm.TwoFish]: masterKey => {
+    const keyExpansion = new TwoFishKeyExpansion(masterKey);
+    return { keyExpansion, blockCipher: new TwoFishBlockCipher(keyExpansion, TWOFISH_NUM_ROUNDS) };
+  },
+  [CipherAlgorithm.MacGuffin]: masterKey => {
+    const blockCipher = new MacGuffinBlockCipher(getSTable(), MACGUFFIN_NUM_ROUNDS);
+    return { blockCipher, keyExpansion: new MacGuffinKeyExpansion(masterKey, { blockCipher }) };
+  },
+}
+
+/**
+ * Результаты самотестирования: null - пройдено, SelfTestError - не пройдено.
+ * @type {Map<CipherAlgorithm, SelfTestError | null>}
+ */
+const results = new Map<CipherAlgorithm, SelfTestError | null>()
+
+/**
+ * Прогоняет контрольные векторы одиночных блоков.
+ * @param {CipherAlgorithm} algorithm - Алгоритм.
+ * @returns {SelfTestError | null} Ошибка или null, если все векторы совпали.
+ */
+function runSelfTest(algorithm: CipherAlgorithm): SelfTestError | null {
+  const createCipher = SELF_TEST_CIPHERS[algorithm];
+  for (const vector of KNOWN_ANSWER_VECTORS[algorithm].blocks) {
+    try {
+      const { blockCipher, keyExpansion } = createCipher(hexToBytes(vector.key));
+      const roundKeys = keyExpansion.roundKeys!;
+
+      const ciphertext = blockCipher.encryptBlock(hexToBytes(vector.plaintext), roundKeys);
+      const plaintext = blockCipher.decryptBlock(hexToBytes(vector.ciphertext), roundKeys);
+
+      if (bytesToHex(ciphertext) !== vector.ciphertext || bytesToHex(plaintext) !== vector.plaintext) {
+        return new SelfTestError(algorithm);
+      }
+    } catch {
+      return new SelfTestError(algorithm);
+    }
+  }
+  return null;
+}
+
+/**
+ * Выполняет самотестирование алгоритма при первом вызове и возвращает его результат.
+ * @param {CipherAlgorithm} algorithm - Алгоритм.
+ * @returns {SelfTestError | null} Ошибка или null, если самотестирование пройдено.
+ */
+export function getSelfTestError(algorithm: CipherAlgorithm): SelfTestError | null {
+  if (!results.has(algorithm)) {
+    results.set(algorithm, runSelfTest(algorithm));
+  }
+  return results.get(algorithm)!;
+}
+
+/**
+ * Выполняет самотестирование алгоритма при первом вызове и бросает ошибку, если оно не пройдено.
+ * @param {CipherAlgorithm} algorithm - Алгоритм.
+ * @throws {SelfTestError} Если шифр выдал неверный результат.
+ */
+export function ensureSelfTest(algorithm: CipherAlgorithm): void {
+  const error = getSelfTestError(algorithm);
+  if (error) {
+    throw error;
+  }
+}
@@ -0,0 +1,472 @@
+/**
+ * @file Реализация семейства SHA-2 (SHA-256, SHA-384, SHA-512) и HMAC на TypeScript.
+ * @fileoverview Используется, когда SubtleCrypto недоступен: на небезопасных источниках
+ * (http:// по адресу в локальной сети) и в тестовых окружениях. Хеши поддерживают
+ * инкрементальную обработку через update()/digest().
+ */
+
+/**
+ * Поддерживаемые хеш-функции.
+ */
+export type Sha2Algorithm = "SHA-256" | "SHA-384" | "SHA-512"
+
+/**
+ * Инкрементальная хеш-функция.
+ * @property {number} blockSize - Размер блока в байтах.
+ * @property {number} outputSize - Размер результата в байтах.
+ */
+export interface Hash {
+  readonly blockSize: number
+  readonly outputSize: number
+  update(data: Uint8Array): this
+  digest(): Uint8Array
+}
+
+/**
+ * Раундовые константы SHA-256.
+ * @type {Uint32Array}
+ */
+const K256 = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+])
+
+/**
+ * Начальное состояние SHA-256.
+ * @type {number[]}
+ */
+const H256 = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+]
+
+/**
+ * Раундовые константы SHA-512 парами (старшие 32 бита, младшие 32 бита).
+ * @type {Uint32Array}
+ */
+const K512 = new Uint32Array([
+  0x428a2f98, 0xd728ae22, 0x71374491, 0x23ef65cd, 0xb5c0fbcf, 0xec4d3b2f, 0xe9b5dba5, 0x8189dbbc,
+  0x3956c25b, 0xf348b538, 0x59f111f1, 0xb605d019, 0x923f82a4, 0xaf194f9b, 0xab1c5ed5, 0xda6d8118,
+  0xd807aa98, 0xa3030242, 0x12835b01, 0x45706fbe, 0x243185be, 0x4ee4b28c, 0x550c7dc3, 0xd5ffb4e2,
+  0x72be5d74, 0xf27b896f, 0x80deb1fe, 0x3b1696b1, 0x9bdc06a7, 0x25c71235, 0xc19bf174, 0xcf692694,
+  0xe49b69c1, 0x9ef14ad2, 0xefbe4786, 0x384f25e3, 0x0fc19dc6, 0x8b8cd5b5, 0x240ca1cc, 0x77ac9c65,
+  0x2de92c6f, 0x592b0275, 0x4a7484aa, 0x6ea6e483, 0x5cb0a9dc, 0xbd41fbd4, 0x76f988da, 0x831153b5,
+  0x983e5152, 0xee66dfab, 0xa831c66d, 0x2db43210, 0xb00327c8, 0x98fb213f, 0xbf597fc7, 0xbeef0ee4,
+  0xc6e00bf3, 0x3da88fc2, 0xd5a79147, 0x930aa725, 0x06ca6351, 0xe003826f, 0x14292967, 0x0a0e6e70,
+  0x27b70a85, 0x46d22ffc, 0x2e1b2138, 0x5c26c926, 0x4d2c6dfc, 0x5ac42aed, 0x53380d13, 0x9d95b3df,
+  0x650a7354, 0x8baf63de, 0x766a0abb, 0x3c77b2a8, 0x81c2c92e, 0x47edaee6, 0x92722c85, 0x1482353b,
+  0xa2bfe8a1, 0x4cf10364, 0xa81a664b, 0xbc423001, 0xc24b8b70, 0xd0f89791, 0xc76c51a3, 0x0654be30,
+  0xd192e819, 0xd6ef5218, 0xd6990624, 0x5565a910, 0xf40e3585, 0x5771202a, 0x106aa070, 0x32bbd1b8,
+  0x19a4c116, 0xb8d2d0c8, 0x1e376c08, 0x5141ab53, 0x2748774c, 0xdf8eeb99, 0x34b0bcb5, 0xe19b48a8,
+  0x391c0cb3, 0xc5c95a63, 0x4ed8aa4a, 0xe3418acb, 0x5b9cca4f, 0x7763e373, 0x682e6ff3, 0xd6b2b8a3,
+  0x748f82ee, 0x5defb2fc, 0x78a5636f, 0x43172f60, 0x84c87814, 0xa1f0ab72, 0x8cc70208, 0x1a6439ec,
+  0x90befffa, 0x23631e28, 0xa4506ceb, 0xde82bde9, 0xbef9a3f7, 0xb2c67915, 0xc67178f2, 0xe372532b,
+  0xca273ece, 0xea26619c, 0xd186b8c7, 0x21c0c207, 0xeada7dd6, 0xcde0eb1e, 0xf57d4f7f, 0xee6ed178,
+  0x06f067aa, 0x72176fba, 0x0a637dc5, 0xa2c898a6, 0x113f9804, 0xbef90dae, 0x1b710b35, 0x131c471b,
+  0x28db77f5, 0x23047d84, 0x32caab7b, 0x40c72493, 0x3c9ebe0a, 0x15c9bebc, 0x431d67c4, 0x9c100d4c,
+  0x4cc5d4be, 0xcb3e42b6, 0x597f299c, 0xfc657e2a, 0x5fcb6fab, 0x3ad6faec, 0x6c44198c, 0x4a475817,
+])
+
+/**
+ * Начальное состояние SHA-512 парами (старшие, младшие 32 бита).
+ * @type {number[]}
+ */
+const H512 = [
+  0x6a09e667, 0xf3bcc908, 0xbb67ae85, 0x84caa73b, 0x3c6ef372, 0xfe94f82b, 0xa54ff53a, 0x5f1d36f1,
+  0x510e527f, 0xade682d1, 0x9b05688c, 0x2b3e6c1f, 0x1f83d9ab, 0xfb41bd6b, 0x5be0cd19, 0x137e2179,
+]
+
+/**
+ * Начальное состояние SHA-384 парами (старшие, младшие 32 бита).
+ * @type {number[]}
+ */
+const H384 = [
+  0xcbbb9d5d, 0xc1059ed8, 0x629a292a, 0x367cd507, 0x9159015a, 0x3070dd17, 0x152fecd8, 0xf70e5939,
+  0x67332667, 0xffc00b31, 0x8eb44a87, 0x68581511, 0xdb0c2e0d, 0x64f98fa7, 0x47b5481d, 0xbefa4fa4,
+]
+
+/**
+ * Общая часть SHA-2: буферизация входа и дополнение сообщения.
+ */
+abstract class Sha2Hash implements Hash {
+  readonly blockSize: number;
+  readonly outputSize: number;
+
+  private readonly buffer: Uint8Array;
+  private bufferLength: number = 0;
+  private totalLength: number = 0;
+  private finished: boolean = false;
+
+  protected constructor(blockSize: number, outputSize: number) {
+    this.blockSize = blockSize;
+    this.outputSize = outputSize;
+    this.buffer = new Uint8Array(blockSize);
+  }
+
+  /**
+   * Добавляет данные к хешируемому сообщению.
+   * @param {Uint8Array} data - Очередная порция данных.
+   * @returns {this} Текущий объект для цепочки вызовов.
+   * @throws {Error} Если digest() уже был вызван.
+   */
+  update(data: Uint8Array): this {
+    if (this.finished) {
+      throw new Error("Хеш уже вычислен: создайте новый объект.");
+    }
+
+    this.totalLength += data.length;
+    let offset = 0;
+
+    if (this.bufferLength > 0) {
+      const take = Math.min(this.blockSize - this.bufferLength, data.length);
+      this.buffer.set(data.subarray(0, take), this.bufferLength);
+      this.bufferLength += take;
+      offset = take;
+
+      if (this.bufferLength < this.blockSize) return this;
+
+      this.processBlock(this.buffer, 0);
+      this.bufferLength = 0;
+    }
+
+    for (; offset + this.blockSize <= data.length; offset += this.blockSize) {
+      this.processBlock(data, offset);
+    }
+
+    this.buffer.set(data.subarray(offset), 0);
+    this.bufferLength = data.length - offset;
+    return this;
+  }
+
+  /**
+   * Завершает вычисление и возвращает хеш. После вызова объект использовать нельзя.
+   * @returns {Uint8Array} Значение хеша.
+   */
+  digest(): Uint8Array {
+    if (this.finished) {
+      throw new Error("Хеш уже вычислен: создайте новый объект.");
+    }
+    this.finished = true;
+
+    // Длина сообщения занимает 8 байт у SHA-256 и 16 байт у SHA-384/512
+    const lengthFieldSize = this.blockSize / 8;
+    const buffer = this.buffer;
+
+    buffer[this.bufferLength++] = 0x80;
+    if (this.bufferLength > this.blockSize - lengthFieldSize) {
+      buffer.fill(0, this.bufferLength);
+      this.processBlock(buffer, 0);
+      this.bufferLength = 0;
+    }
+    buffer.fill(0, this.bufferLength);
+
+    const bitLengthHigh = Math.floor(this.totalLength / 0x20000000);
+    const bitLengthLow = (this.totalLength << 3) >>> 0;
+    writeUint32(buffer, this.blockSize - 8, bitLengthHigh);
+    writeUint32(buffer, this.blockSize - 4, bitLengthLow);
+    this.processBlock(buffer, 0);
+
+    return this.output();
+  }
+
+  protected abstract processBlock(block: Uint8Array, offset: number): void
+
+  protected abstract output(): Uint8Array
+}
+
+/**
+ * Читает 32-битное число big-endian.
+ * @param {Uint8Array} bytes - Источник.
+ * @param {number} offset - Смещение.
+ * @returns {number} Число.
+ */
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+/**
+ * Записывает 32-битное число big-endian.
+ * @param {Uint8Array} bytes - Приёмник.
+ * @param {number} offset - Смещение.
+ * @param {number} value - Число.
+ */
+function writeUint32(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = value >>> 24;
+  bytes[offset + 1] = value >>> 16;
+  bytes[offset + 2] = value >>> 8;
+  bytes[offset + 3] = value;
+}
+
+/**
+ * SHA-256 (FIPS 180-4).
+ */
+export class Sha256 extends Sha2Hash {
+  private readonly state = new Uint32Array(H256);
+  private readonly w = new Uint32Array(64);
+
+  constructor() {
+    super(64, 32);
+  }
+
+  protected processBlock(block: Uint8Array, offset: number): void {
+    const w = this.w;
+    for (let i = 0; i < 16; i++) {
+      w[i] = readUint32(block, offset + i * 4);
+    }
+    for (let i = 16; i < 64; i++) {
+      const x = w[i - 15], y = w[i - 2];
+      const s0 = ((x >>> 7) | (x << 25)) ^ ((x >>> 18) | (x << 14)) ^ (x >>> 3);
+      const s1 = ((y >>> 17) | (y << 15)) ^ ((y >>> 19) | (y << 13)) ^ (y >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    const h = this.state;
+    let a = h[0], b = h[1], c = h[2], d = h[3], e = h[4], f = h[5], g = h[6], k = h[7];
+
+    for (let i = 0; i < 64; i++) {
+      const s1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const t1 = (k + s1 + ((e & f) ^ (~e & g)) + K256[i] + w[i]) | 0;
+      const s0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const t2 = (s0 + ((a & b) ^ (a & c) ^ (b & c))) | 0;
+
+      k = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d;
+    h[4] += e; h[5] += f; h[6] += g; h[7] += k;
+  }
+
+  protected output(): Uint8Array {
+    const out = new Uint8Array(32);
+    for (let i = 0; i < 8; i++) {
+      writeUint32(out, i * 4, this.state[i]);
+    }
+    return out;
+  }
+}
+
+/**
+ * SHA-512 (FIPS 180-4). 64-битные слова хранятся парами 32-битных половин.
+ */
+export class Sha512 extends Sha2Hash {
+  private readonly state: Uint32Array;
+  private readonly w = new Uint32Array(160);
+
+  constructor(initialState: number[] = H512, outputSize: number = 64) {
+    super(128, outputSize);
+    this.state = new Uint32Array(initialState);
+  }
+
+  protected processBlock(block: Uint8Array, offset: number): void {
+    const w = this.w;
+    for (let i = 0; i < 32; i++) {
+      w[i] = readUint32(block, offset + i * 4);
+    }
+
+    for (let i = 16; i < 80; i++) {
+      // σ0(w[i-15]) = rotr1 ^ rotr8 ^ shr7
+      const xh = w[(i - 15) * 2], xl = w[(i - 15) * 2 + 1];
+      const s0h = ((xh >>> 1) | (xl << 31)) ^ ((xh >>> 8) | (xl << 24)) ^ (xh >>> 7);
+      const s0l = ((xl >>> 1) | (xh << 31)) ^ ((xl >>> 8) | (xh << 24)) ^ ((xl >>> 7) | (xh << 25));
+
+      // σ1(w[i-2]) = rotr19 ^ rotr61 ^ shr6
+      const yh = w[(i - 2) * 2], yl = w[(i - 2) * 2 + 1];
+      const s1h = ((yh >>> 19) | (yl << 13)) ^ ((yl >>> 29) | (yh << 3)) ^ (yh >>> 6);
+      const s1l = ((yl >>> 19) | (yh << 13)) ^ ((yh >>> 29) | (yl << 3)) ^ ((yl >>> 6) | (yh << 26));
+
+      const lo = (s0l >>> 0) + (s1l >>> 0) + w[(i - 16) * 2 + 1] + w[(i - 7) * 2 + 1];
+      const hi = (s0h >>> 0) + (s1h >>> 0) + w[(i - 16) * 2] + w[(i - 7) * 2] + Math.floor(lo / 0x100000000);
+      w[i * 2] = hi;
+      w[i * 2 + 1] = lo;
+    }
+
+    const h = this.state;
+    let ah = h[0], al = h[1], bh = h[2], bl = h[3], ch = h[4], cl = h[5], dh = h[6], dl = h[7];
+    let eh = h[8], el = h[9], fh = h[10], fl = h[11], gh = h[12], gl = h[13], kh = h[14], kl = h[15];
+
+    for (let i = 0; i < 80; i++) {
+      // Σ1(e) = rotr14 ^ rotr18 ^ rotr41
+      const s1h = ((eh >>> 14) | (el << 18)) ^ ((eh >>> 18) | (el << 14)) ^ ((el >>> 9) | (eh << 23));
+      const s1l = ((el >>> 14) | (eh << 18)) ^ ((el >>> 18) | (eh << 14)) ^ ((eh >>> 9) | (el << 23));
+      const chh = (eh & fh) ^ (~eh & gh);
+      const chl = (el & fl) ^ (~el & gl);
+
+      const t1l = (kl >>> 0) + (s1l >>> 0) + (chl >>> 0) + K512[i * 2 + 1] + w[i * 2 + 1];
+      const t1h = (kh >>> 0) + (s1h >>> 0) + (chh >>> 0) + K512[i * 2] + w[i * 2] + Math.floor(t1l / 0x100000000);
+
+      // Σ0(a) = rotr28 ^ rotr34 ^ rotr39
+      const s0h = ((ah >>> 28) | (al << 4)) ^ ((al >>> 2) | (ah << 30)) ^ ((al >>> 7) | (ah << 25));
+      const s0l = ((al >>> 28) | (ah << 4)) ^ ((ah >>> 2) | (al << 30)) ^ ((ah >>> 7) | (al << 25));
+      const majh = (ah & bh) ^ (ah & ch) ^ (bh & ch);
+      const majl = (al & bl) ^ (al & cl) ^ (bl & cl);
+
+      const t2l = (s0l >>> 0) + (majl >>> 0);
+      const t2h = (s0h >>> 0) + (majh >>> 0) + Math.floor(t2l / 0x100000000);
+
+      kh = gh; kl = gl;
+      gh = fh; gl = fl;
+      fh = eh; fl = el;
+
+      const nel = (dl >>> 0) + (t1l >>> 0);
+      eh = ((dh >>> 0) + (t1h >>> 0) + Math.floor(nel / 0x100000000)) | 0;
+      el = nel | 0;
+
+      dh = ch; dl = cl;
+      ch = bh; cl = bl;
+      bh = ah; bl = al;
+
+      const nal = (t1l >>> 0) + (t2l >>> 0);
+      ah = ((t1h >>> 0) + (t2h >>> 0) + Math.floor(nal / 0x100000000)) | 0;
+      al = nal | 0;
+    }
+
+    const words = [ah, al, bh, bl, ch, cl, dh, dl, eh, el, fh, fl, gh, gl, kh, kl];
+    for (let i = 0; i < 16; i += 2) {
+      const lo = h[i + 1] + (words[i + 1] >>> 0);
+      h[i] = h[i] + (words[i] >>> 0) + Math.floor(lo / 0x100000000);
+      h[i + 1] = lo;
+    }
+  }
+
+  protected output(): Uint8Array {
+    const full = new Uint8Array(64);
+    for (let i = 0; i < 16; i++) {
+      writeUint32(full, i * 4, this.state[i]);
+    }
+    return full.slice(0, this.outputSize);
+  }
+}
+
+/**
+ * SHA-384: SHA-512 с другим начальным состоянием и усечённым результатом.
+ */
+export class Sha384 extends Sha512 {
+  constructor() {
+    super(H384, 48);
+  }
+}
+
+/**
+ * Создаёт объект хеш-функции по имени.
+ * @param {Sha2Algorithm} algorithm - Имя хеш-функции.
+ * @returns {Hash} Инкрементальная хеш-функция.
+ * @throws {Error} Если алгоритм не поддерживается.
+ */
+export function createHash(algorithm: Sha2Algorithm): Hash {
+  switch (algorithm) {
+    case "SHA-256":
+      return new Sha256();
+    case "SHA-384":
+      return new Sha384();
+    case "SHA-512":
+      return new Sha512();
+    default:
+      throw new Error(`Неподдерживаемый хеш-алгоритм: ${algorithm}`);
+  }
+}
+
+/**
+ * HMAC (RFC 2104) поверх хеш-функций SHA-2 с инкрементальной обработкой.
+ */
+export class Hmac {
+  private readonly inner: Hash;
+  private readonly outer: Hash;
+
+  /**
+   * @param {Sha2Algorithm} algorithm - Хеш-функция.
+   * @param {Uint8Array} key - Ключ HMAC.
+   */
+  constructor(algorithm: Sha2Algorithm, key: Uint8Array) {
+    this.inner = createHash(algorithm);
+    this.outer = createHash(algorithm);
+
+    const blockSize = this.inner.blockSize;
+    const blockKey = new Uint8Array(blockSize);
+    blockKey.set(key.length > blockSize ? createHash(algorithm).update(key).digest() : key);
+
+    const pad = new Uint8Array(blockSize);
+    for (let i = 0; i < blockSize; i++) pad[i] = blockKey[i] ^ 0x36;
+    this.inner.update(pad);
+    for (let i = 0; i < blockSize; i++) pad[i] = blockKey[i] ^ 0x5c;
+    this.outer.update(pad);
+
+    blockKey.fill(0);
+    pad.fill(0);
+  }
+
+  /**
+   * Добавляет данные к сообщению.
+   * @param {Uint8Array} data - Очередная порция данных.
+   * @returns {this} Текущий объект для цепочки вызовов.
+   */
+  update(data: Uint8Array): this {
+    this.inner.update(data);
+    return this;
+  }
+
+  /**
+   * Завершает вычисление HMAC.
+   * @returns {Uint8Array} Значение HMAC.
+   */
+  digest(): Uint8Array {
+    return this.outer.update(this.inner.digest()).digest();
+  }
+}
+
+/**
+ * Проверяет наличие SubtleCrypto в текущем окружении.
+ * @returns {boolean} true, если crypto.subtle доступен.
+ */
+export function isSubtleCryptoAvailable(): boolean {
+  return typeof crypto !== "undefined" && !!crypto.subtle;
+}
+
+/**
+ * Возвращает представление данных поверх ArrayBuffer, как требует SubtleCrypto:
+ * массив поверх SharedArrayBuffer копируется.
+ * @param {Uint8Array} data - Данные.
+ * @returns {Uint8Array<ArrayBuffer>} Данные поверх ArrayBuffer.
+ */
+function toArrayBufferView(data: Uint8Array): Uint8Array<ArrayBuffer> {
+  return data.buffer instanceof ArrayBuffer ? data as Uint8Array<ArrayBuffer> : new Uint8Array(data);
+}
+
+/**
+ * Вычисляет хеш: через SubtleCrypto, если он доступен, иначе реализацией на TypeScript.
+ * @param {Sha2Algorithm} algorithm - Хеш-функция.
+ * @param {Uint8Array} data - Данные.
+ * @returns {Promise<Uint8Array>} Значение хеша.
+ */
+export async function digest(algorithm: Sha2Algorithm, data: Uint8Array): Promise<Uint8Array> {
+  if (isSubtleCryptoAvailable()) {
+    return new Uint8Array(await crypto.subtle.digest(algorithm, toArrayBufferView(data)));
+  }
+  return createHash(algorithm).update(data).digest();
+}
+
+/**
+ * Вычисляет HMAC: через SubtleCrypto, если он доступен, иначе реализацией на TypeScript.
+ * @param {Sha2Algorithm} algorithm - Хеш-функция.
+ * @param {Uint8Array} key - Ключ HMAC.
+ * @param {Uint8Array} data - Данные.
+ * @returns {Promise<Uint8Array>} Значение HMAC.
+ */
+export async function hmac(algorithm: Sha2Algorithm, key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  if (isSubtleCryptoAvailable()) {
+    const hmacKey = await crypto.subtle.importKey("raw", toArrayBufferView(key), { name: "HMAC", hash: { name: algorithm } }, false, ["sign"]);
+    return new Uint8Array(await crypto.subtle.sign("HMAC", hmacKey, toArrayBufferView(data)));
+  }
+  return new Hmac(algorithm, key).update(data).digest();
+}
@@ -1,17 +1,83 @@
-/**
- * Перечисление режимов набивки (padding).
- * @enum {string}
- */
-export enum CipherPadding {
-  "Zeros" = "Zeros",
-  "ANSIX923" = "ANSIX923",
-  "PKCS7" = "PKCS7",
-  "ISO10126" = "ISO10126",
-}
-
-/**
- * Расширенный ключ.
- */
-export type MacGuffinKey = {
-  val: Uint16Array;
+/**
+ * Перечисление режимов набивки (padding).
+ * @enum {string}
+ */
+export enum CipherPadding {
+  "Zeros" = "Zeros",
+  "ANSIX923" = "ANSIX923",
+  "PKCS7" = "PKCS7",
+  "ISO10126" = "ISO10126",
+}
+
+/**
+ * Идентификаторы алгоритмов шифрования в зашифрованных контейнерах.
+ * @enum {number}
+ */
+export enum CipherAlgorithm {
+  "TwoFish" = 1,
+  "MacGuffin" = 2,
+}
+
+/**
+ * Расширенный ключ.
+ */
+export type MacGuffinKey = {
+  val: Uint16Array;
+};
+
+/**
+ * Дополнительные параметры контекста шифрования.
+ */
+export type CipherOptions = {
+  // Количество младших байт блока, отведенных под счетчик режима CTR (остальное - nonce).
+  counterBytes?: number;
+};
+
+/**
+ * Параметры поблочной обработки файлов.
+ */
+export type FileProcessingOptions = {
+  // Размер читаемого за раз фрагмента файла в байтах.
+  chunkSize?: number;
+  // Вызывается после каждого фрагмента с количеством обработанных и общим количеством байт.
+  onProgress?: (processedBytes: number, totalBytes: number) => void;
+  // Сигнал отмены обработки.
+  signal?: AbortSignal;
+  // Записать результат шифрования в самоописываемый контейнер (см. container.ts).
+  container?: boolean;
+  // Параметры вывода ключа из пароля, сохраняемые в заголовке контейнера.
+  kdf?: ContainerKdfParams;
+};
+
+/**
+ * Параметры PBKDF2, по которым получатель может заново вывести ключ из пароля.
+ */
+export type ContainerKdfParams = {
+  // Хеш-алгоритм внутри PBKDF2 (например, 'SHA-256').
+  hash: string;
+  // Количество итераций.
+  iterations: number;
+  // Соль.
+  salt: Uint8Array<any>;
+};
+
+/**
+ * Заголовок блока передаваемого сообщения.
+ */
+export type BlockHeader = {
+  // Версия формата заголовка (0 - исходный формат без байта версии).
+  version: number;
+  receiverId: number;
+  blockId: number;
+  date: number;
+  // Общее число блоков сообщения (отсутствует в исходном формате).
+  blockCount: number | null;
+};
+
+/**
+ * Разобранный блок: заголовок и полезная нагрузка.
+ */
+export type ParsedBlock = {
+  header: BlockHeader;
+  payload: Uint8Array<any>;
 };
\ No newline at end of file
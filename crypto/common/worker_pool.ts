@@ -0,0 +1,399 @@
+/**
+ * @file Пул Web Worker для шифрования больших буферов вне основного потока.
+ * @fileoverview Буфер делится на фрагменты по числу потоков; каждый поток хранит восстановленный
+ * расширенный ключ (см. key_schedule.ts) и обрабатывает свой фрагмент, после чего результаты
+ * склеиваются. Параллельно обрабатываются ECB, CTR и дешифрование CBC/CFB; остальные режимы
+ * сцепляют блоки и целиком выполняются в одном потоке.
+ * Прогресс сообщается в байтах, как у FileProcessingOptions. В таблице GET_BRIEF_CONTENT_DETAILS
+ * поле blockCount считает блоки передачи; trackContentProgress переводит байты в эти единицы.
+ * Шифрование вложений выполняет sendMessage хранилища support (вне этого дерева); чтобы интерфейс
+ * не замирал, хранилище должно передавать буфер вложения в пул вместо context.encryptData:
+ * pool.encrypt(context, data, { onProgress: trackContentProgress(content) }).
+ */
+
+import { CipherContextBase } from "@/modules/crypto/common/interfaces/CipherContext"
+import { IKeyExpansion } from "@/modules/crypto/common/interfaces/KeyExpansion"
+import { serializeKeySchedule } from "@/modules/crypto/common/key_schedule"
+import {
+  CipherWorkerRequest,
+  CipherWorkerResponse,
+  CipherWorkerTaskMessage,
+} from "@/modules/crypto/common/cipher_worker"
+import { CipherMode } from "@/types/state"
+
+/**
+ * Минимальный размер фрагмента в блоках: меньшие буферы не стоит делить между потоками.
+ * @type {number}
+ */
+const MIN_SHARD_BLOCKS = 4096
+
+/**
+ * Поток шифрования: подмножество интерфейса Worker, достаточное для пула.
+ */
+export interface CipherWorkerLike {
+  postMessage(message: CipherWorkerRequest, transfer?: Transferable[]): void;
+  onmessage: ((event: { data: CipherWorkerResponse }) => void) | null;
+  onerror: ((event: any) => void) | null;
+  terminate(): void;
+}
+
+/**
+ * Параметры пула.
+ */
+export type CipherWorkerPoolOptions = {
+  // Количество потоков (по умолчанию - число ядер минус основной поток, не более 4).
+  size?: number;
+  // Фабрика потоков (по умолчанию - модульный Worker из cipher_worker.ts).
+  createWorker?: () => CipherWorkerLike;
+};
+
+/**
+ * Параметры обработки буфера.
+ */
+export type CipherWorkerPoolTaskOptions = {
+  // Вызывается по мере обработки блоков всеми потоками (байты с учетом набивки).
+  onProgress?: (processedBytes: number, totalBytes: number) => void;
+  // Сигнал отмены обработки.
+  signal?: AbortSignal;
+};
+
+/**
+ * Строка таблицы GET_BRIEF_CONTENT_DETAILS: сколько блоков передачи зашифровано из общего числа.
+ */
+export type ContentProgress = {
+  encrypted: number;
+  blockCount: number;
+};
+
+/**
+ * Ожидающее ответа задание.
+ */
+type PendingTask = {
+  // Номер потока, выполняющего задание.
+  worker: number;
+  resolve: (data: Uint8Array<any>) => void;
+  reject: (error: Error) => void;
+  onBlocks: (blocks: number) => void;
+};
+
+/**
+ * Определяет, можно ли обрабатывать блоки режима независимо друг от друга.
+ * @param {CipherMode} mode - Режим шифрования.
+ * @param {boolean} encrypting - Направление обработки.
+ * @returns {boolean} true, если буфер можно делить между потоками.
+ */
+export function isParallelizable(mode: CipherMode, encrypting: boolean): boolean {
+  switch (mode) {
+    case CipherMode.ECB:
+    case CipherMode.CTR:
+      return true;
+    case CipherMode.CBC:
+    case CipherMode.CFB:
+      return !encrypting;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Возвращает размер пула по умолчанию.
+ * @returns {number} Количество потоков.
+ */
+function defaultPoolSize(): number {
+  const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(4, cores - 1));
+}
+
+/**
+ * Создает обработчик onProgress, записывающий прогресс пула в строку таблицы вложений.
+ * Блок передачи считается зашифрованным, только когда обработаны все его байты,
+ * поэтому content.encrypted достигает content.blockCount лишь по завершении.
+ * @param {ContentProgress} content - Строка таблицы; изменяется поле encrypted.
+ * @returns {(processedBytes: number, totalBytes: number) => void} Обработчик для CipherWorkerPoolTaskOptions.
+ */
+export function trackContentProgress(content: ContentProgress): (processedBytes: number, totalBytes: number) => void {
+  return (processedBytes: number, totalBytes: number) => {
+    const done = totalBytes > 0 ? processedBytes / totalBytes : 1;
+    content.encrypted = Math.min(content.blockCount, Math.floor(done * content.blockCount));
+  };
+}
+
+/**
+ * Создает модульный Worker с cipher_worker.ts.
+ * @returns {CipherWorkerLike} Поток шифрования.
+ */
+function createDefaultWorker(): CipherWorkerLike {
+  return new Worker(new URL("./cipher_worker.ts", import.meta.url), { type: "module" }) as unknown as CipherWorkerLike;
+}
+
+/**
+ * Класс пула потоков шифрования.
+ */
+export class CipherWorkerPool {
+  // Потоки пула.
+  private workers_: CipherWorkerLike[];
+
+  // Расширение ключа, переданное каждому потоку последним.
+  private workerKeys_: (IKeyExpansion | null)[];
+
+  // Задания, ожидающие ответа, по идентификатору.
+  private pending_ = new Map<number, PendingTask>();
+
+  private nextTaskId_ = 0;
+
+  // Фабрика потоков: нужна, чтобы заменить поток, остановленный при отмене.
+  private createWorker_: () => CipherWorkerLike;
+
+  /**
+   * Конструктор CipherWorkerPool. Потоки создаются сразу и живут до terminate().
+   * @param {CipherWorkerPoolOptions} options - Размер пула и фабрика потоков.
+   * @throws {Error} Если размер пула некорректен.
+   */
+  constructor(options: CipherWorkerPoolOptions = {}) {
+    const { size = defaultPoolSize(), createWorker = createDefaultWorker } = options;
+    if (!Number.isInteger(size) || size <= 0) {
+      throw new Error("Размер пула должен быть положительным целым числом.");
+    }
+
+    this.createWorker_ = createWorker;
+    this.workers_ = [];
+    for (let i = 0; i < size; i++) {
+      this.workers_.push(this._createWorker());
+    }
+    this.workerKeys_ = this.workers_.map(() => null);
+  }
+
+  /**
+   * Количество потоков пула.
+   * @returns {number} Размер пула.
+   */
+  public get size(): number {
+    return this.workers_.length;
+  }
+
+  /**
+   * Шифрует буфер с ключом, режимом, набивкой и IV контекста. Контекст лишь отмечает IV
+   * как использованный, поэтому, как и в encryptData, повторный вызов с тем же IV отклоняется.
+   * @param {CipherContextBase} context - Контекст с установленным ключом.
+   * @param {Uint8Array} data - Открытый текст.
+   * @param {CipherWorkerPoolTaskOptions} options - Прогресс и сигнал отмены.
+   * @returns {Promise<Uint8Array>} Шифротекст, как у context.encryptData(data).
+   * @throws {Error} Если этим ключом уже шифровали с тем же IV.
+   */
+  async encrypt(context: CipherContextBase, data: Uint8Array<any>, options: CipherWorkerPoolTaskOptions = {}): Promise<Uint8Array<any>> {
+    return this._run(context, context._addPadding(data), true, options);
+  }
+
+  /**
+   * Дешифрует буфер и снимает набивку. Контекст не изменяется.
+   * @param {CipherContextBase} context - Контекст с установленным ключом.
+   * @param {Uint8Array} data - Шифротекст, кратный размеру блока.
+   * @param {CipherWorkerPoolTaskOptions} options - Прогресс и сигнал отмены.
+   * @returns {Promise<Uint8Array>} Открытый текст, как у context.decryptData(data).
+   * @throws {Error} Если шифротекст пуст, не выровнен или набивка некорректна.
+   */
+  async decrypt(context: CipherContextBase, data: Uint8Array<any>, options: CipherWorkerPoolTaskOptions = {}): Promise<Uint8Array<any>> {
+    if (!data || data.length === 0 || data.length % context.getBlockSizeBytes() !== 0) {
+      throw new Error("Невозможно дешифровать пустые или некорректно выровненные данные.");
+    }
+
+    // Набивка снимается только с последнего блока, как в decryptData.
+    const output = await this._run(context, data, false, options);
+    const lastOffset = output.length - context.getBlockSizeBytes();
+    return output.subarray(0, lastOffset + context._removePadding(output.subarray(lastOffset)).length);
+  }
+
+  /**
+   * Останавливает все потоки. Незавершенные задания отклоняются.
+   */
+  terminate(): void {
+    this._failAll(new Error("Пул потоков шифрования остановлен."));
+    for (const worker of this.workers_) {
+      worker.terminate();
+    }
+    this.workers_ = [];
+    this.workerKeys_ = [];
+  }
+
+  /**
+   * Делит выровненный буфер на фрагменты, рассылает их потокам и склеивает результат.
+   * @param {CipherContextBase} context - Контекст с установленным ключом.
+   * @param {Uint8Array} input - Данные, кратные размеру блока.
+   * @param {boolean} encrypting - Направление обработки.
+   * @param {CipherWorkerPoolTaskOptions} options - Прогресс и сигнал отмены.
+   * @returns {Promise<Uint8Array>} Результат без снятия набивки.
+   */
+  async _run(context: CipherContextBase, input: Uint8Array<any>, encrypting: boolean, options: CipherWorkerPoolTaskOptions): Promise<Uint8Array<any>> {
+    const { onProgress, signal } = options;
+    if (this.workers_.length === 0) {
+      throw new Error("Пул потоков шифрования остановлен.");
+    }
+    signal?.throwIfAborted();
+    if (encrypting) {
+      context._claimEncryptionIv(context.iv);
+    }
+
+    const blockSize = context.getBlockSizeBytes();
+    const blockCount = input.length / blockSize;
+    const shardCount = isParallelizable(context.mode, encrypting)
+      ? Math.max(1, Math.min(this.workers_.length, Math.floor(blockCount / MIN_SHARD_BLOCKS)))
+      : 1;
+
+    let processed = 0;
+    const onBlocks = (blocks: number) => {
+      processed += blocks;
+      onProgress?.(processed * blockSize, input.length);
+    };
+
+    const output = new Uint8Array(input.length);
+    const tasks: Promise<void>[] = [];
+    for (let shard = 0; shard < shardCount; shard++) {
+      const startBlock = Math.floor(blockCount * shard / shardCount);
+      const endBlock = Math.floor(blockCount * (shard + 1) / shardCount);
+
+      // При дешифровании CBC/CFB фрагмент сцеплен только с последним блоком предыдущего.
+      const chained = !encrypting && (context.mode === CipherMode.CBC || context.mode === CipherMode.CFB);
+      const iv = chained && startBlock > 0
+        ? input.slice((startBlock - 1) * blockSize, startBlock * blockSize)
+        : context.iv;
+
+      const message: CipherWorkerTaskMessage = {
+        type: "process",
+        id: this.nextTaskId_++,
+        encrypting,
+        mode: context.mode,
+        iv,
+        counterBytes: context.options.counterBytes,
+        startBlock,
+        data: input.slice(startBlock * blockSize, endBlock * blockSize),
+      };
+
+      tasks.push(
+        this._dispatch(shard, context, message, onBlocks, signal).then(data => output.set(data, startBlock * blockSize)),
+      );
+    }
+
+    await Promise.all(tasks);
+    return output;
+  }
+
+  /**
+   * Создает поток и подключает к нему обработчики пула.
+   * @returns {CipherWorkerLike} Поток шифрования.
+   */
+  _createWorker(): CipherWorkerLike {
+    const worker = this.createWorker_();
+    worker.onmessage = event => this._handleMessage(event.data);
+    worker.onerror = event => this._failAll(new Error(event?.message ?? "Сбой потока шифрования."));
+    return worker;
+  }
+
+  /**
+   * Останавливает поток и заменяет его новым без ключа. Так отмена прерывает уже начатую
+   * обработку фрагмента. Другие задания этого потока отклоняются.
+   * @param {number} index - Номер потока.
+   */
+  _restartWorker(index: number): void {
+    const worker = this.workers_[index];
+    if (!worker) {
+      return;
+    }
+
+    worker.terminate();
+    this.workers_[index] = this._createWorker();
+    this.workerKeys_[index] = null;
+
+    for (const [id, task] of [...this.pending_]) {
+      if (task.worker === index) {
+        this.pending_.delete(id);
+        task.reject(new Error("Поток шифрования перезапущен после отмены другого задания."));
+      }
+    }
+  }
+
+  /**
+   * Отправляет задание потоку, при необходимости сначала передав ему расширенный ключ.
+   * @param {number} index - Номер потока.
+   * @param {CipherContextBase} context - Контекст с установленным ключом.
+   * @param {CipherWorkerTaskMessage} message - Задание.
+   * @param {(blocks: number) => void} onBlocks - Учет обработанных блоков.
+   * @param {AbortSignal} [signal] - Сигнал отмены: поток, выполняющий задание, перезапускается.
+   * @returns {Promise<Uint8Array>} Обработанный фрагмент.
+   */
+  _dispatch(
+    index: number,
+    context: CipherContextBase,
+    message: CipherWorkerTaskMessage,
+    onBlocks: (blocks: number) => void,
+    signal?: AbortSignal,
+  ): Promise<Uint8Array<any>> {
+    const worker = this.workers_[index];
+    if (this.workerKeys_[index] !== context.keyExpansion) {
+      worker.postMessage({ type: "key", schedule: serializeKeySchedule(context) });
+      this.workerKeys_[index] = context.keyExpansion;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.pending_.delete(message.id);
+        this._restartWorker(index);
+        reject(signal!.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.pending_.set(message.id, {
+        worker: index,
+        resolve: data => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(data);
+        },
+        reject: error => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+        onBlocks,
+      });
+      worker.postMessage(message, [message.data.buffer]);
+    });
+  }
+
+  /**
+   * Обрабатывает ответ потока.
+   * @param {CipherWorkerResponse} response - Ответ.
+   */
+  _handleMessage(response: CipherWorkerResponse): void {
+    const task = this.pending_.get(response.id);
+    if (!task) {
+      return;
+    }
+
+    switch (response.type) {
+      case "progress":
+        task.onBlocks(response.blocks);
+        break;
+      case "done":
+        this.pending_.delete(response.id);
+        task.resolve(response.data);
+        break;
+      case "error": {
+        this.pending_.delete(response.id);
+        const error = new Error(response.message);
+        error.name = response.name;
+        task.reject(error);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Отклоняет все ожидающие задания.
+   * @param {Error} error - Причина.
+   */
+  _failAll(error: Error): void {
+    const tasks = [...this.pending_.values()];
+    this.pending_.clear();
+    for (const task of tasks) {
+      task.reject(error);
+    }
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * @file Реализация X25519 (RFC 7748).
+ * @fileoverview Обмен ключами Диффи-Хеллмана на кривой Curve25519 (лестница Монтгомери)
+ * без зависимости от поддержки Curve25519 в Web Crypto API.
+ */
+
+import { modPow } from "@/modules/crypto/common/bigint_math"
+import { randomBytes } from "@/modules/crypto/common/platform"
+
+/**
+ * Размер приватного и публичного ключа X25519 в байтах.
+ * @type {number}
+ */
+export const X25519_KEY_SIZE_BYTES = 32
+
+/**
+ * Модуль поля p = 2^255 - 19.
+ * @type {bigint}
+ */
+const P = (1n << 255n) - 19n
+
+/**
+ * Константа (A - 2) / 4 для Curve25519, A = 486662.
+ * @type {bigint}
+ */
+const A24 = 121665n
+
+/**
+ * Базовая точка: u = 9.
+ * @type {Uint8Array}
+ */
+const BASE_POINT = new Uint8Array(X25519_KEY_SIZE_BYTES)
+BASE_POINT[0] = 9
+
+/**
+ * Приводит число к диапазону [0, p).
+ * @param {bigint} a - Число.
+ * @returns {bigint} Остаток по модулю p.
+ */
+function mod(a: bigint): bigint {
+  const r = a % P;
+  return r >= 0n ? r : r + P;
+}
+
+/**
+ * Декодирует little-endian число из 32 байт.
+ * @param {Uint8Array} bytes - Байты.
+ * @returns {bigint} Число.
+ */
+function decodeLittleEndian(bytes: Uint8Array): bigint {
+  let result = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    result = (result << 8n) | BigInt(bytes[i]);
+  }
+  return result;
+}
+
+/**
+ * Кодирует число в 32 байта little-endian.
+ * @param {bigint} value - Число в диапазоне [0, p).
+ * @returns {Uint8Array} Байты.
+ */
+function encodeLittleEndian(value: bigint): Uint8Array {
+  const bytes = new Uint8Array(X25519_KEY_SIZE_BYTES);
+  for (let i = 0; i < X25519_KEY_SIZE_BYTES; i++) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes;
+}
+
+/**
+ * Декодирует координату u: старший бит последнего байта игнорируется.
+ * @param {Uint8Array} u - Координата u.
+ * @returns {bigint} Координата u по модулю p.
+ */
+function decodeUCoordinate(u: Uint8Array): bigint {
+  const copy = u.slice();
+  copy[X25519_KEY_SIZE_BYTES - 1] &= 0x7f;
+  return mod(decodeLittleEndian(copy));
+}
+
+/**
+ * Декодирует скаляр с «зажимом» (clamping): сбрасывает три младших бита и старший бит,
+ * устанавливает бит 254.
+ * @param {Uint8Array} k - Скаляр.
+ * @returns {bigint} Зажатый скаляр.
+ */
+function decodeScalar(k: Uint8Array): bigint {
+  const copy = k.slice();
+  copy[0] &= 248;
+  copy[X25519_KEY_SIZE_BYTES - 1] &= 127;
+  copy[X25519_KEY_SIZE_BYTES - 1] |= 64;
+  return decodeLittleEndian(copy);
+}
+
+/**
+ * Проверяет длину ключевого материала.
+ * @param {Uint8Array} value - Проверяемое значение.
+ * @param {string} name - Название для сообщения об ошибке.
+ * @throws {Error} Если длина не равна 32 байтам.
+ */
+function checkLength(value: Uint8Array, name: string): void {
+  if (!(value instanceof Uint8Array) || value.length !== X25519_KEY_SIZE_BYTES) {
+    throw new Error(`${name} X25519 должен быть Uint8Array длиной ${X25519_KEY_SIZE_BYTES} байта.`);
+  }
+}
+
+/**
+ * Функция X25519: умножение точки u на скаляр k лестницей Монтгомери (RFC 7748, раздел 5).
+ * @param {Uint8Array} k - Скаляр (32 байта).
+ * @param {Uint8Array} u - Координата u точки (32 байта).
+ * @returns {Uint8Array} Координата u результата (32 байта).
+ * @throws {Error} Если длина входов некорректна.
+ */
+export function x25519(k: Uint8Array, u: Uint8Array): Uint8Array {
+  checkLength(k, "Скаляр");
+  checkLength(u, "Публичный ключ");
+
+  const scalar = decodeScalar(k);
+  const x1 = decodeUCoordinate(u);
+
+  let x2 = 1n, z2 = 0n, x3 = x1, z3 = 1n;
+  let swap = 0n;
+
+  for (let t = 254n; t >= 0n; t--) {
+    const kt = (scalar >> t) & 1n;
+    swap ^= kt;
+    // Условный обмен через маску, без ветвления по биту скаляра
+    const mask = -swap;
+    let dummy = mask & (x2 ^ x3);
+    x2 ^= dummy;
+    x3 ^= dummy;
+    dummy = mask & (z2 ^ z3);
+    z2 ^= dummy;
+    z3 ^= dummy;
+    swap = kt;
+
+    const a = mod(x2 + z2);
+    const aa = mod(a * a);
+    const b = mod(x2 - z2);
+    const bb = mod(b * b);
+    const e = mod(aa - bb);
+    const c = mod(x3 + z3);
+    const d = mod(x3 - z3);
+    const da = mod(d * a);
+    const cb = mod(c * b);
+    x3 = mod((da + cb) * (da + cb));
+    z3 = mod(x1 * mod((da - cb) * (da - cb)));
+    x2 = mod(aa * bb);
+    z2 = mod(e * (aa + A24 * e));
+  }
+
+  const mask = -swap;
+  let dummy = mask & (x2 ^ x3);
+  x2 ^= dummy;
+  x3 ^= dummy;
+  dummy = mask & (z2 ^ z3);
+  z2 ^= dummy;
+  z3 ^= dummy;
+
+  return encodeLittleEndian(mod(x2 * modPow(z2, P - 2n, P)));
+}
+
+/**
+ * Генерирует пару ключей X25519. Приватный ключ — 32 случайных байта.
+ * @returns {{ publicKey: Uint8Array, privateKey: Uint8Array }} Пара ключей.
+ * @throws {Error} Если генератор случайных чисел недоступен.
+ */
+export function generateX25519Keys(): { publicKey: Uint8Array, privateKey: Uint8Array } {
+  const privateKey = randomBytes(X25519_KEY_SIZE_BYTES);
+
+  return { publicKey: x25519(privateKey, BASE_POINT), privateKey };
+}
+
+/**
+ * Вычисляет общий секрет X25519.
+ * @param {Uint8Array} privateKey - Собственный приватный ключ.
+ * @param {Uint8Array} peerPublicKey - Публичный ключ собеседника.
+ * @returns {Uint8Array} Общий секрет (32 байта).
+ * @throws {Error} Если публичный ключ собеседника лежит в подгруппе малого порядка (секрет нулевой).
+ */
+export function computeX25519SharedSecret(privateKey: Uint8Array, peerPublicKey: Uint8Array): Uint8Array {
+  const secret = x25519(privateKey, peerPublicKey);
+
+  let acc = 0;
+  for (const byte of secret) {
+    acc |= byte;
+  }
+  if (acc === 0) {
+    throw new Error("Публичный ключ X25519 собеседника некорректен: получен нулевой общий секрет.");
+  }
+
+  return secret;
+}
@@ -0,0 +1,69 @@
+/**
+ * @file Консольный прогон контрольных векторов twoFish, MacGuffin и общих примитивов.
+ * @fileoverview Запуск без браузера (Node.js 20, с псевдонимами путей из tsconfig):
+ *
+ *   npx tsx crypto/kat.ts
+ *   npx tsx crypto/kat.ts --alg macguffin
+ *
+ * Без --alg проверяются также общие примитивы (AES и режимы SP 800-38A, CMAC, GHASH/GCM по SP 800-38D,
+ * обертывание ключей, PBKDF2, X25519, случайные числа DH), свойства классов без опубликованных векторов (наборы CipherContext,
+ * GcmContext и BlockAssembler), хранение ключей чатов (набор KeyStorage) и пул потоков шифрования
+ * (набор CipherWorkerPool).
+ * Векторы MacGuffin регрессионные и печатаются с пометкой "(регрессия)".
+ * Печатает результат каждой проверки и завершается с кодом 1, если хотя бы одна не пройдена.
+ */
+
+import { parseArgs } from "node:util"
+
+import { runKeyStorageTests, runKnownAnswerTests, runWorkerPoolTests } from "@/modules/crypto/kat/runner"
+import { CipherAlgorithm } from "@/modules/crypto/common/types"
+
+/**
+ * Алгоритмы по имени параметра --alg.
+ * @type {Record<string, CipherAlgorithm>}
+ */
+const ALGORITHMS: Record<string, CipherAlgorithm> = {
+  twofish: CipherAlgorithm.TwoFish,
+  macguffin: CipherAlgorithm.MacGuffin,
+}
+
+/**
+ * Точка входа.
+ * @param {string[]} argv - Аргументы командной строки.
+ * @returns {Promise<number>} Код завершения.
+ */
+async function main(argv: string[]): Promise<number> {
+  let algorithms: CipherAlgorithm[] | undefined
+  try {
+    const { values } = parseArgs({ args: argv, options: { alg: { type: "string", multiple: true } } })
+    algorithms = values.alg?.map(name => {
+      const algorithm = ALGORITHMS[name.toLowerCase()]
+      if (algorithm === undefined) {
+        throw new Error(`Неизвестный алгоритм: ${name}`)
+      }
+      return algorithm
+    })
+  } catch (e) {
+    process.stderr.write(`${(e as Error).message}\n\nUsage: kat [--alg twofish|macguffin]...\n`)
+    return 2
+  }
+
+  const results = runKnownAnswerTests(algorithms)
+  if (!algorithms) {
+    results.push(...await runKeyStorageTests())
+    results.push(...await runWorkerPoolTests())
+  }
+  for (const result of results) {
+    const status = result.passed ? "ok  " : "FAIL"
+    const details = result.message ? `: ${result.message}` : ""
+    process.stdout.write(`${status} ${result.suite} ${result.name}${details}\n`)
+  }
+
+  const failed = results.filter(result => !result.passed).length
+  process.stdout.write(`\n${results.length - failed}/${results.length} passed\n`)
+  return failed === 0 ? 0 : 1
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code
+})
@@ -0,0 +1,286 @@
+/**
+ * @file Эталонная реализация AES (FIPS 197) для контрольных векторов.
+ * @fileoverview Опубликованные векторы CMAC (RFC 4493), обертывания ключей (RFC 3394, RFC 5649)
+ * и режимов (NIST SP 800-38A) заданы для AES, поэтому общий код проверяется поверх этого шифра.
+ * Реализация побайтовая, без таблиц T и без защиты от атак по времени: она предназначена только
+ * для прогона векторов (см. runner.ts), поэтому лежит в crypto/kat, который рабочий код не импортирует.
+ */
+
+import { IBlockCipher } from "@/modules/crypto/common/interfaces/BlockCipher"
+import { IKeyExpansion } from "@/modules/crypto/common/interfaces/KeyExpansion"
+import { CipherContextBase } from "@/modules/crypto/common/interfaces/CipherContext"
+import { MacGuffinKey } from "@/modules/crypto/common/types"
+
+/**
+ * Размер блока AES в байтах.
+ * @type {number}
+ */
+export const AES_BLOCK_SIZE_BYTES = 16
+
+/**
+ * Количество раундов по длине ключа в байтах.
+ * @type {Record<number, number>}
+ */
+const NUM_ROUNDS: Record<number, number> = {
+  16: 10,
+  24: 12,
+  32: 14,
+}
+
+/**
+ * Умножение на x в GF(2^8) по модулю x^8 + x^4 + x^3 + x + 1.
+ * @param {number} a - Байт.
+ * @returns {number} Произведение.
+ */
+function xtime(a: number): number {
+  return ((a << 1) ^ (a & 0x80 ? 0x1B : 0)) & 0xFF;
+}
+
+/**
+ * Умножение в GF(2^8).
+ * @param {number} a - Первый множитель.
+ * @param {number} b - Второй множитель.
+ * @returns {number} Произведение.
+ */
+function multiply(a: number, b: number): number {
+  let result = 0;
+  for (; b > 0; b >>= 1, a = xtime(a)) {
+    if (b & 1) {
+      result ^= a;
+    }
+  }
+  return result;
+}
+
+/**
+ * Строит S-бокс и обратный S-бокс: обращение в GF(2^8) и аффинное преобразование.
+ * @returns {{ sBox: Uint8Array, invSBox: Uint8Array }} Таблицы подстановки.
+ */
+function buildSBoxes(): { sBox: Uint8Array, invSBox: Uint8Array } {
+  const sBox = new Uint8Array(256);
+  const invSBox = new Uint8Array(256);
+
+  for (let x = 0; x < 256; x++) {
+    let inverse = 0;
+    for (let y = 1; y < 256 && x !== 0; y++) {
+      if (multiply(x, y) === 1) {
+        inverse = y;
+        break;
+      }
+    }
+
+    let s = inverse;
+    for (let shift = 1; shift <= 4; shift++) {
+      s ^= ((inverse << shift) | (inverse >> (8 - shift))) & 0xFF;
+    }
+    sBox[x] = s ^ 0x63;
+    invSBox[s ^ 0x63] = x;
+  }
+
+  return { sBox, invSBox };
+}
+
+const { sBox: S_BOX, invSBox: INV_S_BOX } = buildSBoxes()
+
+/**
+ * Расширяет ключ AES.
+ * @param {Uint8Array} key - Ключ длиной 16, 24 или 32 байта.
+ * @returns {number[]} Раундовые ключи: 4 * (Nr + 1) 32-битных слов (big-endian).
+ * @throws {Error} Если длина ключа некорректна.
+ */
+export function expandAesKey(key: Uint8Array<any>): number[] {
+  const rounds = NUM_ROUNDS[key.length];
+  if (rounds === undefined) {
+    throw new Error("Ключ AES должен быть 16, 24 или 32 байта.");
+  }
+
+  const nk = key.length / 4;
+  const words: number[] = [];
+  for (let i = 0; i < nk; i++) {
+    words.push(((key[4 * i] << 24) | (key[4 * i + 1] << 16) | (key[4 * i + 2] << 8) | key[4 * i + 3]) >>> 0);
+  }
+
+  let rcon = 1;
+  for (let i = nk; i < 4 * (rounds + 1); i++) {
+    let temp = words[i - 1];
+    if (i % nk === 0) {
+      temp = ((temp << 8) | (temp >>> 24)) >>> 0;
+      temp = subWord(temp) ^ (rcon << 24);
+      rcon = xtime(rcon);
+    } else if (nk > 6 && i % nk === 4) {
+      temp = subWord(temp);
+    }
+    words.push((words[i - nk] ^ temp) >>> 0);
+  }
+
+  return words;
+}
+
+/**
+ * Применяет S-бокс к каждому байту слова.
+ * @param {number} word - 32-битное слово.
+ * @returns {number} Результат.
+ */
+function subWord(word: number): number {
+  return ((S_BOX[word >>> 24] << 24) | (S_BOX[(word >>> 16) & 0xFF] << 16)
+    | (S_BOX[(word >>> 8) & 0xFF] << 8) | S_BOX[word & 0xFF]) >>> 0;
+}
+
+/**
+ * Складывает состояние с раундовым ключом.
+ * @param {Uint8Array} state - Состояние (16 байт по столбцам).
+ * @param {number[]} words - Раундовые ключи.
+ * @param {number} round - Номер раунда.
+ */
+function addRoundKey(state: Uint8Array, words: number[], round: number): void {
+  for (let c = 0; c < 4; c++) {
+    const word = words[4 * round + c];
+    state[4 * c] ^= word >>> 24;
+    state[4 * c + 1] ^= (word >>> 16) & 0xFF;
+    state[4 * c + 2] ^= (word >>> 8) & 0xFF;
+    state[4 * c + 3] ^= word & 0xFF;
+  }
+}
+
+/**
+ * Подстановка байтов и циклический сдвиг строк (SubBytes + ShiftRows или их обращения).
+ * @param {Uint8Array} state - Состояние.
+ * @param {Uint8Array} table - S-бокс или обратный S-бокс.
+ * @param {boolean} inverse - Сдвиг вправо вместо сдвига влево.
+ */
+function substituteAndShift(state: Uint8Array, table: Uint8Array, inverse: boolean): void {
+  const source = state.slice();
+  for (let r = 0; r < 4; r++) {
+    for (let c = 0; c < 4; c++) {
+      const from = inverse ? (c + 4 - r) % 4 : (c + r) % 4;
+      state[r + 4 * c] = table[source[r + 4 * from]];
+    }
+  }
+}
+
+/**
+ * Перемешивание столбцов (MixColumns) с заданными коэффициентами матрицы.
+ * @param {Uint8Array} state - Состояние.
+ * @param {number[]} m - Первая строка циркулянтной матрицы.
+ */
+function mixColumns(state: Uint8Array, m: number[]): void {
+  for (let c = 0; c < 4; c++) {
+    const a = state.slice(4 * c, 4 * c + 4);
+    for (let r = 0; r < 4; r++) {
+      state[4 * c + r] = multiply(a[r], m[0]) ^ multiply(a[(r + 1) % 4], m[1])
+        ^ multiply(a[(r + 2) % 4], m[2]) ^ multiply(a[(r + 3) % 4], m[3]);
+    }
+  }
+}
+
+/**
+ * Блочный шифр AES.
+ * @augments IBlockCipher
+ */
+export class AesBlockCipher extends IBlockCipher {
+  /**
+   * Возвращает размер блока шифра в байтах.
+   * @returns {number} Размер блока в байтах.
+   */
+  getBlockSizeBytes(): number {
+    return AES_BLOCK_SIZE_BYTES;
+  }
+
+  /**
+   * Шифрует один 128-битный блок.
+   * @param {Uint8Array} blk - Блок открытого текста.
+   * @param {number[]} key - Раундовые ключи, полученные expandAesKey.
+   * @returns {Uint8Array} Зашифрованный блок.
+   * @throws {Error} Если размер блока некорректен.
+   */
+  encryptBlock(blk: Uint8Array<any>, key: MacGuffinKey | number[]): Uint8Array<any> {
+    const words = key as number[];
+    const rounds = words.length / 4 - 1;
+    const state = this._copyBlock(blk);
+
+    addRoundKey(state, words, 0);
+    for (let round = 1; round < rounds; round++) {
+      substituteAndShift(state, S_BOX, false);
+      mixColumns(state, [2, 3, 1, 1]);
+      addRoundKey(state, words, round);
+    }
+    substituteAndShift(state, S_BOX, false);
+    addRoundKey(state, words, rounds);
+    return state;
+  }
+
+  /**
+   * Дешифрует один 128-битный блок.
+   * @param {Uint8Array} blk - Блок шифротекста.
+   * @param {number[]} key - Раундовые ключи, полученные expandAesKey.
+   * @returns {Uint8Array} Расшифрованный блок.
+   * @throws {Error} Если размер блока некорректен.
+   */
+  decryptBlock(blk: Uint8Array<any>, key: MacGuffinKey | number[]): Uint8Array<any> {
+    const words = key as number[];
+    const rounds = words.length / 4 - 1;
+    const state = this._copyBlock(blk);
+
+    addRoundKey(state, words, rounds);
+    for (let round = rounds - 1; round > 0; round--) {
+      substituteAndShift(state, INV_S_BOX, true);
+      addRoundKey(state, words, round);
+      mixColumns(state, [14, 11, 13, 9]);
+    }
+    substituteAndShift(state, INV_S_BOX, true);
+    addRoundKey(state, words, 0);
+    return state;
+  }
+
+  /**
+   * Копирует блок, проверяя его размер.
+   * @param {Uint8Array} blk - Блок.
+   * @returns {Uint8Array} Копия.
+   * @throws {Error} Если размер блока некорректен.
+   */
+  private _copyBlock(blk: Uint8Array<any>): Uint8Array {
+    if (blk.length !== AES_BLOCK_SIZE_BYTES) {
+      throw new Error(`Блок должен быть ${AES_BLOCK_SIZE_BYTES} байт.`);
+    }
+    return Uint8Array.from(blk);
+  }
+}
+
+/**
+ * Расширение ключа AES.
+ * @augments IKeyExpansion
+ */
+class AesKeyExpansion extends IKeyExpansion {
+  /**
+   * Генерирует раундовые ключи AES.
+   * @param {Uint8Array} masterKey - Ключ длиной 16, 24 или 32 байта.
+   * @throws {Error} Если длина ключа некорректна.
+   */
+  generateRoundKeys(masterKey: Uint8Array): void {
+    this.roundKeys_ = expandAesKey(masterKey);
+  }
+}
+
+/**
+ * Контекст шифрования поверх AES: позволяет прогнать векторы режимов NIST SP 800-38A
+ * через общий код режимов CipherContextBase. Алгоритма AES нет в CipherAlgorithm,
+ * поэтому контекст не подходит для контейнеров и файлов.
+ * @augments CipherContextBase
+ */
+export class AesCipherContext extends CipherContextBase {
+  public getBlockSizeBytes(): number {
+    return AES_BLOCK_SIZE_BYTES;
+  }
+
+  /**
+   * Устанавливает ключ и генерирует раундовые ключи.
+   * @param {Uint8Array} masterKey - Ключ длиной 16, 24 или 32 байта.
+   * @throws {Error} Если длина ключа некорректна.
+   */
+  public setMasterKey(masterKey: Uint8Array): void {
+    const keyExpansion = new AesKeyExpansion();
+    keyExpansion.generateRoundKeys(masterKey);
+    this.setBlockCipher(new AesBlockCipher()).setKeyExpansion(keyExpansion);
+    super.setMasterKey(masterKey);
+  }
+}
@@ -0,0 +1,640 @@
+/**
+ * @file Прогон контрольных векторов twoFish, MacGuffin и общих примитивов.
+ * @fileoverview Проверяет шифрование одиночных блоков, цепочки ecb_ival, Монте-Карло тесты,
+ * а также все пары режим/набивка на векторах из constants/knownAnswers. Векторы MacGuffin
+ * регрессионные, их набор помечается в результатах. Общие примитивы (режимы SP 800-38A, CMAC,
+ * GHASH и GCM по SP 800-38D, обертывание ключей) проверяются по опубликованным векторам поверх
+ * эталонного AES, X25519 - по векторам RFC 7748, PBKDF2 без SubtleCrypto - по RFC 7914. Наборы CipherContext, GcmContext и BlockAssembler
+ * проверяют свойства, для которых нет опубликованных векторов (произвольный доступ через seek,
+ * отклонение подмененных запечатанных блоков, сборка блоков в исходном формате), набор DH - отсутствие
+ * смещения у случайных чисел для ключей Диффи-Хеллмана. Набор KeyStorage
+ * асинхронный (PBKDF2) и запускается отдельно через runKeyStorageTests, набор CipherWorkerPool - через
+ * runWorkerPoolTests. Не зависит от DOM и выполняется как в браузере,
+ * так и в Node.js (см. crypto/kat.ts). Рабочий код этот модуль не импортирует.
+ */
+
+import { CipherContextBase } from "@/modules/crypto/common/interfaces/CipherContext"
+import { createCipherContext } from "@/modules/crypto/common/key_schedule"
+import { AES_BLOCK_SIZE_BYTES, AesBlockCipher, AesCipherContext, expandAesKey } from "@/modules/crypto/kat/aes"
+import { Cmac, deriveCmacSubkeys } from "@/modules/crypto/common/cmac"
+import { Gcm } from "@/modules/crypto/common/gcm"
+import { ghash } from "@/modules/crypto/common/ghash"
+import { GcmContext } from "@/modules/crypto/twoFish/GcmContext"
+import { BlockAssembler } from "@/modules/crypto/common/block_assembler"
+import { CipherWorkerLike, CipherWorkerPool, ContentProgress, trackContentProgress } from "@/modules/crypto/common/worker_pool"
+import { createCipherWorkerHandler } from "@/modules/crypto/common/cipher_worker"
+import { unwrapKey, unwrapKeyWithPadding, wrapKey, wrapKeyWithPadding } from "@/modules/crypto/common/key_wrap"
+import { AuthenticationError } from "@/modules/crypto/common/errors"
+import { decryptKey, decryptKeyBytes, migrateLegacyKey } from "@/modules/crypto/common/keys_worker"
+import { generateRandomBigInt } from "@/modules/crypto/common/bigint_math"
+import { digest } from "@/modules/crypto/common/sha2"
+import { deriveBitsPBKDF2Fallback } from "@/modules/crypto/kdf"
+import { computeX25519SharedSecret, x25519, X25519_KEY_SIZE_BYTES } from "@/modules/crypto/common/x25519"
+import { CipherAlgorithm, CipherPadding } from "@/modules/crypto/common/types"
+import { CipherMode } from "@/types/state"
+import { bytesToHex, concatBytes, hexToBytes } from "@/modules/crypto/common/bits_operation"
+import {
+  AES_BLOCK_VECTORS,
+  AES_MODE_VECTORS,
+  AlgorithmVectors,
+  CMAC_VECTORS,
+  GCM_VECTORS,
+  GHASH_VECTORS,
+  KEY_WRAP_VECTORS,
+  PBKDF2_VECTORS,
+  KNOWN_ANSWER_VECTORS,
+  X25519_VECTORS,
+} from "@/modules/crypto/common/constants/knownAnswers"
+
+/**
+ * Результат одной проверки.
+ * @property {string} suite - Набор: имя алгоритма (TwoFish, MacGuffin с пометкой регрессии), примитива
+ * (AES, CMAC, GHASH, GCM, KeyWrap, PBKDF2, X25519, DH) или проверяемого кода (CipherContext, GcmContext, BlockAssembler,
+ * KeyStorage, CipherWorkerPool).
+ * @property {string} name - Название проверки.
+ * @property {boolean} passed - Пройдена ли проверка.
+ * @property {string} [message] - Описание расхождения или текст ошибки.
+ */
+export interface KnownAnswerResult {
+  suite: string
+  name: string
+  passed: boolean
+  message?: string
+}
+
+/**
+ * Создает контекст и устанавливает ключ.
+ * @param {CipherAlgorithm} algorithm - Алгоритм.
+ * @param {string} key - Ключ в hex.
+ * @returns {CipherContextBase} Контекст с ключом.
+ */
+function keyedContext(algorithm: CipherAlgorithm, key: string): CipherContextBase {
+  const context = createCipherContext(algorithm);
+  context.setMasterKey(hexToBytes(key));
+  return context;
+}
+
+/**
+ * Шифрует или дешифрует один блок напрямую блочным шифром контекста.
+ * @param {CipherContextBase} context - Контекст с ключом.
+ * @param {Uint8Array} block - Блок.
+ * @param {boolean} encrypting - Направление.
+ * @returns {Uint8Array} Результат.
+ */
+function processBlock(context: CipherContextBase, block: Uint8Array, encrypting: boolean): Uint8Array {
+  const roundKeys = context.keyExpansion.roundKeys!;
+  return encrypting
+    ? context.blockCipher.encryptBlock(block, roundKeys)
+    : context.blockCipher.decryptBlock(block, roundKeys);
+}
+
+/**
+ * Сравнивает результат с ожидаемым значением.
+ * @param {Uint8Array} actual - Полученные байты.
+ * @param {string} expected - Ожидаемое значение в hex.
+ * @throws {Error} Если значения различаются.
+ */
+function expectHex(actual: Uint8Array, expected: string): void {
+  const hex = bytesToHex(actual);
+  if (hex !== expected.toUpperCase()) {
+    throw new Error(`ожидалось ${expected.toUpperCase()}, получено ${hex}`);
+  }
+}
+
+/**
+ * Выполняет проверку и записывает результат; исключение считается провалом.
+ * @param {KnownAnswerResult[]} results - Список результатов.
+ * @param {string} suite - Набор.
+ * @param {string} name - Название проверки.
+ * @param {() => void} check - Проверка, бросающая исключение при расхождении.
+ */
+function record(results: KnownAnswerResult[], suite: string, name: string, check: () => void): void {
+  try {
+    check();
+    results.push({ suite, name, passed: true });
+  } catch (e) {
+    results.push({ suite, name, passed: false, message: (e as Error).message });
+  }
+}
+
+/**
+ * Выполняет асинхронную проверку и записывает результат; исключение считается провалом.
+ * @param {KnownAnswerResult[]} results - Список результатов.
+ * @param {string} suite - Набор.
+ * @param {string} name - Название проверки.
+ * @param {() => Promise<void>} check - Проверка, отклоняющаяся при расхождении.
+ * @returns {Promise<void>} Промис, разрешающийся после записи результата.
+ */
+async function recordAsync(results: KnownAnswerResult[], suite: string, name: string, check: () => Promise<void>): Promise<void> {
+  try {
+    await check();
+    results.push({ suite, name, passed: true });
+  } catch (e) {
+    results.push({ suite, name, passed: false, message: (e as Error).message });
+  }
+}
+
+/**
+ * Прогоняет векторы одного алгоритма.
+ * @param {CipherAlgorithm} algorithm - Алгоритм.
+ * @param {AlgorithmVectors} vectors - Векторы.
+ * @param {KnownAnswerResult[]} results - Список, в который добавляются результаты.
+ */
+function runAlgorithm(algorithm: CipherAlgorithm, vectors: AlgorithmVectors, results: KnownAnswerResult[]): void {
+  const suite = vectors.regression ? `${CipherAlgorithm[algorithm]} (регрессия)` : CipherAlgorithm[algorithm];
+
+  vectors.blocks.forEach((vector, i) => {
+    record(results, suite, `block #${i + 1} (${vector.key.length * 4} бит)`, () => {
+      const context = keyedContext(algorithm, vector.key);
+      expectHex(processBlock(context, hexToBytes(vector.plaintext), true), vector.ciphertext);
+      expectHex(processBlock(context, hexToBytes(vector.ciphertext), false), vector.plaintext);
+    });
+  });
+
+  for (const vector of vectors.chains) {
+    record(results, suite, `chain ${vector.iterations} (${vector.keySizeBytes * 8} бит)`, () => {
+      const blockSize = createCipherContext(algorithm).getBlockSizeBytes();
+      let key: Uint8Array = new Uint8Array(vector.keySizeBytes);
+      let plaintext: Uint8Array = new Uint8Array(blockSize);
+      let ciphertext: Uint8Array = plaintext;
+
+      for (let i = 0; i < vector.iterations; i++) {
+        const context = createCipherContext(algorithm);
+        context.setMasterKey(key);
+        ciphertext = processBlock(context, plaintext, true);
+
+        const nextKey = new Uint8Array(vector.keySizeBytes);
+        nextKey.set(plaintext);
+        nextKey.set(key.subarray(0, vector.keySizeBytes - blockSize), blockSize);
+        key = nextKey;
+        plaintext = ciphertext;
+      }
+
+      expectHex(ciphertext, vector.ciphertext);
+    });
+  }
+
+  vectors.monteCarlo.forEach((vector, i) => {
+    const bits = vector.key.length * 4;
+    const context = keyedContext(algorithm, vector.key);
+
+    record(results, suite, `monte-carlo encrypt #${i + 1} (${bits} бит)`, () => {
+      let block = hexToBytes(vector.plaintext);
+      for (let j = 0; j < vector.iterations; j++) {
+        block = processBlock(context, block, true);
+      }
+      expectHex(block, vector.encrypted);
+    });
+
+    record(results, suite, `monte-carlo decrypt #${i + 1} (${bits} бит)`, () => {
+      let block = hexToBytes(vector.plaintext);
+      for (let j = 0; j < vector.iterations; j++) {
+        block = processBlock(context, block, false);
+      }
+      expectHex(block, vector.decrypted);
+    });
+  });
+
+  const { key, iv, plaintext, vectors: modeVectors } = vectors.modes;
+  for (const vector of modeVectors) {
+    record(results, suite, `${vector.mode}/${vector.padding}`, () => {
+      const context = keyedContext(algorithm, key);
+      context.setMode(vector.mode).setPadding(vector.padding).setIv(hexToBytes(iv));
+
+      // Набивка ISO10126 случайна: шифротекст проверяется только дешифрованием.
+      if (vector.padding !== CipherPadding.ISO10126) {
+        expectHex(context.encryptData(hexToBytes(plaintext)), vector.ciphertext);
+      }
+      expectHex(context.decryptData(hexToBytes(vector.ciphertext)), plaintext);
+    });
+  }
+}
+
+/**
+ * Прогоняет векторы общих примитивов поверх эталонного AES.
+ * @param {KnownAnswerResult[]} results - Список, в который добавляются результаты.
+ */
+function runPrimitives(results: KnownAnswerResult[]): void {
+  const aes = new AesBlockCipher();
+
+  AES_BLOCK_VECTORS.forEach((vector, i) => {
+    record(results, "AES", `block #${i + 1} (${vector.key.length * 4} бит)`, () => {
+      const roundKeys = expandAesKey(hexToBytes(vector.key));
+      expectHex(aes.encryptBlock(hexToBytes(vector.plaintext), roundKeys), vector.ciphertext);
+      expectHex(aes.decryptBlock(hexToBytes(vector.ciphertext), roundKeys), vector.plaintext);
+    });
+  });
+
+  for (const vector of AES_MODE_VECTORS.vectors) {
+    record(results, "AES", `SP 800-38A ${vector.mode}`, () => {
+      const context = new AesCipherContext();
+      context.setMasterKey(hexToBytes(AES_MODE_VECTORS.key));
+      context.setMode(vector.mode).setOptions({ counterBytes: AES_BLOCK_SIZE_BYTES });
+
+      // Векторы заданы без набивки, поэтому блоки подаются напрямую в encryptInto/decryptInto.
+      const plaintext = hexToBytes(AES_MODE_VECTORS.plaintext);
+      const ciphertext = hexToBytes(vector.ciphertext);
+      const output = new Uint8Array(plaintext.length);
+
+      context.setIv(vector.iv === null ? null : hexToBytes(vector.iv));
+      for (let offset = 0; offset < plaintext.length; offset += AES_BLOCK_SIZE_BYTES) {
+        context.encryptInto(plaintext, offset, output, offset);
+      }
+      expectHex(output, vector.ciphertext);
+
+      context.setIv(vector.iv === null ? null : hexToBytes(vector.iv));
+      for (let offset = 0; offset < ciphertext.length; offset += AES_BLOCK_SIZE_BYTES) {
+        context.decryptInto(ciphertext, offset, output, offset);
+      }
+      expectHex(output, AES_MODE_VECTORS.plaintext);
+    });
+  }
+
+  for (const vector of CMAC_VECTORS.subkeys) {
+    record(results, "CMAC", `subkeys (${vector.l.length * 4}-битный блок)`, () => {
+      const { k1, k2 } = deriveCmacSubkeys(hexToBytes(vector.l));
+      expectHex(k1, vector.k1);
+      expectHex(k2, vector.k2);
+    });
+  }
+
+  const roundKeys = expandAesKey(hexToBytes(CMAC_VECTORS.key));
+  for (const vector of CMAC_VECTORS.tags) {
+    record(results, "CMAC", `AES-128 tag (${vector.message.length / 2} байт)`, () => {
+      const message = hexToBytes(vector.message);
+      expectHex(Cmac.compute(aes, roundKeys, message), vector.tag);
+
+      // Побайтовая подача проверяет буферизацию последнего блока.
+      const cmac = new Cmac(aes, roundKeys);
+      message.forEach((_, j) => cmac.update(message.subarray(j, j + 1)));
+      expectHex(cmac.finalize(), vector.tag);
+    });
+  }
+
+  for (const vector of KEY_WRAP_VECTORS) {
+    const rfc = vector.padded ? "RFC 5649" : "RFC 3394";
+    record(results, "KeyWrap", `${rfc} KEK ${vector.kek.length * 4} бит, ключ ${vector.key.length / 2} байт`, () => {
+      const kek = { blockCipher: aes, roundKeys: expandAesKey(hexToBytes(vector.kek)) };
+      const wrap = vector.padded ? wrapKeyWithPadding : wrapKey;
+      const unwrap = vector.padded ? unwrapKeyWithPadding : unwrapKey;
+
+      expectHex(wrap(kek, hexToBytes(vector.key)), vector.wrapped);
+      expectHex(unwrap(kek, hexToBytes(vector.wrapped)), vector.key);
+
+      const tampered = hexToBytes(vector.wrapped);
+      tampered[tampered.length - 1] ^= 1;
+      expectAuthenticationError(() => unwrap(kek, tampered), "искаженный ключ развернут без ошибки");
+    });
+  }
+
+  GHASH_VECTORS.forEach((vector, i) => {
+    record(results, "GHASH", `SP 800-38D #${i + 2}`, () => {
+      expectHex(ghash(hexToBytes(vector.h), hexToBytes(vector.aad), hexToBytes(vector.ciphertext)), vector.hash);
+    });
+  });
+
+  GCM_VECTORS.forEach((vector, i) => {
+    record(results, "GCM", `AES-128 #${i + 1} (IV ${vector.iv.length / 2} байт)`, () => {
+      const gcm = new Gcm(aes, expandAesKey(hexToBytes(vector.key)));
+      const iv = hexToBytes(vector.iv);
+      const aad = hexToBytes(vector.aad);
+
+      const { ciphertext, tag } = gcm.encrypt(hexToBytes(vector.plaintext), iv, aad);
+      expectHex(ciphertext, vector.ciphertext);
+      expectHex(tag, vector.tag);
+      expectHex(gcm.decrypt(ciphertext, tag, iv, aad), vector.plaintext);
+
+      tag[0] ^= 1;
+      expectAuthenticationError(() => gcm.decrypt(ciphertext, tag, iv, aad), "искаженный тег GCM принят");
+    });
+  });
+
+  for (const vector of PBKDF2_VECTORS) {
+    record(results, "PBKDF2", `RFC 7914 SHA-256, ${vector.iterations} итераций (без SubtleCrypto)`, () => {
+      const encoder = new TextEncoder();
+      const derived = deriveBitsPBKDF2Fallback(encoder.encode(vector.password), encoder.encode(vector.salt), vector.iterations, 512, "SHA-256");
+      expectHex(derived, vector.derived);
+    });
+  }
+
+  record(results, "DH", "generateRandomBigInt без смещения", () => {
+    // При max = 192 остаток от деления байта дал бы [0, 64) вдвое чаще: доля 1/2 вместо 1/3.
+    const max = 192n;
+    const draws = 6000;
+    let low = 0;
+    for (let i = 0; i < draws; i++) {
+      const value = generateRandomBigInt(max);
+      if (value < 0n || value >= max) {
+        throw new Error(`значение ${value} вне диапазона [0, ${max})`);
+      }
+      if (value < 64n) {
+        low++;
+      }
+    }
+    if (low > draws * 0.4) {
+      throw new Error(`доля значений < 64 равна ${low / draws}, ожидалось около 1/3`);
+    }
+  });
+
+  X25519_VECTORS.scalarMult.forEach((vector, i) => {
+    record(results, "X25519", `scalar mult #${i + 1}`, () => {
+      expectHex(x25519(hexToBytes(vector.scalar), hexToBytes(vector.u)), vector.output);
+    });
+  });
+
+  for (const vector of X25519_VECTORS.iterations) {
+    record(results, "X25519", `iterated ${vector.iterations}`, () => {
+      let k: Uint8Array = new Uint8Array(X25519_KEY_SIZE_BYTES);
+      k[0] = 9;
+      let u = k;
+      for (let i = 0; i < vector.iterations; i++) {
+        [k, u] = [x25519(k, u), k];
+      }
+      expectHex(k, vector.output);
+    });
+  }
+
+  record(results, "X25519", "Alice/Bob shared secret", () => {
+    const { alicePrivate, alicePublic, bobPrivate, bobPublic, shared } = X25519_VECTORS.exchange;
+    const basePoint = new Uint8Array(X25519_KEY_SIZE_BYTES);
+    basePoint[0] = 9;
+
+    expectHex(x25519(hexToBytes(alicePrivate), basePoint), alicePublic);
+    expectHex(x25519(hexToBytes(bobPrivate), basePoint), bobPublic);
+    expectHex(computeX25519SharedSecret(hexToBytes(alicePrivate), hexToBytes(bobPublic)), shared);
+    expectHex(computeX25519SharedSecret(hexToBytes(bobPrivate), hexToBytes(alicePublic)), shared);
+  });
+}
+
+/**
+ * Сравнивает два массива байтов.
+ * @param {Uint8Array} actual - Полученные байты.
+ * @param {Uint8Array} expected - Ожидаемые байты.
+ * @throws {Error} Если массивы различаются.
+ */
+function expectBytes(actual: Uint8Array, expected: Uint8Array): void {
+  expectHex(actual, bytesToHex(expected));
+}
+
+/**
+ * Проверяет, что действие завершается исключением.
+ * @param {Function} action - Проверяемое действие.
+ * @param {string} message - Текст ошибки, если действие завершилось без исключения.
+ * @throws {Error} Если исключения не было.
+ */
+function expectThrows(action: () => unknown, message: string): void {
+  try {
+    action();
+  } catch {
+    return;
+  }
+  throw new Error(message);
+}
+
+/**
+ * Проверяет, что действие отклонено с AuthenticationError.
+ * @param {Function} action - Проверяемое действие.
+ * @param {string} message - Текст ошибки, если действие завершилось без исключения.
+ * @throws {Error} Если исключения не было или оно другого типа.
+ */
+function expectAuthenticationError(action: () => unknown, message: string): void {
+  try {
+    action();
+  } catch (e) {
+    if (e instanceof AuthenticationError) {
+      return;
+    }
+    throw e;
+  }
+  throw new Error(message);
+}
+
+/**
+ * Проверяет свойства контекста шифрования, которые не выражаются векторами.
+ * @param {KnownAnswerResult[]} results - Список, в который добавляются результаты.
+ */
+function runContextChecks(results: KnownAnswerResult[]): void {
+  const key = hexToBytes(KNOWN_ANSWER_VECTORS[CipherAlgorithm.TwoFish].modes.key);
+  const iv = hexToBytes(KNOWN_ANSWER_VECTORS[CipherAlgorithm.TwoFish].modes.iv);
+  const plaintext = new Uint8Array(80).map((_, i) => i);
+  const createCtr = () => {
+    const context = keyedContext(CipherAlgorithm.TwoFish, bytesToHex(key));
+    context.setMode(CipherMode.CTR).setPadding(CipherPadding.PKCS7).setIv(iv);
+    return context;
+  };
+  const ciphertext = createCtr().encryptData(plaintext);
+  const offset = 2 * createCtr().getBlockSizeBytes();
+
+  record(results, "CipherContext", "CTR seek + decryptData", () => {
+    const context = createCtr().seek(2);
+    expectBytes(context.decryptData(ciphertext.subarray(offset)), plaintext.subarray(offset));
+    // После final() позиция возвращается к блоку, заданному seek.
+    expectBytes(context.decryptData(ciphertext.subarray(offset)), plaintext.subarray(offset));
+  });
+
+  record(results, "CipherContext", "CTR seek + update/final", () => {
+    const context = createCtr().seek(2);
+    context.startDecryption();
+    const parts = [];
+    for (let i = offset; i < ciphertext.length; i += 7) {
+      parts.push(context.update(ciphertext.subarray(i, i + 7)));
+    }
+    parts.push(context.final());
+    expectBytes(concatBytes(...parts), plaintext.subarray(offset));
+  });
+
+  for (const mode of [CipherMode.CTR, CipherMode.OFB]) {
+    record(results, "CipherContext", `${mode} повторный encryptData`, () => {
+      const context = keyedContext(CipherAlgorithm.TwoFish, bytesToHex(key));
+      context.setMode(mode).setPadding(CipherPadding.PKCS7).setIv(iv);
+      const first = context.encryptData(plaintext);
+
+      expectThrows(() => context.encryptData(plaintext), "повторное шифрование с тем же IV не отклонено");
+
+      const nextIv = iv.map(byte => byte ^ 0xFF);
+      const second = context.setIv(nextIv).encryptData(plaintext);
+      if (bytesToHex(second) === bytesToHex(first)) {
+        throw new Error("два шифрования подряд дали одинаковый шифротекст");
+      }
+      expectBytes(context.decryptData(second), plaintext);
+    });
+  }
+
+  record(results, "GcmContext", "sealBlock + openBlock", () => {
+    const gcm = new GcmContext().setMasterKey(key);
+    const sealed = gcm.sealBlock(3, 1700000000000, 42, plaintext, 5);
+
+    const { header, payload } = gcm.openBlock(sealed);
+    expectBytes(payload, plaintext);
+    if (header.blockId !== 3 || header.receiverId !== 42 || header.blockCount !== 5) {
+      throw new Error("заголовок запечатанного блока разобран неверно");
+    }
+
+    // Заголовок входит в AAD: подмена получателя обнаруживается так же, как подмена данных.
+    const forgedHeader = sealed.slice();
+    forgedHeader[5] ^= 1;
+    expectAuthenticationError(() => gcm.openBlock(forgedHeader), "подмененный заголовок принят");
+
+    const forgedBody = sealed.slice();
+    forgedBody[forgedBody.length - 20] ^= 1;
+    expectAuthenticationError(() => gcm.openBlock(forgedBody), "подмененный шифротекст принят");
+  });
+}
+
+/**
+ * Проверяет сборку сообщения из блоков в исходном формате заголовка.
+ * @param {KnownAnswerResult[]} results - Список, в который добавляются результаты.
+ */
+function runAssemblerChecks(results: KnownAnswerResult[]): void {
+  record(results, "BlockAssembler", "legacyHeaders без blockCount", () => {
+    expectThrows(() => new BlockAssembler({ legacyHeaders: true }), "сборщик создан без числа блоков");
+  });
+
+  record(results, "BlockAssembler", "legacyHeaders + blockCount", () => {
+    const parts = [new Uint8Array([1, 2]), new Uint8Array([3]), new Uint8Array([4, 5, 6])];
+    const assembler = new BlockAssembler({ legacyHeaders: true, blockCount: parts.length });
+
+    for (const blockId of [2, 0, 1]) {
+      assembler.push(CipherContextBase.uploadBlockHeader(blockId, 1700000000000, 42, parts[blockId]));
+    }
+    expectBytes(assembler.assemble(), concatBytes(...parts));
+  });
+}
+
+/**
+ * Проверяет хранение ключей чатов (keys_worker): перевод из исходного формата
+ * и отказ от прежнего KEK без соли. Асинхронна, так как KEK выводится через PBKDF2.
+ * @returns {Promise<KnownAnswerResult[]>} Результаты проверок.
+ */
+export async function runKeyStorageTests(): Promise<KnownAnswerResult[]> {
+  const results: KnownAnswerResult[] = [];
+  const password = "correct horse";
+  const chatKey = "chat-key-0123456789";
+
+  await recordAsync(results, "KeyStorage", "migrateLegacyKey", async () => {
+    const migrated = await migrateLegacyKey(btoa(chatKey + password), password);
+    if (migrated === null) {
+      throw new Error("ключ исходного формата не распознан");
+    }
+    if (await decryptKey(migrated, password) !== chatKey) {
+      throw new Error("после перевода ключ разворачивается неверно");
+    }
+    if (await migrateLegacyKey(migrated, password) !== null) {
+      throw new Error("ключ текущего формата переведен повторно");
+    }
+  });
+
+  await recordAsync(results, "KeyStorage", "KEK = SHA-256(пароль) отклоняется", async () => {
+    const context = createCipherContext(CipherAlgorithm.TwoFish);
+    context.setMasterKey(await digest("SHA-256", new TextEncoder().encode(password)));
+    const kek = { blockCipher: context.blockCipher, roundKeys: context.keyExpansion.roundKeys as number[] };
+    const wrapped = wrapKeyWithPadding(kek, new TextEncoder().encode(chatKey));
+
+    try {
+      await decryptKeyBytes(wrapped, password);
+    } catch {
+      return;
+    }
+    throw new Error("ключ, обернутый прежним KEK, развернут");
+  });
+
+  return results;
+}
+
+/**
+ * Создает поток шифрования, выполняющий задания в текущем потоке: модульный Worker
+ * недоступен в Node.js, а обработчик потока и протокол сообщений те же.
+ * @returns {CipherWorkerLike} Поток шифрования.
+ */
+function createInlineWorker(): CipherWorkerLike {
+  const worker: CipherWorkerLike = {
+    onmessage: null,
+    onerror: null,
+    postMessage: message => queueMicrotask(() => handle(message)),
+    terminate: () => {},
+  };
+  const handle = createCipherWorkerHandler(response => worker.onmessage?.({ data: response }));
+  return worker;
+}
+
+/**
+ * Проверяет шифрование вложений пулом потоков и перевод его прогресса в единицы
+ * таблицы GET_BRIEF_CONTENT_DETAILS. Асинхронна, так как пул отвечает сообщениями.
+ * @returns {Promise<KnownAnswerResult[]>} Результаты проверок.
+ */
+export async function runWorkerPoolTests(): Promise<KnownAnswerResult[]> {
+  const results: KnownAnswerResult[] = [];
+  const key = "00112233445566778899aabbccddeeff";
+  const iv = new Uint8Array(16).map((_, i) => i);
+
+  record(results, "CipherWorkerPool", "trackContentProgress", () => {
+    const content: ContentProgress = { encrypted: 0, blockCount: 4 };
+    const onProgress = trackContentProgress(content);
+    const observed = [0, 99, 100, 399, 400].map(processed => {
+      onProgress(processed, 400);
+      return content.encrypted;
+    });
+    if (observed.join() !== "0,0,1,3,4") {
+      throw new Error(`получено ${observed.join()}, ожидалось 0,0,1,3,4`);
+    }
+
+    onProgress(0, 0);
+    if (content.encrypted !== content.blockCount) {
+      throw new Error("пустое вложение не отмечено зашифрованным");
+    }
+  });
+
+  await recordAsync(results, "CipherWorkerPool", "encrypt + прогресс вложения", async () => {
+    // Три фрагмента по PROGRESS_INTERVAL_BLOCKS и блок набивки: два потока, несколько отчетов о прогрессе.
+    const data = new Uint8Array(3 * 4096 * 16).map((_, i) => i * 7);
+    const createCtr = () => {
+      const context = keyedContext(CipherAlgorithm.TwoFish, key);
+      context.setMode(CipherMode.CTR).setPadding(CipherPadding.PKCS7).setIv(iv);
+      return context;
+    };
+
+    const content: ContentProgress = { encrypted: 0, blockCount: 5 };
+    const track = trackContentProgress(content);
+    const observed: number[] = [];
+
+    const pool = new CipherWorkerPool({ size: 2, createWorker: createInlineWorker });
+    try {
+      const ciphertext = await pool.encrypt(createCtr(), data, {
+        onProgress: (processedBytes, totalBytes) => {
+          track(processedBytes, totalBytes);
+          observed.push(content.encrypted);
+        },
+      });
+      expectBytes(ciphertext, createCtr().encryptData(data));
+    } finally {
+      pool.terminate();
+    }
+
+    if (observed.some((value, i) => i > 0 && value < observed[i - 1])) {
+      throw new Error(`прогресс убывает: ${observed.join()}`);
+    }
+    if (observed.length < 2 || observed[0] >= content.blockCount || content.encrypted !== content.blockCount) {
+      throw new Error(`неожиданный прогресс: ${observed.join()}`);
+    }
+  });
+
+  return results;
+}
+
+/**
+ * Прогоняет контрольные векторы выбранных алгоритмов.
+ * @param {CipherAlgorithm[]} [algorithms] - Алгоритмы (по умолчанию все, а также общие примитивы).
+ * @returns {KnownAnswerResult[]} Результаты всех проверок.
+ */
+export function runKnownAnswerTests(algorithms?: CipherAlgorithm[]): KnownAnswerResult[] {
+  const results: KnownAnswerResult[] = [];
+  for (const algorithm of algorithms ?? [CipherAlgorithm.TwoFish, CipherAlgorithm.MacGuffin]) {
+    runAlgorithm(algorithm, KNOWN_ANSWER_VECTORS[algorithm], results);
+  }
+  if (!algorithms) {
+    runPrimitives(results);
+    runContextChecks(results);
+    runAssemblerChecks(results);
+  }
+  return results;
+}
@@ -1,117 +1,212 @@
-/**
- * @file Реализация KDF (Key Derivation Function) для фронтенда с использованием PBKDF2.
- * @fileoverview Этот файл предоставляет функцию для вывода криптографических ключей из паролей
- * или других секретных значений с использованием PBKDF2 и Web Crypto API.
- */
-
-// PBKDF2 (Password-Based Key Derivation Function 2) - это функция вывода ключей,
-// которая является частью PKCS #5 v2.0. Она используется для уменьшения уязвимости
-// криптографических ключей к атакам методом грубой силы, увеличивая время,
-// необходимое для выполнения каждого вычисления ключа.
-// PBKDF2 использует псевдослучайную функцию (обычно HMAC) для итеративного вычисления
-// ключей, а также "соль" для защиты от атак по радужным таблицам.
-
-/**
- * Выводит криптографический ключ из пароля или другого секретного значения с использованием PBKDF2.
- *
- * @param {string | Uint8Array | ArrayBuffer} password - Пароль или исходное секретное значение.
- * Может быть строкой, Uint8Array или ArrayBuffer.
- * @param {Uint8Array} salt - Криптографически случайная "соль". Должна быть уникальной для каждого вывода ключа.
- * Рекомендуется использовать соль длиной не менее 16 байт (128 бит).
- * @param {number} iterations - Количество итераций. Чем больше, тем безопаснее, но медленнее.
- * Рекомендуется от 100,000 до миллиона для паролей, в зависимости от целевой платформы и угроз.
- * @param {number} keyLengthBits - Желаемая длина выведенного ключа в битах (например, 256 для AES-256).
- * @param {string} hashAlgorithm - Хеш-алгоритм для использования внутри PBKDF2 (например, 'SHA-256', 'SHA-384', 'SHA-512').
- * @returns {Promise<CryptoKey>} Promise, который разрешается с объектом CryptoKey.
- * @throws {Error} Если Web Crypto API недоступен или параметры некорректны.
- */
-export default async function deriveKeyPBKDF2(password, salt, iterations, keyLengthBits, hashAlgorithm) {
-    if (!window.crypto || !window.crypto.subtle) {
-        throw new Error("Ваш браузер не поддерживает Web Crypto API.");
-    }
-    if (!(salt instanceof Uint8Array)) {
-        throw new Error("Параметр 'salt' должен быть Uint8Array.");
-    }
-    if (iterations <= 0) {
-        throw new Error("Количество итераций должно быть положительным числом.");
-    }
-    if (keyLengthBits <= 0 || keyLengthBits % 8 !== 0) {
-        throw new Error("Длина ключа должна быть положительным числом, кратным 8.");
-    }
-
-    let passwordBuffer;
-    if (typeof password === 'string') {
-        const encoder = new TextEncoder();
-        passwordBuffer = encoder.encode(password);
-    } else if (password instanceof Uint8Array || password instanceof ArrayBuffer) {
-        passwordBuffer = password;
-    } else {
-        throw new Error("Пароль должен быть строкой, Uint8Array или ArrayBuffer.");
-    }
-
-    try {
-        // Импортируем пароль как "сырой" ключ, который будет использоваться в качестве базового ключа для PBKDF2
-        const baseKey = await window.crypto.subtle.importKey(
-            "raw",
-            passwordBuffer,
-            { name: "PBKDF2" }, // Указываем, что этот ключ будет использоваться с PBKDF2
-            false,              // Неэкспортируемый
-            ["deriveKey", "deriveBits"] // Разрешаем использование для вывода ключей или бит
-        );
-
-        // Определяем параметры для PBKDF2
-        const pbkdf2Params = {
-            name: "PBKDF2",
-            salt: salt,
-            iterations: iterations,
-            hash: { name: hashAlgorithm },
-        };
-
-        // Определяем параметры для выходного ключа (например, для AES-GCM)
-        const derivedKeyAlgorithm = {
-            name: "AES-GCM", // Или "HMAC", "AES-CBC" и т.д.
-            length: keyLengthBits,
-        };
-
-        // Использование "deriveKey" для получения CryptoKey
-        const derivedKey = await window.crypto.subtle.deriveKey(
-            pbkdf2Params,
-            baseKey,
-            derivedKeyAlgorithm,
-            true, // Экспортируемый (чтобы можно было его использовать для шифрования/дешифрования)
-            ["encrypt", "decrypt"] // Или "sign", "verify" и т.д. в зависимости от derivedKeyAlgorithm
-        );
-
-        // Если вам нужны сырые биты ключа (Uint8Array), а не CryptoKey,
-        // используйте deriveBits:
-        /*
-        const derivedBitsBuffer = await window.crypto.subtle.deriveBits(
-            pbkdf2Params,
-            baseKey,
-            keyLengthBits // Длина бит, которые нужно вывести
-        );
-        return new Uint8Array(derivedBitsBuffer);
-        */
-
-        return derivedKey;
-
-    } catch (e) {
-        console.error("Ошибка при выводе ключа PBKDF2:", e);
-        throw new Error("Не удалось вывести ключ с помощью PBKDF2: " + e.message);
-    }
-}
-
-/**
- * Генерирует криптографически стойкую случайную "соль".
- * @param {number} [lengthBytes=16] - Длина соли в байтах (рекомендуется 16 байт = 128 бит).
- * @returns {Uint8Array} Случайная соль.
- * @throws {Error} Если Web Crypto API недоступен.
- */
-function generateSalt(lengthBytes = 16) {
-    if (!window.crypto || !window.crypto.getRandomValues) {
-        throw new Error("Ваш браузер не поддерживает криптографически стойкий генератор случайных чисел (Web Crypto API).");
-    }
-    const salt = new Uint8Array(lengthBytes);
-    window.crypto.getRandomValues(salt);
-    return salt;
+/**
+ * @file Реализация KDF (Key Derivation Function) для фронтенда с использованием PBKDF2.
+ * @fileoverview Этот файл предоставляет функцию для вывода криптографических ключей из паролей
+ * или других секретных значений с использованием PBKDF2 и Web Crypto API.
+ * deriveKeyPBKDF2 требует SubtleCrypto; deriveBitsPBKDF2 без него использует PBKDF2 поверх HMAC из sha2.ts.
+ */
+
+import { Hmac, isSubtleCryptoAvailable } from "@/modules/crypto/common/sha2";
+import { randomBytes } from "@/modules/crypto/common/platform";
+
+/**
+ * Количество итераций PBKDF2-HMAC-SHA-256 для паролей (рекомендация OWASP).
+ * Используется при обертывании ключей чатов и по умолчанию в консольной утилите.
+ * @type {number}
+ */
+export const PBKDF2_SHA256_ITERATIONS = 600000;
+
+// PBKDF2 (Password-Based Key Derivation Function 2) - это функция вывода ключей,
+// которая является частью PKCS #5 v2.0. Она используется для уменьшения уязвимости
+// криптографических ключей к атакам методом грубой силы, увеличивая время,
+// необходимое для выполнения каждого вычисления ключа.
+// PBKDF2 использует псевдослучайную функцию (обычно HMAC) для итеративного вычисления
+// ключей, а также "соль" для защиты от атак по радужным таблицам.
+
+/**
+ * Выводит криптографический ключ из пароля или другого секретного значения с использованием PBKDF2.
+ *
+ * @param {string | Uint8Array | ArrayBuffer} password - Пароль или исходное секретное значение.
+ * Может быть строкой, Uint8Array или ArrayBuffer.
+ * @param {Uint8Array} salt - Криптографически случайная "соль". Должна быть уникальной для каждого вывода ключа.
+ * Рекомендуется использовать соль длиной не менее 16 байт (128 бит).
+ * @param {number} iterations - Количество итераций. Чем больше, тем безопаснее, но медленнее.
+ * Рекомендуется от 100,000 до миллиона для паролей, в зависимости от целевой платформы и угроз.
+ * @param {number} keyLengthBits - Желаемая длина выведенного ключа в битах (например, 256 для AES-256).
+ * @param {string} hashAlgorithm - Хеш-алгоритм для использования внутри PBKDF2 (например, 'SHA-256', 'SHA-384', 'SHA-512').
+ * @returns {Promise<CryptoKey>} Promise, который разрешается с объектом CryptoKey.
+ * @throws {Error} Если Web Crypto API недоступен или параметры некорректны.
+ * Для вывода сырых байтов без SubtleCrypto используйте deriveBitsPBKDF2.
+ */
+export default async function deriveKeyPBKDF2(password, salt, iterations, keyLengthBits, hashAlgorithm) {
+    if (!isSubtleCryptoAvailable()) {
+        throw new Error("Ваш браузер не поддерживает Web Crypto API.");
+    }
+    if (!(salt instanceof Uint8Array)) {
+        throw new Error("Параметр 'salt' должен быть Uint8Array.");
+    }
+    if (iterations <= 0) {
+        throw new Error("Количество итераций должно быть положительным числом.");
+    }
+    if (keyLengthBits <= 0 || keyLengthBits % 8 !== 0) {
+        throw new Error("Длина ключа должна быть положительным числом, кратным 8.");
+    }
+
+    let passwordBuffer;
+    if (typeof password === 'string') {
+        const encoder = new TextEncoder();
+        passwordBuffer = encoder.encode(password);
+    } else if (password instanceof Uint8Array || password instanceof ArrayBuffer) {
+        passwordBuffer = password;
+    } else {
+        throw new Error("Пароль должен быть строкой, Uint8Array или ArrayBuffer.");
+    }
+
+    try {
+        // Импортируем пароль как "сырой" ключ, который будет использоваться в качестве базового ключа для PBKDF2
+        const baseKey = await crypto.subtle.importKey(
+            "raw",
+            passwordBuffer,
+            { name: "PBKDF2" }, // Указываем, что этот ключ будет использоваться с PBKDF2
+            false,              // Неэкспортируемый
+            ["deriveKey", "deriveBits"] // Разрешаем использование для вывода ключей или бит
+        );
+
+        // Определяем параметры для PBKDF2
+        const pbkdf2Params = {
+            name: "PBKDF2",
+            salt: salt,
+            iterations: iterations,
+            hash: { name: hashAlgorithm },
+        };
+
+        // Определяем параметры для выходного ключа (например, для AES-GCM)
+        const derivedKeyAlgorithm = {
+            name: "AES-GCM", // Или "HMAC", "AES-CBC" и т.д.
+            length: keyLengthBits,
+        };
+
+        // Использование "deriveKey" для получения CryptoKey
+        const derivedKey = await crypto.subtle.deriveKey(
+            pbkdf2Params,
+            baseKey,
+            derivedKeyAlgorithm,
+            true, // Экспортируемый (чтобы можно было его использовать для шифрования/дешифрования)
+            ["encrypt", "decrypt"] // Или "sign", "verify" и т.д. в зависимости от derivedKeyAlgorithm
+        );
+
+        // Если вам нужны сырые биты ключа (Uint8Array), а не CryptoKey,
+        // используйте deriveBits:
+        /*
+        const derivedBitsBuffer = await crypto.subtle.deriveBits(
+            pbkdf2Params,
+            baseKey,
+            keyLengthBits // Длина бит, которые нужно вывести
+        );
+        return new Uint8Array(derivedBitsBuffer);
+        */
+
+        return derivedKey;
+
+    } catch (e) {
+        console.error("Ошибка при выводе ключа PBKDF2:", e);
+        throw new Error("Не удалось вывести ключ с помощью PBKDF2: " + e.message);
+    }
+}
+
+/**
+ * Выводит сырые байты ключа с помощью PBKDF2: через SubtleCrypto, если он доступен,
+ * иначе синхронной реализацией deriveBitsPBKDF2Fallback в текущем потоке (см. ее описание о времени).
+ *
+ * @param {string | Uint8Array | ArrayBuffer} password - Пароль или исходное секретное значение.
+ * @param {Uint8Array} salt - Криптографически случайная "соль".
+ * @param {number} iterations - Количество итераций.
+ * @param {number} keyLengthBits - Желаемая длина ключа в битах (кратна 8).
+ * @param {string} hashAlgorithm - Хеш-алгоритм: 'SHA-256', 'SHA-384' или 'SHA-512'.
+ * @returns {Promise<Uint8Array>} Байты выведенного ключа.
+ * @throws {Error} Если параметры некорректны.
+ */
+export async function deriveBitsPBKDF2(password, salt, iterations, keyLengthBits, hashAlgorithm) {
+    if (!(salt instanceof Uint8Array)) {
+        throw new Error("Параметр 'salt' должен быть Uint8Array.");
+    }
+    if (iterations <= 0) {
+        throw new Error("Количество итераций должно быть положительным числом.");
+    }
+    if (keyLengthBits <= 0 || keyLengthBits % 8 !== 0) {
+        throw new Error("Длина ключа должна быть положительным числом, кратным 8.");
+    }
+
+    let passwordBytes;
+    if (typeof password === 'string') {
+        passwordBytes = new TextEncoder().encode(password);
+    } else if (password instanceof Uint8Array) {
+        passwordBytes = password;
+    } else if (password instanceof ArrayBuffer) {
+        passwordBytes = new Uint8Array(password);
+    } else {
+        throw new Error("Пароль должен быть строкой, Uint8Array или ArrayBuffer.");
+    }
+
+    if (isSubtleCryptoAvailable()) {
+        const baseKey = await crypto.subtle.importKey("raw", passwordBytes, { name: "PBKDF2" }, false, ["deriveBits"]);
+        const bits = await crypto.subtle.deriveBits(
+            { name: "PBKDF2", salt: salt, iterations: iterations, hash: { name: hashAlgorithm } },
+            baseKey,
+            keyLengthBits
+        );
+        return new Uint8Array(bits);
+    }
+
+    return deriveBitsPBKDF2Fallback(passwordBytes, salt, iterations, keyLengthBits, hashAlgorithm);
+}
+
+/**
+ * PBKDF2 (RFC 8018) поверх HMAC из sha2.ts, без SubtleCrypto.
+ * Выполняется синхронно: при PBKDF2_SHA256_ITERATIONS итераций это 5-9 секунд в зависимости
+ * от процессора (Node.js 20), и все это время поток занят. SubtleCrypto отсутствует только вне
+ * защищенного контекста (страница по http не с localhost), поэтому там обертывание ключа паролем
+ * заметно задерживает интерфейс. Вызывающий код должен показать индикатор ожидания.
+ *
+ * @param {Uint8Array} passwordBytes - Пароль.
+ * @param {Uint8Array} salt - Соль.
+ * @param {number} iterations - Количество итераций.
+ * @param {number} keyLengthBits - Длина ключа в битах (кратна 8).
+ * @param {string} hashAlgorithm - Хеш-алгоритм: 'SHA-256', 'SHA-384' или 'SHA-512'.
+ * @returns {Uint8Array} Байты выведенного ключа.
+ */
+export function deriveBitsPBKDF2Fallback(passwordBytes, salt, iterations, keyLengthBits, hashAlgorithm) {
+    const keyLength = keyLengthBits / 8;
+    const result = new Uint8Array(keyLength);
+    const blockInput = new Uint8Array(salt.length + 4);
+    blockInput.set(salt, 0);
+
+    // T_i = U_1 ^ U_2 ^ ... ^ U_c, где U_1 = PRF(P, S || INT(i)), U_j = PRF(P, U_{j-1})
+    for (let block = 1, offset = 0; offset < keyLength; block++) {
+        blockInput[salt.length] = block >>> 24;
+        blockInput[salt.length + 1] = block >>> 16;
+        blockInput[salt.length + 2] = block >>> 8;
+        blockInput[salt.length + 3] = block;
+
+        let u = new Hmac(hashAlgorithm, passwordBytes).update(blockInput).digest();
+        const t = u.slice();
+        for (let i = 1; i < iterations; i++) {
+            u = new Hmac(hashAlgorithm, passwordBytes).update(u).digest();
+            for (let j = 0; j < t.length; j++) t[j] ^= u[j];
+        }
+
+        result.set(t.subarray(0, Math.min(t.length, keyLength - offset)), offset);
+        offset += t.length;
+    }
+
+    return result;
+}
+
+/**
+ * Генерирует криптографически стойкую случайную "соль".
+ * @param {number} [lengthBytes=16] - Длина соли в байтах (рекомендуется 16 байт = 128 бит).
+ * @returns {Uint8Array} Случайная соль.
+ * @throws {Error} Если Web Crypto API недоступен.
+ */
+function generateSalt(lengthBytes = 16) {
+    return randomBytes(lengthBytes);
 }
\ No newline at end of file
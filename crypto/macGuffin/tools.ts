@@ -0,0 +1,83 @@
+import {
+  S_BITS, S_BOX,
+  S_TABLE_SHA256,
+  TSIZE,
+} from "@/modules/crypto/common/constants/macGuffin";
+
+import { SelfTestError } from "@/modules/crypto/common/errors";
+import { CipherAlgorithm } from "@/modules/crypto/common/types";
+import { bytesToHex } from "@/modules/crypto/common/bits_operation";
+import { createHash } from "@/modules/crypto/common/sha2";
+
+/**
+ * Параметры получения таблицы S-боксов.
+ * @property {boolean} [verify=false] - Сверить таблицу с S_TABLE_SHA256.
+ */
+export type STableOptions = {
+  verify?: boolean;
+};
+
+// Общая таблица S-боксов; строится при первом обращении.
+let sTable: Uint16Array | null = null;
+
+// Была ли таблица сверена с эталонным хешем.
+let sTableVerified = false;
+
+/**
+ * Строит таблицу S-боксов: для каждого 16-битного входа F-функции - объединение
+ * выходов восьми S-боксов, входные биты которых выбираются по S_BITS.
+ * @returns Таблица из TSIZE слов.
+ */
+function buildSTable(): Uint16Array {
+  const table = new Uint16Array(TSIZE);
+
+  for (let i = 0; i < TSIZE; i++) {
+    for (let j = 0; j < 8; j++) {
+      let inputIndex = 0;
+
+      for (let b = 0; b < 6; b++) {
+        inputIndex |= ((i >> S_BITS[j][b]) & 1) << b;
+      }
+
+      table[i] |= S_BOX[j][inputIndex];
+    }
+  }
+
+  return table;
+}
+
+/**
+ * Вычисляет SHA-256 таблицы S-боксов (слова в порядке little-endian).
+ * @param table - Таблица.
+ * @returns Хеш в hex (нижний регистр).
+ */
+export function hashSTable(table: Uint16Array): string {
+  const bytes = new Uint8Array(table.length * 2);
+  for (let i = 0; i < table.length; i++) {
+    bytes[2 * i] = table[i] & 0xFF;
+    bytes[2 * i + 1] = table[i] >>> 8;
+  }
+  return bytesToHex(createHash("SHA-256").update(bytes).digest()).toLowerCase();
+}
+
+/**
+ * Возвращает общую для всех контекстов таблицу S-боксов macGuffin, строя ее при первом вызове.
+ * Таблица не зависит от ключа; изменять ее нельзя.
+ * @param options - Параметры (проверка хеша выполняется один раз).
+ * @returns Таблица из TSIZE слов.
+ * @throws {SelfTestError} Если включена проверка и хеш таблицы не совпал с эталонным.
+ */
+export function getSTable(options: STableOptions = {}): Uint16Array {
+  if (!sTable) {
+    sTable = buildSTable();
+  }
+
+  if (options.verify && !sTableVerified) {
+    if (hashSTable(sTable) !== S_TABLE_SHA256) {
+      throw new SelfTestError(CipherAlgorithm.MacGuffin, "Таблица S-боксов macGuffin не совпадает с эталонным хешем.");
+    }
+    sTableVerified = true;
+  }
+
+  return sTable;
+}
@@ -1,206 +1,222 @@
-/**
- * @file Реализация блочного шифра на основе структуры Фейстеля.
- * @fileoverview Этот файл содержит класс FeistelBlockCipher, который реализует
- * блочный шифр Фейстеля, используя предоставленные интерфейсы IKeyExpansion и IBlockCipher
- * для раундовой функции F.
- */
-
-import {
-  BLOCK_SIZE_BYTES,
-  HALF_BLOCK_SIZE_BYTES, MDS_MATRIX,
-  NUM_ROUNDS,
-} from "@/modules/crypto/common/constants/twoFish"
-
-import { IBlockCipher } from "@/modules/crypto/common/interfaces/BlockCipher"
-import { IKeyExpansion } from "@/modules/crypto/common/interfaces/KeyExpansion"
-
-import { rot, wordsToBytes, bytesToWords } from "@/modules/crypto/common/bits_operation"
-import {h, multiplyGF, PHT} from "@/modules/crypto/twoFish/tools"
-
-/**
- * Класс, реализующий функционал сети Фейстеля на основе предоставленных интерфейсов.
- * Этот класс сам реализует интерфейс IBlockCipher, представляя собой блочный шифр
- * структуры Фейстеля, использующий другой IBlockCipher для раундовой функции F.
- * @augments IBlockCipher
- */
-export class FeistelBlockCipher extends IBlockCipher {
-  // Реализация интерфейса IKeyExpansion для расширения ключа.
-  private keyExpansion_: IKeyExpansion;
-
-  // Количество раундов в сети Фейстеля.
-  private numRounds_: number;
-
-  // Размер блока шифра в байтах.
-  static blockSizeBytes_: number = HALF_BLOCK_SIZE_BYTES * 2;
-
-  /**
-   * Конструктор FeistelBlockCipher.
-   * @param {IKeyExpansion} keyExpansion - Реализация интерфейса IKeyExpansion для расширения ключа.
-   * @param {number} numRounds - Количество раундов в сети Фейстеля.
-   * @throws {Error} Если keyExpansion или roundFunctionBlockCipher не предоставлены
-   * или numRounds некорректно.
-   */
-  constructor(keyExpansion: IKeyExpansion, numRounds: number) {
-      super();
-      if (numRounds <= 0) {
-          throw new Error("Количество раундов должно быть положительным числом.");
-      }
-
-      this.keyExpansion_ = keyExpansion;
-      this.numRounds_ = numRounds;
-  }
-
-  /**
-   * Возвращает размер блока шифра в байтах.
-   * @returns {number} Размер блока в байтах.
-   */
-  static getBlockSizeBytes(): number {
-    return this.blockSizeBytes_;
-  }
-
-  /**
-   * @function encryptBlock
-   * @description Шифрует один 64-битный блок данных.
-   * @param {Uint8Array} blk 64-битный (8-байтный) блок открытого текста.
-   * @param {number[]} round_keys Расширенный ключ, сгенерированный mcg_keyset.
-   * @returns {Uint8Array} Зашифрованный 64-битный блок.
-   * @source Схема 2
-   */
-  public encryptBlock(blk: Uint8Array<any>, round_keys: number[]): Uint8Array<any> {
-    if (this.keyExpansion_.sBoxes === null) {
-      throw new Error("S-boxes не определены.")
-    }
-    if (this.keyExpansion_.roundKeys === null) {
-      throw new Error("Раундовые ключи не определены.")
-    }
-
-    let [w0, w1, w2, w3] = bytesToWords(blk);
-    w0 ^= round_keys[0];
-    w1 ^= round_keys[1];
-    w2 ^= round_keys[2];
-    w3 ^= round_keys[3];
-
-
-    for (let r = 0; r < NUM_ROUNDS; r++) {
-      // console.log(w0, w1, w2, w3);
-
-      const t0 = this.gFunction(w0, this.keyExpansion_.sBoxes as number[][]);
-      const t1 = this.gFunction(rot(w1, 8), this.keyExpansion_.sBoxes as number[][]);
-
-      const [f0, f1] = PHT(t0, t1)
-
-      w2 = rot(w2 ^ (f0 + (this.keyExpansion_.roundKeys as number[])[2 * r + 8]), -1);
-      w3 = rot(w3, 1) ^ (f1 + (this.keyExpansion_.roundKeys as number[])[2 * r + 9]);
-
-
-      if (r < NUM_ROUNDS - 1) {
-        [w0, w1, w2, w3] = [w2, w3, w0, w1];
-      }
-    }
-
-    // console.log(w0, w1, w2, w3);
-
-    // Output whitening
-    w0 ^= round_keys[4];
-    w1 ^= round_keys[5];
-    w2 ^= round_keys[6];
-    w3 ^= round_keys[7];
-
-    return wordsToBytes([w0, w1, w2, w3]);
-  }
-
-  /**
-   * @function decryptBlock
-   * @description Дешифрует один 64-битный блок зашифрованного текста.
-   * @param {Uint8Array} blk 64-битный (8-байтный) блок зашифрованного текста.
-   * @param {number[]} round_keys Расширенный ключ, сгенерированный mcg_keyset.
-   * @returns {Uint8Array} Расшифрованный 64-битный блок.
-   * @source Схема 3
-   */
-  public decryptBlock(blk: Uint8Array, round_keys: number[]): Uint8Array<any> {
-    if (this.keyExpansion_.sBoxes === null) {
-      throw new Error("S-boxes не определены.")
-    }
-    if (blk.length !== BLOCK_SIZE_BYTES) {
-      throw new Error(`Шифротекст должен быть ${BLOCK_SIZE_BYTES} байт.`);
-    }
-
-    let [w0, w1, w2, w3] = bytesToWords(blk);
-
-    // Reverse output whitening
-    w0 ^= round_keys[4];
-    w1 ^= round_keys[5];
-    w2 ^= round_keys[6];
-    w3 ^= round_keys[7];
-
-    for (let r = NUM_ROUNDS - 1; r >= 0; r--) {
-      if (r < NUM_ROUNDS - 1) {
-        [w0, w1, w2, w3] = [w2, w3, w0, w1];
-      }
-
-      const t0 = this.gFunction(w0, this.keyExpansion_.sBoxes as number[][]);
-      const t1 = this.gFunction(rot(w1, 8), this.keyExpansion_.sBoxes as number[][]);
-
-      const [f0, f1] = PHT(t0, t1);
-
-      const oldW2 = rot(w2, 1) ^ (f0 + (this.keyExpansion_.roundKeys as number[])[2 * r + 8]);
-      const oldW3 = rot(w3 ^ (f1 + (this.keyExpansion_.roundKeys as number[])[2 * r + 9]), -1);
-
-      // if (r === NUM_ROUNDS - 1)
-      //   console.log(oldW2, oldW3);
-
-      w2 = oldW2;
-      w3 = oldW3;
-
-    }
-
-    // console.log(w0, w1, w2, w3);
-
-    // Reverse input whitening
-    w0 ^= round_keys[0];
-    w1 ^= round_keys[1];
-    w2 ^= round_keys[2];
-    w3 ^= round_keys[3];
-
-    return wordsToBytes([w0, w1, w2, w3]);
-  }
-
-  /**
-   * Функция g, использующая предвычисленные S-боксы.
-   * @param x 32-битное слово.
-   * @param sBoxes Предвычисленные S-боксы.
-   * @returns 32-битное слово.
-   */
-  private gFunction(x: number, sBoxes: number[][]): number {
-    const b0 = sBoxes[0][(x >> 24) & 0xFF];
-    const b1 = sBoxes[1][(x >> 16) & 0xFF];
-    const b2 = sBoxes[2][(x >> 8) & 0xFF];
-    const b3 = sBoxes[3][x & 0xFF];
-
-    const y = (b0 << 24) | (b1 << 16) | (b2 << 8) | b3;
-
-    // Умножение на MDS-матрицу
-    const z0 =
-      multiplyGF(MDS_MATRIX[0][0], (y >> 24) & 0xFF) ^
-      multiplyGF(MDS_MATRIX[0][1], (y >> 16) & 0xFF) ^
-      multiplyGF(MDS_MATRIX[0][2], (y >> 8) & 0xFF) ^
-      multiplyGF(MDS_MATRIX[0][3], y & 0xFF);
-    const z1 =
-      multiplyGF(MDS_MATRIX[1][0], (y >> 24) & 0xFF) ^
-      multiplyGF(MDS_MATRIX[1][1], (y >> 16) & 0xFF) ^
-      multiplyGF(MDS_MATRIX[1][2], (y >> 8) & 0xFF) ^
-      multiplyGF(MDS_MATRIX[1][3], y & 0xFF);
-    const z2 =
-      multiplyGF(MDS_MATRIX[2][0], (y >> 24) & 0xFF) ^
-      multiplyGF(MDS_MATRIX[2][1], (y >> 16) & 0xFF) ^
-      multiplyGF(MDS_MATRIX[2][2], (y >> 8) & 0xFF) ^
-      multiplyGF(MDS_MATRIX[2][3], y & 0xFF);
-    const z3 =
-      multiplyGF(MDS_MATRIX[3][0], (y >> 24) & 0xFF) ^
-      multiplyGF(MDS_MATRIX[3][1], (y >> 16) & 0xFF) ^
-      multiplyGF(MDS_MATRIX[3][2], (y >> 8) & 0xFF) ^
-      multiplyGF(MDS_MATRIX[3][3], y & 0xFF);
-
-    return (z0 << 24) | (z1 << 16) | (z2 << 8) | z3;
-  }
-}
\ No newline at end of file
+/**
+ * @file Реализация блочного шифра на основе структуры Фейстеля.
+ * @fileoverview Этот файл содержит класс FeistelBlockCipher, который реализует
+ * блочный шифр Фейстеля, используя предоставленные интерфейсы IKeyExpansion и IBlockCipher
+ * для раундовой функции F.
+ */
+
+import {
+  BLOCK_SIZE_BYTES,
+  HALF_BLOCK_SIZE_BYTES,
+  NUM_ROUNDS,
+} from "@/modules/crypto/common/constants/twoFish"
+
+import { IBlockCipher } from "@/modules/crypto/common/interfaces/BlockCipher"
+import { IKeyExpansion } from "@/modules/crypto/common/interfaces/KeyExpansion"
+
+import { rot, readUint32LE, writeUint32LE } from "@/modules/crypto/common/bits_operation"
+
+/**
+ * Класс, реализующий функционал сети Фейстеля на основе предоставленных интерфейсов.
+ * Этот класс сам реализует интерфейс IBlockCipher, представляя собой блочный шифр
+ * структуры Фейстеля, использующий другой IBlockCipher для раундовой функции F.
+ * @augments IBlockCipher
+ */
+export class FeistelBlockCipher extends IBlockCipher {
+  // Реализация интерфейса IKeyExpansion для расширения ключа.
+  private keyExpansion_: IKeyExpansion;
+
+  // Количество раундов в сети Фейстеля.
+  private numRounds_: number;
+
+  // Размер блока шифра в байтах.
+  static blockSizeBytes_: number = HALF_BLOCK_SIZE_BYTES * 2;
+
+  /**
+   * Конструктор FeistelBlockCipher.
+   * @param {IKeyExpansion} keyExpansion - Реализация интерфейса IKeyExpansion для расширения ключа.
+   * @param {number} numRounds - Количество раундов в сети Фейстеля.
+   * @throws {Error} Если keyExpansion или roundFunctionBlockCipher не предоставлены
+   * или numRounds некорректно.
+   */
+  constructor(keyExpansion: IKeyExpansion, numRounds: number) {
+      super();
+      if (numRounds <= 0 || numRounds > NUM_ROUNDS) {
+          throw new Error(`Количество раундов должно быть от 1 до ${NUM_ROUNDS}.`);
+      }
+
+      this.keyExpansion_ = keyExpansion;
+      this.numRounds_ = numRounds;
+  }
+
+  /**
+   * Возвращает размер блока шифра в байтах.
+   * @returns {number} Размер блока в байтах.
+   */
+  static getBlockSizeBytes(): number {
+    return this.blockSizeBytes_;
+  }
+
+  /**
+   * Возвращает размер блока шифра в байтах (реализация IBlockCipher).
+   * @returns {number} Размер блока в байтах.
+   */
+  getBlockSizeBytes(): number {
+    return FeistelBlockCipher.getBlockSizeBytes();
+  }
+
+  /**
+   * @function encryptBlock
+   * @description Шифрует один 128-битный блок данных.
+   * @param {Uint8Array} blk 128-битный (16-байтный) блок открытого текста.
+   * @param {number[]} round_keys Раундовые ключи K0..K39, сгенерированные KeyExpansion.
+   * @returns {Uint8Array} Зашифрованный 128-битный блок.
+   */
+  public encryptBlock(blk: Uint8Array<any>, round_keys: number[]): Uint8Array<any> {
+    this.checkLength(blk);
+    const output = new Uint8Array(BLOCK_SIZE_BYTES);
+    this.encryptBlockInto(blk, 0, output, 0, round_keys);
+    return output;
+  }
+
+  /**
+   * @function decryptBlock
+   * @description Дешифрует один 128-битный блок зашифрованного текста.
+   * @param {Uint8Array} blk 128-битный (16-байтный) блок зашифрованного текста.
+   * @param {number[]} round_keys Раундовые ключи K0..K39, сгенерированные KeyExpansion.
+   * @returns {Uint8Array} Расшифрованный 128-битный блок.
+   */
+  public decryptBlock(blk: Uint8Array, round_keys: number[]): Uint8Array<any> {
+    this.checkLength(blk);
+    const output = new Uint8Array(BLOCK_SIZE_BYTES);
+    this.decryptBlockInto(blk, 0, output, 0, round_keys);
+    return output;
+  }
+
+  /**
+   * @function encryptBlockInto
+   * @description Шифрует 128-битный блок src[srcOffset..] в dst[dstOffset..] без выделения памяти.
+   * @param {Uint8Array} src Источник.
+   * @param {number} srcOffset Начало блока в src.
+   * @param {Uint8Array} dst Приемник (может совпадать с src).
+   * @param {number} dstOffset Начало блока в dst.
+   * @param {number[]} round_keys Раундовые ключи K0..K39, сгенерированные KeyExpansion.
+   */
+  public encryptBlockInto(src: Uint8Array<any>, srcOffset: number, dst: Uint8Array<any>, dstOffset: number, round_keys: number[]): void {
+    const sBoxes = this.checkState(src, srcOffset, dst, dstOffset);
+
+    // Входное отбеливание
+    let a = readUint32LE(src, srcOffset) ^ round_keys[0];
+    let b = readUint32LE(src, srcOffset + 4) ^ round_keys[1];
+    let c = readUint32LE(src, srcOffset + 8) ^ round_keys[2];
+    let d = readUint32LE(src, srcOffset + 12) ^ round_keys[3];
+
+    for (let r = 0; r < this.numRounds_; r++) {
+      const t0 = this.gFunction(a, sBoxes);
+      const t1 = this.gFunction(rot(b, 8), sBoxes);
+
+      // Псевдопреобразование Адамара и сложение с раундовыми ключами
+      const f0 = (t0 + t1 + round_keys[2 * r + 8]) >>> 0;
+      const f1 = (t0 + 2 * t1 + round_keys[2 * r + 9]) >>> 0;
+
+      const nextA = rot(c ^ f0, -1);
+      const nextB = rot(d, 1) ^ f1;
+      c = a;
+      d = b;
+      a = nextA;
+      b = nextB;
+    }
+
+    // Отмена последней перестановки и выходное отбеливание
+    writeUint32LE(dst, dstOffset, c ^ round_keys[4]);
+    writeUint32LE(dst, dstOffset + 4, d ^ round_keys[5]);
+    writeUint32LE(dst, dstOffset + 8, a ^ round_keys[6]);
+    writeUint32LE(dst, dstOffset + 12, b ^ round_keys[7]);
+  }
+
+  /**
+   * @function decryptBlockInto
+   * @description Дешифрует 128-битный блок src[srcOffset..] в dst[dstOffset..] без выделения памяти.
+   * @param {Uint8Array} src Источник.
+   * @param {number} srcOffset Начало блока в src.
+   * @param {Uint8Array} dst Приемник (может совпадать с src).
+   * @param {number} dstOffset Начало блока в dst.
+   * @param {number[]} round_keys Раундовые ключи K0..K39, сгенерированные KeyExpansion.
+   */
+  public decryptBlockInto(src: Uint8Array<any>, srcOffset: number, dst: Uint8Array<any>, dstOffset: number, round_keys: number[]): void {
+    const sBoxes = this.checkState(src, srcOffset, dst, dstOffset);
+
+    // Отмена выходного отбеливания
+    let c = readUint32LE(src, srcOffset) ^ round_keys[4];
+    let d = readUint32LE(src, srcOffset + 4) ^ round_keys[5];
+    let a = readUint32LE(src, srcOffset + 8) ^ round_keys[6];
+    let b = readUint32LE(src, srcOffset + 12) ^ round_keys[7];
+
+    for (let r = this.numRounds_ - 1; r >= 0; r--) {
+      const t0 = this.gFunction(c, sBoxes);
+      const t1 = this.gFunction(rot(d, 8), sBoxes);
+
+      const f0 = (t0 + t1 + round_keys[2 * r + 8]) >>> 0;
+      const f1 = (t0 + 2 * t1 + round_keys[2 * r + 9]) >>> 0;
+
+      const prevC = rot(a, 1) ^ f0;
+      const prevD = rot(b ^ f1, -1);
+      a = c;
+      b = d;
+      c = prevC;
+      d = prevD;
+    }
+
+    // Отмена входного отбеливания
+    writeUint32LE(dst, dstOffset, a ^ round_keys[0]);
+    writeUint32LE(dst, dstOffset + 4, b ^ round_keys[1]);
+    writeUint32LE(dst, dstOffset + 8, c ^ round_keys[2]);
+    writeUint32LE(dst, dstOffset + 12, d ^ round_keys[3]);
+  }
+
+  /**
+   * Проверяет, что блок имеет размер BLOCK_SIZE_BYTES.
+   * @param blk Обрабатываемый блок.
+   */
+  private checkLength(blk: Uint8Array): void {
+    if (blk.length !== BLOCK_SIZE_BYTES) {
+      throw new Error(`Блок должен быть ${BLOCK_SIZE_BYTES} байт.`);
+    }
+  }
+
+  /**
+   * Проверяет границы блоков и готовность расширенного ключа.
+   * @param src Источник.
+   * @param srcOffset Начало блока в src.
+   * @param dst Приемник.
+   * @param dstOffset Начало блока в dst.
+   * @returns Таблицы полного ключевания (S-боксы, умноженные на MDS).
+   */
+  private checkState(src: Uint8Array, srcOffset: number, dst: Uint8Array, dstOffset: number): Uint32Array[] {
+    if (this.keyExpansion_.sBoxes === null) {
+      throw new Error("S-boxes не определены.")
+    }
+    if (this.keyExpansion_.roundKeys === null) {
+      throw new Error("Раундовые ключи не определены.")
+    }
+    if (srcOffset < 0 || srcOffset + BLOCK_SIZE_BYTES > src.length || dstOffset < 0 || dstOffset + BLOCK_SIZE_BYTES > dst.length) {
+      throw new Error(`Блок ${BLOCK_SIZE_BYTES} байт выходит за границы массива.`);
+    }
+    return this.keyExpansion_.sBoxes as Uint32Array[];
+  }
+
+  /**
+   * Функция g на таблицах полного ключевания.
+   * @param x 32-битное слово.
+   * @param sBoxes Таблицы полного ключевания.
+   * @returns 32-битное слово.
+   */
+  private gFunction(x: number, sBoxes: Uint32Array[]): number {
+    return (
+      sBoxes[0][x & 0xFF] ^
+      sBoxes[1][(x >>> 8) & 0xFF] ^
+      sBoxes[2][(x >>> 16) & 0xFF] ^
+      sBoxes[3][x >>> 24]
+    ) >>> 0;
+  }
+}
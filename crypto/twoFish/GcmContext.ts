@@ -0,0 +1,155 @@
+/**
+ * @file Режим аутентифицированного шифрования GCM для twoFish.
+ * @fileoverview Связывает общий режим Gcm (NIST SP 800-38D) с блочным шифром twoFish
+ * и проверяет его самотестирование. При несовпадении тега расшифрованные данные не возвращаются.
+ */
+
+import {
+  BLOCK_SIZE_BYTES,
+  MASTER_KEY_SIZE_BYTES,
+  NUM_ROUNDS,
+} from "@/modules/crypto/common/constants/twoFish"
+
+import { KeyExpansion } from "@/modules/crypto/twoFish/KeyExpansion"
+import { FeistelBlockCipher } from "@/modules/crypto/twoFish/FeistelBlockCipher"
+
+import { Gcm, GcmResult } from "@/modules/crypto/common/gcm"
+import { CipherContextBase } from "@/modules/crypto/common/interfaces/CipherContext"
+import { ensureSelfTest } from "@/modules/crypto/common/self_test"
+import { randomBytes } from "@/modules/crypto/common/platform"
+import { CipherAlgorithm, ParsedBlock } from "@/modules/crypto/common/types"
+
+export type { GcmResult } from "@/modules/crypto/common/gcm"
+
+/**
+ * Длина IV запечатанного блока в байтах (96 бит, J0 без GHASH).
+ * @type {number}
+ */
+export const SEALED_BLOCK_IV_SIZE_BYTES = 12
+
+/**
+ * Класс контекста аутентифицированного шифрования twoFish-GCM.
+ */
+export class GcmContext {
+  // Режим GCM поверх twoFish с текущим ключом.
+  private gcm_: Gcm | null = null;
+
+  // Длина тега в байтах.
+  private tagLength_: number;
+
+  /**
+   * Конструктор GcmContext.
+   * @param {number} tagLength - Длина тега аутентификации в байтах (12-16).
+   * @throws {Error} Если длина тега некорректна.
+   * @throws {SelfTestError} Если twoFish не прошел самотестирование.
+   */
+  constructor(tagLength: number = BLOCK_SIZE_BYTES) {
+    if (tagLength < 12 || tagLength > BLOCK_SIZE_BYTES) {
+      throw new Error(`Длина тега GCM должна быть от 12 до ${BLOCK_SIZE_BYTES} байт.`);
+    }
+
+    ensureSelfTest(CipherAlgorithm.TwoFish);
+
+    this.tagLength_ = tagLength;
+  }
+
+  /**
+   * Устанавливает мастер-ключ, генерирует раундовые ключи и хеш-подключ.
+   * @param {Uint8Array} masterKey - Мастер-ключ.
+   * @throws {Error} Если мастер-ключ некорректного размера.
+   */
+  public setMasterKey(masterKey: Uint8Array): GcmContext {
+    if (!masterKey || !MASTER_KEY_SIZE_BYTES.some(length => length === masterKey.length)) {
+      throw new Error(`Мастер-ключ должен быть ${MASTER_KEY_SIZE_BYTES} байт.`);
+    }
+
+    const keyExpansion = new KeyExpansion(masterKey);
+    const blockCipher = new FeistelBlockCipher(keyExpansion, NUM_ROUNDS);
+    this.gcm_ = new Gcm(blockCipher, keyExpansion.roundKeys as number[], this.tagLength_);
+
+    return this;
+  }
+
+  /**
+   * Шифрует данные и вычисляет тег аутентификации.
+   * @param {Uint8Array} plaintext - Открытый текст произвольной длины.
+   * @param {Uint8Array} iv - Вектор инициализации (рекомендуется 12 байт, уникальный для ключа).
+   * @param {Uint8Array} aad - Дополнительные аутентифицируемые данные (например, заголовок блока).
+   * @returns {GcmResult} Шифротекст и тег.
+   * @throws {Error} Если ключ не установлен или IV пуст.
+   */
+  encrypt(plaintext: Uint8Array<any>, iv: Uint8Array<any>, aad: Uint8Array<any> = new Uint8Array(0)): GcmResult {
+    return this._requireGcm().encrypt(plaintext, iv, aad);
+  }
+
+  /**
+   * Проверяет тег и дешифрует данные.
+   * @param {Uint8Array} ciphertext - Шифротекст.
+   * @param {Uint8Array} tag - Тег аутентификации.
+   * @param {Uint8Array} iv - Вектор инициализации, использованный при шифровании.
+   * @param {Uint8Array} aad - Дополнительные аутентифицируемые данные.
+   * @returns {Uint8Array} Открытый текст.
+   * @throws {AuthenticationError} Если тег не совпал.
+   */
+  decrypt(ciphertext: Uint8Array<any>, tag: Uint8Array<any>, iv: Uint8Array<any>, aad: Uint8Array<any> = new Uint8Array(0)): Uint8Array<any> {
+    return this._requireGcm().decrypt(ciphertext, tag, iv, aad);
+  }
+
+  /**
+   * Запечатывает блок сообщения: версионный заголовок uploadBlockHeader, затем IV, шифротекст и тег.
+   * Заголовок передается открытым, но входит в AAD, поэтому подмена получателя,
+   * номера блока или даты обнаруживается при openBlock.
+   * @param {number} blockId - Номер блока.
+   * @param {number} date - Временная метка сообщения.
+   * @param {number} receiver_id - Идентификатор получателя.
+   * @param {Uint8Array} plaintext - Открытый текст блока.
+   * @param {number} blockCount - Общее число блоков сообщения.
+   * @returns {Uint8Array} Запечатанный блок.
+   * @throws {Error} Если ключ не установлен.
+   */
+  sealBlock(blockId: number, date: number, receiver_id: number, plaintext: Uint8Array<any>, blockCount: number): Uint8Array<any> {
+    const header = CipherContextBase.blockHeader(blockId, date, receiver_id, blockCount);
+    const iv = randomBytes(SEALED_BLOCK_IV_SIZE_BYTES);
+    const { ciphertext, tag } = this.encrypt(plaintext, iv, header);
+
+    const body = new Uint8Array(iv.length + ciphertext.length + tag.length);
+    body.set(iv, 0);
+    body.set(ciphertext, iv.length);
+    body.set(tag, iv.length + ciphertext.length);
+
+    return CipherContextBase.uploadBlockHeader(blockId, date, receiver_id, body, blockCount);
+  }
+
+  /**
+   * Проверяет и раскрывает блок, сформированный sealBlock.
+   * @param {Uint8Array} block - Запечатанный блок.
+   * @returns {ParsedBlock} Заголовок и расшифрованная полезная нагрузка.
+   * @throws {AuthenticationError} Если тег не совпал (блок или заголовок изменены).
+   * @throws {Error} Если блок короче заголовка, IV и тега.
+   */
+  openBlock(block: Uint8Array<any>): ParsedBlock {
+    const { header, payload } = CipherContextBase.parseBlockHeader(block);
+    if (payload.length < SEALED_BLOCK_IV_SIZE_BYTES + this.tagLength_) {
+      throw new Error("Запечатанный блок слишком короткий.");
+    }
+
+    const aad = block.subarray(0, block.length - payload.length);
+    const iv = payload.subarray(0, SEALED_BLOCK_IV_SIZE_BYTES);
+    const ciphertext = payload.subarray(SEALED_BLOCK_IV_SIZE_BYTES, payload.length - this.tagLength_);
+    const tag = payload.subarray(payload.length - this.tagLength_);
+
+    return { header, payload: this.decrypt(ciphertext, tag, iv, aad) };
+  }
+
+  /**
+   * Возвращает режим GCM для текущего ключа.
+   * @returns {Gcm} Режим GCM.
+   * @throws {Error} Если мастер-ключ не установлен.
+   */
+  private _requireGcm(): Gcm {
+    if (!this.gcm_) {
+      throw new Error("Мастер-ключ не установлен. Вызовите setMasterKey перед использованием GCM.");
+    }
+    return this.gcm_;
+  }
+}
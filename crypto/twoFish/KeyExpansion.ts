@@ -1,88 +1,90 @@
-import { IKeyExpansion } from "@/modules/crypto/common/interfaces/KeyExpansion"
-
-import {
-  Q0, Q1,
-  RS_MATRIX,
-} from "@/modules/crypto/common/constants/twoFish"
-
-import {
-  multiplyGF,
-  PHT,
-  q, h,
-} from "@/modules/crypto/twoFish/tools"
-
-/**
- * Класс, реализующий расширение ключа для macGuffin.
- * @augments IKeyExpansion
- */
-export class KeyExpansion extends IKeyExpansion {
-  private M: number[];
-  private S: number[];
-
-  public constructor(masterKey: Uint8Array<any>) {
-    super();
-
-    const k = masterKey.length / 8;
-    this.M = new Array(2 * k).fill(0);
-    this.S = new Array(k).fill(0);
-
-    // 1. Создание векторов M и S
-    for (let i = 0; i < k; i++) {
-      this.M[2 * i] = (masterKey[8 * i] | (masterKey[8 * i + 1] << 8) |
-        (masterKey[8 * i + 2] << 16) | (masterKey[8 * i + 3] << 24));
-      this.M[2 * i + 1] = (masterKey[8 * i + 4] | (masterKey[8 * i + 5] << 8) |
-        (masterKey[8 * i + 6] << 16) | (masterKey[8 * i + 7] << 24));
-
-      // RS Matrix multiplication to get S vector
-      const keyBytes = masterKey.slice(8 * i, 8 * (i + 1));
-      const sBytes = new Array(4).fill(0);
-      for (let row = 0; row < 4; row++) {
-        let sum = 0;
-        for (let col = 0; col < 8; col++) {
-          sum ^= multiplyGF(RS_MATRIX[row][col], keyBytes[col]);
-        }
-        sBytes[row] = sum;
-      }
-      this.S[k - 1 - i] = (sBytes[0] << 24) | (sBytes[1] << 16) | (sBytes[2] << 8) | sBytes[3];
-    }
-
-    // 2. Генерация раундовых ключей и S-боксов
-    this.roundKeys_ = this.generateRoundKeysInternal();
-    this.sBoxes_ = this.generateSBoxesInternal();
-  }
-
-
-  /**
-   * Внутренняя реализация генерации раундовых ключей.
-   */
-  private generateRoundKeysInternal(): number[] {
-    const roundKeys: number[] = new Array(40);
-    for (let i = 0; i < 20; i++) {
-      const temp = PHT(h(this.M[2 * i], this.M), h(this.M[2 * i + 1], this.M));
-      roundKeys[2 * i] = temp[0];
-      roundKeys[2 * i + 1] = temp[1];
-    }
-    return roundKeys;
-  }
-
-  /**
-   * Внутренняя реализация генерации S-боксов.
-   */
-  private generateSBoxesInternal(): number[][] {
-    const sBoxes = new Array(4).fill(0).map(() => new Array(256));
-    for (let i = 0; i < 4; i++) {
-      for (let j = 0; j < 256; j++) {
-        // let x = j;
-        // if (i === 0 || i === 2) {
-        //   x = q(x, Q0);
-        // } else {
-        //   x = q(x, Q1);
-        // }
-        // sBoxes[i][j] = x;
-
-        sBoxes[i][j] = h(j, this.S);
-      }
-    }
-    return sBoxes;
-  }
-}
\ No newline at end of file
+import { IKeyExpansion } from "@/modules/crypto/common/interfaces/KeyExpansion"
+
+import {
+  RHO,
+  RS_MATRIX,
+  RS_POLY,
+} from "@/modules/crypto/common/constants/twoFish"
+
+import {
+  multiplyGF,
+  h, hBytes,
+  MDS_COLUMNS,
+} from "@/modules/crypto/twoFish/tools"
+
+import { rot } from "@/modules/crypto/common/bits_operation"
+
+/**
+ * Класс, реализующий расширение ключа для twoFish.
+ * @augments IKeyExpansion
+ */
+export class KeyExpansion extends IKeyExpansion {
+  // Четные и нечетные слова ключа (Me, Mo).
+  private Me: number[];
+  private Mo: number[];
+  // Вектор S для ключезависимых S-боксов.
+  private S: number[];
+
+  public constructor(masterKey: Uint8Array<any>) {
+    super();
+
+    const k = masterKey.length / 8;
+    this.Me = new Array(k).fill(0);
+    this.Mo = new Array(k).fill(0);
+    this.S = new Array(k).fill(0);
+
+    // 1. Создание векторов Me, Mo (слова little-endian) и S
+    for (let i = 0; i < k; i++) {
+      this.Me[i] = (masterKey[8 * i] | (masterKey[8 * i + 1] << 8) |
+        (masterKey[8 * i + 2] << 16) | (masterKey[8 * i + 3] << 24)) >>> 0;
+      this.Mo[i] = (masterKey[8 * i + 4] | (masterKey[8 * i + 5] << 8) |
+        (masterKey[8 * i + 6] << 16) | (masterKey[8 * i + 7] << 24)) >>> 0;
+
+      // Умножение на RS-матрицу дает слово S; порядок слов в S обратный
+      let s = 0;
+      for (let row = 0; row < 4; row++) {
+        let sum = 0;
+        for (let col = 0; col < 8; col++) {
+          sum ^= multiplyGF(RS_MATRIX[row][col], masterKey[8 * i + col], RS_POLY);
+        }
+        s |= sum << (8 * row);
+      }
+      this.S[k - 1 - i] = s >>> 0;
+    }
+
+    // 2. Генерация раундовых ключей и S-боксов
+    this.roundKeys_ = this.generateRoundKeysInternal();
+    this.sBoxes_ = this.generateSBoxesInternal();
+  }
+
+  /**
+   * Внутренняя реализация генерации 40 раундовых ключей K0..K39.
+   */
+  private generateRoundKeysInternal(): number[] {
+    const roundKeys: number[] = new Array(40);
+    for (let i = 0; i < 20; i++) {
+      const a = h(Math.imul(2 * i, RHO) >>> 0, this.Me);
+      const b = rot(h(Math.imul(2 * i + 1, RHO) >>> 0, this.Mo), 8) >>> 0;
+      roundKeys[2 * i] = (a + b) >>> 0;
+      roundKeys[2 * i + 1] = rot((a + 2 * b) >>> 0, 9) >>> 0;
+    }
+    return roundKeys;
+  }
+
+  /**
+   * Внутренняя реализация генерации таблиц полного ключевания (full keying):
+   * ключезависимый S-бокс j, сразу умноженный на столбец j MDS-матрицы.
+   * Функция g сводится к четырем обращениям к таблицам:
+   * g(X) = sBoxes[0][x0] ^ sBoxes[1][x1] ^ sBoxes[2][x2] ^ sBoxes[3][x3].
+   */
+  private generateSBoxesInternal(): Uint32Array[] {
+    const sBoxes = [0, 1, 2, 3].map(() => new Uint32Array(256));
+    for (let x = 0; x < 256; x++) {
+      const y = hBytes(Math.imul(x, RHO) >>> 0, this.S);
+      for (let j = 0; j < 4; j++) {
+        sBoxes[j][x] = MDS_COLUMNS[j][y[j]];
+      }
+    }
+    return sBoxes;
+  }
+}
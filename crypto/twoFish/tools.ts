@@ -1,101 +1,179 @@
-import {
-  MDS_MATRIX,
-  Q0, Q1,
-  RS_POLY
-} from "@/modules/crypto/common/constants/twoFish";
-
-export function q(x: number, qTable: typeof Q0): number {
-  const a0 = (x >> 4) & 0xF;
-  const b0 = x & 0xF;
-
-  const a1 = a0 ^ b0;
-  const b1 = a0 ^ (((b0 << 1) | (b0 >> 3)) & 0xF) ^ ((8 * a0) & 0xF);
-
-  const a2 = qTable.t0[a1];
-  const b2 = qTable.t1[b1];
-
-  const a3 = a2 ^ b2;
-  const b3 = a2 ^ (((b2 << 1) | (b2 >> 3)) & 0xF) ^ ((8 * a2) & 0xF);
-
-  const a4 = qTable.t2[a3];
-  const b4 = qTable.t3[b3];
-
-  return (b4 << 4) | a4;
-}
-
-// Эта функция h - это то, что вы описали как g(X) = h(X, S)
-export function h(x: number, lVector: number[]): number {
-    const k = lVector.length;
-
-  let y0 = (x >> 24) & 0xFF;
-  let y1 = (x >> 16) & 0xFF;
-  let y2 = (x >> 8) & 0xFF;
-  let y3 = x & 0xFF;
-
-  if (k >= 4) {
-    y3 = q(y3, Q1) ^ ((lVector[3] >> 24) & 0xFF);
-    y2 = q(y2, Q0) ^ ((lVector[3] >> 16) & 0xFF);
-    y1 = q(y1, Q1) ^ ((lVector[3] >> 8) & 0xFF);
-    y0 = q(y0, Q1) ^ (lVector[3] & 0xFF);
-  }
-
-  if (k >= 3) {
-    y3 = q(y3, Q0) ^ ((lVector[2] >> 24) & 0xFF);
-    y2 = q(y2, Q0) ^ ((lVector[2] >> 16) & 0xFF);
-    y1 = q(y1, Q1) ^ ((lVector[2] >> 8) & 0xFF);
-    y0 = q(y0, Q1) ^ (lVector[2] & 0xFF);
-  }
-
-  y0 = q(q(q(y0, Q0) ^ ((lVector[1] >> 24) & 0xFF), Q0) ^ ((lVector[0] >> 24) & 0xFF), Q1);
-  y1 = q(q(q(y1, Q1) ^ ((lVector[1] >> 16) & 0xFF), Q0) ^ ((lVector[0] >> 16) & 0xFF), Q0);
-  y2 = q(q(q(y2, Q0) ^ ((lVector[1] >> 8) & 0xFF), Q1) ^ ((lVector[0] >> 8) & 0xFF), Q1);
-  y3 = q(q(q(y3, Q1) ^ (lVector[1] & 0xFF), Q1) ^ (lVector[0] & 0xFF), Q0);
-
-  const y = (y0 << 24) | (y1 << 16) | (y2 << 8) | y3;
-
-  const z0 =
-    multiplyGF(MDS_MATRIX[0][0], (y >> 24) & 0xFF) ^
-    multiplyGF(MDS_MATRIX[0][1], (y >> 16) & 0xFF) ^
-    multiplyGF(MDS_MATRIX[0][2], (y >> 8) & 0xFF) ^
-    multiplyGF(MDS_MATRIX[0][3], y & 0xFF);
-  const z1 =
-    multiplyGF(MDS_MATRIX[1][0], (y >> 24) & 0xFF) ^
-    multiplyGF(MDS_MATRIX[1][1], (y >> 16) & 0xFF) ^
-    multiplyGF(MDS_MATRIX[1][2], (y >> 8) & 0xFF) ^
-    multiplyGF(MDS_MATRIX[1][3], y & 0xFF);
-  const z2 =
-    multiplyGF(MDS_MATRIX[2][0], (y >> 24) & 0xFF) ^
-    multiplyGF(MDS_MATRIX[2][1], (y >> 16) & 0xFF) ^
-    multiplyGF(MDS_MATRIX[2][2], (y >> 8) & 0xFF) ^
-    multiplyGF(MDS_MATRIX[2][3], y & 0xFF);
-  const z3 =
-    multiplyGF(MDS_MATRIX[3][0], (y >> 24) & 0xFF) ^
-    multiplyGF(MDS_MATRIX[3][1], (y >> 16) & 0xFF) ^
-    multiplyGF(MDS_MATRIX[3][2], (y >> 8) & 0xFF) ^
-    multiplyGF(MDS_MATRIX[3][3], y & 0xFF);
-
-  return (z0 << 24) | (z1 << 16) | (z2 << 8) | z3;
-}
-
-/**
- * Умножение над полем Галуа GF(2^8).
- * @param a - Первый множитель.
- * @param b - Второй множитель.
- * @returns Результат умножения.
- */
-export function multiplyGF(a: number, b: number): number {
-  let result = 0;
-  while (b > 0) {
-    if (b & 1) {
-      result ^= a;
-    }
-    a <<= 1;
-    if (a & 0x100) {
-      a ^= RS_POLY;
-    }
-    b >>= 1;
-  }
-  return result;
-}
-
-export const PHT = (a: number, b: number) => [(a + b) % 2**32, (a + 2*b) % 2**32];
+import {
+  MDS_MATRIX,
+  MDS_POLY,
+  Q0, Q1,
+} from "@/modules/crypto/common/constants/twoFish";
+
+/**
+ * Циклический сдвиг 4-битного значения вправо на один бит.
+ * @param x - 4-битное значение.
+ * @returns Результат сдвига.
+ */
+function ror4(x: number): number {
+  return ((x >> 1) | (x << 3)) & 0xF;
+}
+
+/**
+ * Фиксированная перестановка q0 или q1 над байтом.
+ * @param x - Входной байт.
+ * @param qTable - Таблицы t0..t3 перестановки (Q0 или Q1).
+ * @returns Выходной байт.
+ */
+export function q(x: number, qTable: typeof Q0): number {
+  const a0 = (x >> 4) & 0xF;
+  const b0 = x & 0xF;
+
+  const a1 = a0 ^ b0;
+  const b1 = a0 ^ ror4(b0) ^ ((8 * a0) & 0xF);
+
+  const a2 = qTable.t0[a1];
+  const b2 = qTable.t1[b1];
+
+  const a3 = a2 ^ b2;
+  const b3 = a2 ^ ror4(b2) ^ ((8 * a2) & 0xF);
+
+  const a4 = qTable.t2[a3];
+  const b4 = qTable.t3[b3];
+
+  return (b4 << 4) | a4;
+}
+
+/**
+ * Строит таблицу перестановки q над всеми 256 байтами.
+ * @param qTable - Таблицы t0..t3 перестановки (Q0 или Q1).
+ * @returns Таблица: q(x) для x = 0..255.
+ */
+function buildQTable(qTable: typeof Q0): Uint8Array {
+  const table = new Uint8Array(256);
+  for (let x = 0; x < 256; x++) {
+    table[x] = q(x, qTable);
+  }
+  return table;
+}
+
+/**
+ * Предвычисленная перестановка q0.
+ * @type {Uint8Array}
+ */
+export const Q0_TABLE = buildQTable(Q0);
+
+/**
+ * Предвычисленная перестановка q1.
+ * @type {Uint8Array}
+ */
+export const Q1_TABLE = buildQTable(Q1);
+
+/**
+ * Байт j слова в порядке little-endian.
+ * @param word - 32-битное слово.
+ * @param j - Номер байта (0 - младший).
+ * @returns Байт.
+ */
+function byteOf(word: number, j: number): number {
+  return (word >>> (8 * j)) & 0xFF;
+}
+
+/**
+ * Цепочка перестановок q и сложений с ключом в функции h (без умножения на MDS).
+ * @param x - Входное слово X.
+ * @param lVector - Вектор ключевых слов L (2, 3 или 4 слова).
+ * @returns Байты y0..y3 перед умножением на MDS.
+ */
+export function hBytes(x: number, lVector: number[]): number[] {
+  const k = lVector.length;
+
+  let y0 = byteOf(x, 0);
+  let y1 = byteOf(x, 1);
+  let y2 = byteOf(x, 2);
+  let y3 = byteOf(x, 3);
+
+  if (k >= 4) {
+    y0 = Q1_TABLE[y0] ^ byteOf(lVector[3], 0);
+    y1 = Q0_TABLE[y1] ^ byteOf(lVector[3], 1);
+    y2 = Q0_TABLE[y2] ^ byteOf(lVector[3], 2);
+    y3 = Q1_TABLE[y3] ^ byteOf(lVector[3], 3);
+  }
+
+  if (k >= 3) {
+    y0 = Q1_TABLE[y0] ^ byteOf(lVector[2], 0);
+    y1 = Q1_TABLE[y1] ^ byteOf(lVector[2], 1);
+    y2 = Q0_TABLE[y2] ^ byteOf(lVector[2], 2);
+    y3 = Q0_TABLE[y3] ^ byteOf(lVector[2], 3);
+  }
+
+  y0 = Q1_TABLE[Q0_TABLE[Q0_TABLE[y0] ^ byteOf(lVector[1], 0)] ^ byteOf(lVector[0], 0)];
+  y1 = Q0_TABLE[Q0_TABLE[Q1_TABLE[y1] ^ byteOf(lVector[1], 1)] ^ byteOf(lVector[0], 1)];
+  y2 = Q1_TABLE[Q1_TABLE[Q0_TABLE[y2] ^ byteOf(lVector[1], 2)] ^ byteOf(lVector[0], 2)];
+  y3 = Q0_TABLE[Q1_TABLE[Q1_TABLE[y3] ^ byteOf(lVector[1], 3)] ^ byteOf(lVector[0], 3)];
+
+  return [y0, y1, y2, y3];
+}
+
+/**
+ * Умножение вектора байт на MDS-матрицу.
+ * @param y - Байты y0..y3.
+ * @returns Слово Z = z0 + z1·2^8 + z2·2^16 + z3·2^24.
+ */
+export function mdsMultiply(y: number[]): number {
+  let z = 0;
+  for (let i = 0; i < 4; i++) {
+    const zi =
+      multiplyGF(MDS_MATRIX[i][0], y[0]) ^
+      multiplyGF(MDS_MATRIX[i][1], y[1]) ^
+      multiplyGF(MDS_MATRIX[i][2], y[2]) ^
+      multiplyGF(MDS_MATRIX[i][3], y[3]);
+    z |= zi << (8 * i);
+  }
+  return z >>> 0;
+}
+
+/**
+ * Вклад байта y в позиции j в произведение на MDS-матрицу: MDS_COLUMNS[j][y]
+ * равно mdsMultiply для вектора, в котором только y_j = y. Произведение
+ * любого вектора - XOR четырех таких значений.
+ * @type {Uint32Array[]}
+ */
+export const MDS_COLUMNS: Uint32Array[] = [0, 1, 2, 3].map(j => {
+  const table = new Uint32Array(256);
+  for (let y = 0; y < 256; y++) {
+    const vector = [0, 0, 0, 0];
+    vector[j] = y;
+    table[y] = mdsMultiply(vector);
+  }
+  return table;
+});
+
+/**
+ * Функция h из спецификации twoFish; g(X) = h(X, S).
+ * @param x - Входное слово.
+ * @param lVector - Вектор ключевых слов L.
+ * @returns Выходное слово.
+ */
+export function h(x: number, lVector: number[]): number {
+  const [y0, y1, y2, y3] = hBytes(x, lVector);
+  return (MDS_COLUMNS[0][y0] ^ MDS_COLUMNS[1][y1] ^ MDS_COLUMNS[2][y2] ^ MDS_COLUMNS[3][y3]) >>> 0;
+}
+
+/**
+ * Умножение над полем Галуа GF(2^8).
+ * @param a - Первый множитель.
+ * @param b - Второй множитель.
+ * @param poly - Неприводимый многочлен поля (по умолчанию многочлен MDS-матрицы).
+ * @returns Результат умножения.
+ */
+export function multiplyGF(a: number, b: number, poly: number = MDS_POLY): number {
+  let result = 0;
+  while (b > 0) {
+    if (b & 1) {
+      result ^= a;
+    }
+    a <<= 1;
+    if (a & 0x100) {
+      a ^= poly;
+    }
+    b >>= 1;
+  }
+  return result;
+}
+
+export const PHT = (a: number, b: number) => [(a + b) >>> 0, (a + 2 * b) >>> 0];